@@ -1,35 +1,133 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { parseArgs } from "node:util";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 
-// Import all tool and resource registrations
-import { registerNodeVersionTools } from "./tools/node-version.js";
-import { registerScriptTools } from "./tools/run-scripts.js";
-import { registerNpmTools } from "./tools/npm-tools.js";
-import { registerServerTools } from "./tools/server-tools.js";
-import { registerNpmDocsTools } from "./tools/npm-docs.js";
-import { registerNpmScriptsResource } from "./resources/npm-scripts.js";
-
-// Create an MCP server
-const server = new McpServer({
-  name: "NodeRunner",
-  version: "1.0.0"
+import { createMcpServer } from "./server.js";
+import { startHttpTransport, HttpTransportHandle } from "./transports/http.js";
+import { restoreServers, stopAllServers } from "./utils/servers.js";
+import { loadPermissionPolicy } from "./utils/permissions.js";
+import { setAuditLogPath } from "./utils/audit.js";
+import { setMetricsInterval, startMetricsSampling } from "./utils/metrics.js";
+
+const usage = `Usage: mcp-node [options]
+
+Options:
+  --transport <stdio|http>  Transport to serve MCP over (default: stdio)
+  --host <host>             Host to bind the HTTP transport to (default: 127.0.0.1)
+  --port <port>             Port to bind the HTTP transport to (default: 3001)
+  --path <path>             Streamable HTTP endpoint (default: /mcp)
+  --sse-path <path>         Legacy SSE stream endpoint (default: /sse)
+  --messages-path <path>    Legacy SSE message endpoint (default: /messages)
+  --policy <file>           Permission policy file (default: $MCP_NODE_POLICY)
+  --audit-log <file>        Audit log file (default: $MCP_NODE_AUDIT_LOG or ~/.mcp-node/audit.jsonl)
+  --orphans <adopt|report>  What to do with servers a previous session left running (default: adopt)
+  --metrics-interval <ms>   Interval between resource samples of managed servers, 0 to disable (default: $MCP_NODE_METRICS_INTERVAL or 5000)
+  -h, --help                Show this help
+`;
+
+// Parse command line options
+const { values: options } = parseArgs({
+  options: {
+    transport: { type: "string", default: "stdio" },
+    host: { type: "string", default: "127.0.0.1" },
+    port: { type: "string", default: "3001" },
+    path: { type: "string", default: "/mcp" },
+    "sse-path": { type: "string", default: "/sse" },
+    "messages-path": { type: "string", default: "/messages" },
+    policy: { type: "string" },
+    "audit-log": { type: "string" },
+    orphans: { type: "string", default: "adopt" },
+    "metrics-interval": { type: "string" },
+    help: { type: "boolean", short: "h", default: false }
+  }
 });
 
-// Register all tools and resources
-registerNodeVersionTools(server);
-registerScriptTools(server);
-registerNpmTools(server);
-registerServerTools(server);
-registerNpmDocsTools(server);
-registerNpmScriptsResource(server);
+if (options.help) {
+  process.stdout.write(usage);
+  process.exit(0);
+}
+
+let httpTransport: HttpTransportHandle | null = null;
+let shuttingDown = false;
+
+// Stop managed servers and close transports before exiting
+async function shutdown(reason: string): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.error(`Shutting down Node Runner MCP Server (${reason})`);
+
+  try {
+    if (httpTransport) {
+      await httpTransport.close();
+    }
+    await stopAllServers();
+  } catch (error) {
+    console.error("Error during shutdown:", error);
+  }
+
+  process.exit(0);
+}
 
 // Start the server
 async function main() {
   try {
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error("Node Runner MCP Server running");
+    loadPermissionPolicy(options.policy);
+    if (options["audit-log"]) {
+      setAuditLogPath(options["audit-log"]);
+    }
+
+    // Pick up the servers a previous mcp-node session left running
+    if (options.orphans !== "adopt" && options.orphans !== "report") {
+      throw new Error(`Unknown orphans mode '${options.orphans}'. Expected 'adopt' or 'report'.\n\n${usage}`);
+    }
+    const { adopted, orphaned } = restoreServers(options.orphans);
+    if (adopted.length > 0) {
+      console.error(`Adopted ${adopted.length} server(s) left running by a previous session: ${adopted.join(", ")}`);
+    }
+    if (orphaned.length > 0) {
+      console.error(`Found ${orphaned.length} orphaned server(s) left running by a previous session: ${orphaned.join(", ")}`);
+    }
+
+    // Sample the resource usage of managed servers in the background
+    if (options["metrics-interval"] !== undefined) {
+      setMetricsInterval(Number(options["metrics-interval"]));
+    }
+    startMetricsSampling();
+
+    if (options.transport === "stdio") {
+      const server = createMcpServer();
+      const transport = new StdioServerTransport();
+      await server.connect(transport);
+
+      // The client closing stdin means it is gone for good
+      process.stdin.on("end", () => shutdown("stdin closed"));
+      console.error("Node Runner MCP Server running on stdio");
+    } else if (options.transport === "http") {
+      const port = Number(options.port);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid port: ${options.port}`);
+      }
+
+      httpTransport = await startHttpTransport(createMcpServer, {
+        host: options.host!,
+        port,
+        path: options.path!,
+        ssePath: options["sse-path"]!,
+        messagesPath: options["messages-path"]!
+      });
+
+      // Report the bound port, which differs from the requested one for port 0
+      const boundAddress = httpTransport.httpServer.address();
+      const boundPort = boundAddress && typeof boundAddress === "object" ? boundAddress.port : port;
+      const address = `http://${options.host}:${boundPort}`;
+      console.error(`Node Runner MCP Server running on ${address}${options.path} (Streamable HTTP)`);
+      console.error(`Legacy SSE endpoint available at ${address}${options["sse-path"]}`);
+    } else {
+      throw new Error(`Unknown transport '${options.transport}'. Expected 'stdio' or 'http'.\n\n${usage}`);
+    }
+
+    process.on("SIGINT", () => shutdown("SIGINT"));
+    process.on("SIGTERM", () => shutdown("SIGTERM"));
   } catch (error) {
     console.error("Error starting server:", error);
     process.exit(1);
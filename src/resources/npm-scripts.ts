@@ -1,64 +1,172 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RootsListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
 import * as path from "path";
 import * as fs from "fs/promises";
+import { fileURLToPath } from "url";
+import { analyzeScripts } from "../utils/package-scripts.js";
+import { detectPackageManager } from "../utils/package-managers.js";
+import { findWorkspaceRoot, listDirectories, loadWorkspace } from "../utils/workspaces.js";
+
+// How deep below each root projects are listed
+const LIST_DEPTH = 3;
+
+// Most projects listed, and most directory names completed
+const MAX_LISTED = 200;
+const MAX_COMPLETIONS = 100;
+
+// URI of the scripts resource of a directory, e.g. npm-scripts:///home/me/app
+function scriptsUri(directory: string): string {
+  return `npm-scripts://${encodeURI(directory)}`;
+}
+
+/**
+ * Directories to look for projects in: the roots the client shares, or the
+ * working directory of the server when the client does not support roots.
+ */
+async function getProjectRoots(server: McpServer): Promise<string[]> {
+  if (!server.server.getClientCapabilities()?.roots) {
+    return [process.cwd()];
+  }
+  try {
+    const { roots } = await server.server.listRoots();
+    return roots.filter(root => root.uri.startsWith('file://')).map(root => fileURLToPath(root.uri));
+  } catch (error) {
+    return [process.cwd()];
+  }
+}
+
+// Directories with a package.json in a root and below it, skipping node_modules
+async function findProjects(root: string): Promise<string[]> {
+  const candidates = [root, ...(await listDirectories(root, LIST_DEPTH)).map(dir => path.join(root, dir))];
+  const projects: string[] = [];
+  for (const dir of candidates) {
+    if (projects.length >= MAX_LISTED) break;
+    try {
+      await fs.access(path.join(dir, 'package.json'));
+      projects.push(dir);
+    } catch (error) {
+      // Not a project
+    }
+  }
+  return projects;
+}
+
+// Directory names starting with a partial path, for completing the directory argument
+async function completeDirectory(value: string): Promise<string[]> {
+  // Complete the last segment, keeping what comes before it as typed
+  const parent = value.slice(0, value.lastIndexOf('/') + 1);
+  const prefix = value.slice(parent.length);
+  let entries;
+  try {
+    entries = await fs.readdir(path.resolve(parent || '.'), { withFileTypes: true });
+  } catch (error) {
+    return [];
+  }
+  return entries
+    .filter(entry => entry.isDirectory() && entry.name.startsWith(prefix))
+    // Hidden directories and node_modules only when asked for
+    .filter(entry => (!entry.name.startsWith('.') || prefix.startsWith('.')) && (entry.name !== 'node_modules' || prefix !== ''))
+    .map(entry => parent + entry.name)
+    .sort()
+    .slice(0, MAX_COMPLETIONS);
+}
+
+// Structured description of the scripts of the package in a directory
+async function describeScripts(absPath: string): Promise<Record<string, unknown>> {
+  const packageJsonPath = path.join(absPath, "package.json");
+  let packageJson;
+  try {
+    packageJson = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'));
+  } catch (error) {
+    return { directory: absPath, error: `package.json not found or invalid at ${packageJsonPath}` };
+  }
+
+  const packageManager = await detectPackageManager(absPath);
+  const workspaceRoot = await findWorkspaceRoot(absPath);
+
+  // A workspace root also lists its packages and their scripts
+  let workspace = null;
+  if (workspaceRoot === absPath) {
+    const loaded = await loadWorkspace(absPath);
+    workspace = {
+      source: loaded.source,
+      patterns: loaded.patterns,
+      packages: loaded.packages.map(pkg => ({
+        name: pkg.name,
+        version: pkg.version,
+        directory: pkg.dir,
+        relativeDirectory: pkg.relativeDir,
+        uri: scriptsUri(pkg.dir),
+        dependencies: pkg.dependencies,
+        scripts: pkg.scripts
+      }))
+    };
+  }
+
+  return {
+    directory: absPath,
+    packageJson: packageJsonPath,
+    name: packageJson.name ?? null,
+    version: packageJson.version ?? null,
+    packageManager: { name: packageManager.name, version: packageManager.version, source: packageManager.source },
+    workspaceRoot,
+    scripts: analyzeScripts(packageJson.scripts ?? {}),
+    workspace
+  };
+}
 
 export function registerNpmScriptsResource(server: McpServer): void {
-  // Resource for listing package.json scripts
+  // Resource with the scripts of a package.json, addressed by its directory
   server.resource(
     "npm-scripts",
-    "npm-scripts://{directory}",
-    async (uri) => {
-      try {
-        // Extract directory from the URI
-        const uriPath = uri.pathname;
-        const matches = /^\/([^/]+)/.exec(uriPath);
-        const directory = matches ? matches[1] : '.';
-        
-        // Resolve the absolute path
-        const absPath = path.resolve(directory);
-        const packageJsonPath = path.join(absPath, "package.json");
-        
-        // Read package.json
-        try {
-          const packageJsonContent = await fs.readFile(packageJsonPath, 'utf-8');
-          const packageJson = JSON.parse(packageJsonContent);
-          
-          if (!packageJson.scripts || Object.keys(packageJson.scripts).length === 0) {
-            return {
-              contents: [{
-                uri: uri.href,
-                text: "No scripts found in package.json"
-              }]
-            };
+    new ResourceTemplate("npm-scripts://{+directory}", {
+      list: async () => {
+        const projects = new Set<string>();
+        for (const root of await getProjectRoots(server)) {
+          for (const project of await findProjects(root)) {
+            projects.add(project);
           }
-          
-          const scriptsList = Object.entries(packageJson.scripts)
-            .map(([name, command]) => `- ${name}: ${command}`)
-            .join('\n');
-          
-          return {
-            contents: [{
-              uri: uri.href,
-              text: `Available scripts in ${packageJsonPath}:\n\n${scriptsList}`
-            }]
-          };
-        } catch (error) {
-          return {
-            contents: [{
-              uri: uri.href,
-              text: `Error: package.json not found or invalid at ${packageJsonPath}`
-            }]
-          };
         }
+        return {
+          resources: Array.from(projects).slice(0, MAX_LISTED).map(project => ({
+            uri: scriptsUri(project),
+            name: `Scripts of ${path.basename(project)}`,
+            description: `package.json scripts in ${project}`,
+            mimeType: "application/json"
+          }))
+        };
+      },
+      complete: {
+        directory: completeDirectory
+      }
+    }),
+    { description: "Scripts of a package.json with their pre and post hooks and the scripts they run, by absolute or relative directory", mimeType: "application/json" },
+    async (uri, { directory }) => {
+      try {
+        // Relative directories are resolved against the working directory of the server
+        const absPath = path.resolve(decodeURIComponent(String(directory)));
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(await describeScripts(absPath), null, 2)
+          }]
+        };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         return {
           contents: [{
             uri: uri.href,
-            text: `Error reading package.json: ${errorMessage}`
+            mimeType: "application/json",
+            text: JSON.stringify({ error: `Error reading package.json: ${errorMessage}` }, null, 2)
           }]
         };
       }
     }
   );
+
+  // The listed projects follow the roots the client shares
+  server.server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+    server.sendResourceListChanged();
+  });
 }
@@ -0,0 +1,170 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { runningServers } from "../utils/helpers.js";
+import { formatLogLine } from "../utils/logs.js";
+import { getListeningPorts, isInspectorPort } from "../utils/ports.js";
+import { describeServerStatus, serverEvents } from "../utils/servers.js";
+import { ServerInfo } from "../types/index.js";
+
+// URI of the resource listing all managed servers
+const SERVERS_URI = "servers://";
+
+// Update notifications for a resource are sent at most this often, so chatty servers don't flood clients
+const NOTIFY_INTERVAL = 250;
+
+// URI of the log resource of a server
+function logsUri(serverId: string): string {
+  return `server-logs://${serverId}`;
+}
+
+// ID under which a server is registered
+function findServerId(serverInfo: ServerInfo): string | undefined {
+  for (const [serverId, info] of runningServers) {
+    if (info === serverInfo) return serverId;
+  }
+  return undefined;
+}
+
+export function registerServerLogsResource(server: McpServer): void {
+  // Resource listing the managed servers and their state
+  server.resource(
+    "servers",
+    SERVERS_URI,
+    { description: "Managed Node.js servers and their state", mimeType: "application/json" },
+    async (uri) => {
+      const servers = await Promise.all(Array.from(runningServers.entries()).map(async ([serverId, serverInfo]) => ({
+        serverId,
+        name: serverInfo.name,
+        pid: serverInfo.pid,
+        command: serverInfo.command,
+        cwd: serverInfo.cwd,
+        startTime: serverInfo.startTime.toISOString(),
+        status: describeServerStatus(serverInfo),
+        running: serverInfo.exitCode === null,
+        exitCode: serverInfo.exitCode,
+        signal: serverInfo.signal,
+        ports: serverInfo.exitCode === null
+          ? (await getListeningPorts(serverInfo.pid)).map(port => ({ ...port, inspector: isInspectorPort(port, serverInfo.inspectPort) }))
+          : [],
+        resources: serverInfo.exitCode === null ? serverInfo.metrics[serverInfo.metrics.length - 1] ?? null : null,
+        inspectPort: serverInfo.inspectPort,
+        restartPolicy: serverInfo.restartPolicy,
+        restartCount: serverInfo.restartCount,
+        watchPatterns: serverInfo.watchPatterns,
+        adopted: serverInfo.adopted,
+        logFile: serverInfo.logFile,
+        logsUri: logsUri(serverId)
+      })));
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify({ servers }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Resource with the captured output of each managed server
+  server.resource(
+    "server-logs",
+    new ResourceTemplate("server-logs://{serverId}", {
+      list: async () => ({
+        resources: Array.from(runningServers.entries()).map(([serverId, serverInfo]) => ({
+          uri: logsUri(serverId),
+          name: `Logs of ${serverInfo.name} (${serverId})`,
+          mimeType: "text/plain"
+        }))
+      })
+    }),
+    { description: "Captured stdout and stderr of a managed server", mimeType: "text/plain" },
+    async (uri, { serverId }) => {
+      const serverInfo = runningServers.get(String(serverId));
+      if (!serverInfo) {
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: "text/plain",
+            text: `Server with ID ${serverId} not found.`
+          }]
+        };
+      }
+
+      let text = `=== Logs for server: ${serverInfo.name} (ID: ${serverId}) ===\n`;
+      text += `Status: ${describeServerStatus(serverInfo)}\n`;
+      text += `Log file: ${serverInfo.logFile}\n\n`;
+      text += serverInfo.logs.map(line => formatLogLine(line)).join('\n');
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "text/plain",
+          text
+        }]
+      };
+    }
+  );
+
+  // Subscriptions of the client connected to this server instance
+  const subscriptions = new Set<string>();
+  const pendingNotifications = new Map<string, NodeJS.Timeout>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Tell the client a subscribed resource changed, coalescing bursts of changes
+  const notifyUpdated = (uri: string) => {
+    if (!subscriptions.has(uri) || pendingNotifications.has(uri)) return;
+    pendingNotifications.set(uri, setTimeout(() => {
+      pendingNotifications.delete(uri);
+      if (subscriptions.has(uri)) {
+        server.server.sendResourceUpdated({ uri }).catch(() => {});
+      }
+    }, NOTIFY_INTERVAL));
+  };
+
+  const onLog = (serverInfo: ServerInfo) => {
+    const serverId = findServerId(serverInfo);
+    if (serverId) notifyUpdated(logsUri(serverId));
+  };
+  const onStateChange = (serverInfo: ServerInfo) => {
+    const serverId = findServerId(serverInfo);
+    if (serverId) notifyUpdated(logsUri(serverId));
+    notifyUpdated(SERVERS_URI);
+  };
+  const onStart = (serverInfo: ServerInfo) => {
+    onStateChange(serverInfo);
+    server.sendResourceListChanged();
+  };
+  const onRemove = (serverId: string) => {
+    notifyUpdated(logsUri(serverId));
+    notifyUpdated(SERVERS_URI);
+    server.sendResourceListChanged();
+  };
+
+  serverEvents.on('log', onLog);
+  serverEvents.on('exit', onStateChange);
+  serverEvents.on('start', onStart);
+  serverEvents.on('remove', onRemove);
+
+  // Stop listening once the client session ends
+  server.server.onclose = () => {
+    serverEvents.removeListener('log', onLog);
+    serverEvents.removeListener('exit', onStateChange);
+    serverEvents.removeListener('start', onStart);
+    serverEvents.removeListener('remove', onRemove);
+    for (const timer of pendingNotifications.values()) {
+      clearTimeout(timer);
+    }
+    pendingNotifications.clear();
+    subscriptions.clear();
+  };
+}
@@ -0,0 +1,53 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+// Import all tool and resource registrations
+import { registerNodeVersionTools } from "./tools/node-version.js";
+import { registerScriptTools } from "./tools/run-scripts.js";
+import { registerNpmTools } from "./tools/npm-tools.js";
+import { registerServerTools } from "./tools/server-tools.js";
+import { registerNpmDocsTools } from "./tools/npm-docs.js";
+import { registerAuditTools } from "./tools/audit-tools.js";
+import { registerHttpTools } from "./tools/http-tools.js";
+import { registerMetricsTools } from "./tools/metrics-tools.js";
+import { registerTestTools } from "./tools/test-tools.js";
+import { registerProfileTools } from "./tools/profile-tools.js";
+import { registerDebugTools } from "./tools/debug-tools.js";
+import { registerMatrixTools } from "./tools/matrix-tools.js";
+import { registerWorkspaceTools } from "./tools/workspace-tools.js";
+import { registerDependencyTools } from "./tools/dependency-tools.js";
+import { registerNpmScriptsResource } from "./resources/npm-scripts.js";
+import { registerServerLogsResource } from "./resources/server-logs.js";
+
+/**
+ * Create a fully configured MCP server instance.
+ *
+ * The stdio transport uses a single instance, while the HTTP transports create
+ * one per client session. Managed servers and the selected Node.js version live
+ * in module state, so every session sees the same processes.
+ */
+export function createMcpServer(): McpServer {
+  const server = new McpServer({
+    name: "NodeRunner",
+    version: "1.0.0"
+  });
+
+  // Register all tools and resources
+  registerNodeVersionTools(server);
+  registerScriptTools(server);
+  registerNpmTools(server);
+  registerServerTools(server);
+  registerNpmDocsTools(server);
+  registerAuditTools(server);
+  registerHttpTools(server);
+  registerMetricsTools(server);
+  registerTestTools(server);
+  registerProfileTools(server);
+  registerDebugTools(server);
+  registerMatrixTools(server);
+  registerWorkspaceTools(server);
+  registerDependencyTools(server);
+  registerNpmScriptsResource(server);
+  registerServerLogsResource(server);
+
+  return server;
+}
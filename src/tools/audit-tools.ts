@@ -0,0 +1,81 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { parseTimeBound } from "../utils/helpers.js";
+import { getAuditLogPath, queryAuditLog } from "../utils/audit.js";
+import { AuditEntry } from "../types/index.js";
+
+// Render an audit entry for the tool response
+function formatEntry(entry: AuditEntry, includeOutput: boolean): string {
+  let text = `[${entry.timestamp}] ${entry.tool}: ${entry.outcome.toUpperCase()}\n`;
+  text += `Command: ${entry.command}\n`;
+  if (entry.cwd) text += `Working directory: ${entry.cwd}\n`;
+  text += `Node.js version: ${entry.nodeVersion}\n`;
+  if (entry.permission) {
+    const how = entry.permission.prompted ? `${entry.permission.allowed ? 'approved' : 'denied'} by user` : entry.permission.action;
+    text += `Permission: ${how} (${entry.permission.source})\n`;
+  }
+  if (entry.exitCode !== null) text += `Exit code: ${entry.exitCode}\n`;
+  if (entry.durationMs !== null) text += `Duration: ${entry.durationMs}ms\n`;
+  if (entry.details) text += `Details: ${JSON.stringify(entry.details)}\n`;
+  if (entry.error) text += `Error: ${entry.error}\n`;
+  if (includeOutput) {
+    if (entry.stdout) text += `Standard Output:\n${entry.stdout}\n`;
+    if (entry.stderr) text += `Standard Error:\n${entry.stderr}\n`;
+  }
+  return text;
+}
+
+export function registerAuditTools(server: McpServer): void {
+  // Tool to query the audit log of executed commands
+  server.tool(
+    "query-audit-log",
+    "Query the audit log of commands executed by this MCP server",
+    {
+      since: z.string().optional().describe("Only include entries at or after this time (ISO timestamp or relative like '30m', '2h', '1d')"),
+      until: z.string().optional().describe("Only include entries at or before this time (ISO timestamp or relative like '30m', '2h', '1d')"),
+      tool: z.array(z.string()).optional().describe("Only include entries for these tools (e.g. ['run-npm-script', 'run-npm-install'])"),
+      outcome: z.array(z.enum(['success', 'failure', 'denied', 'error'])).optional().describe("Only include entries with these outcomes"),
+      limit: z.number().optional().describe("Maximum number of entries to return; the most recent matches are kept (default: 50)"),
+      includeOutput: z.boolean().optional().describe("Include the recorded (truncated) stdout and stderr (default: false)")
+    },
+    async ({ since, until, tool, outcome, limit = 50, includeOutput = false }) => {
+      try {
+        const { entries, matched } = await queryAuditLog({
+          since: since ? parseTimeBound(since) : undefined,
+          until: until ? parseTimeBound(until) : undefined,
+          tools: tool,
+          outcomes: outcome,
+          limit
+        });
+
+        if (entries.length === 0) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `No audit log entries match the query (log file: ${getAuditLogPath()}).`
+            }]
+          };
+        }
+
+        let response = `Showing ${entries.length} of ${matched} matching audit log entries (log file: ${getAuditLogPath()}):\n\n`;
+        response += entries.map(entry => formatEntry(entry, includeOutput)).join('\n');
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: response
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error querying audit log: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,552 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as path from "path";
+import * as fs from "fs/promises";
+import { generateServerId, runningServers, shellQuote } from "../utils/helpers.js";
+import { checkPermission, describePermission, permissionDeniedResponse } from "../utils/permissions.js";
+import { recordExecution } from "../utils/audit.js";
+import { NodeRuntime, describeNodeRuntime, getNodeRuntime } from "../utils/version-managers.js";
+import { findFreePort } from "../utils/inspector.js";
+import { formatLogLine } from "../utils/logs.js";
+import { startManagedServer, stopManagedServer } from "../utils/servers.js";
+import { BreakpointInfo, DebugSession, attachDebugger, closeDebugSession, debugSessions, describeDebugState, evaluateInSession, removeBreakpoint, runIfWaiting, setBreakpoint, waitForPause } from "../utils/debugger.js";
+import { LogLine } from "../types/index.js";
+
+// One-line description of a breakpoint and where it resolved
+function describeBreakpoint(breakpoint: BreakpointInfo, cwd: string): string {
+  let text = `${breakpoint.id}: ${path.relative(cwd, breakpoint.file) || breakpoint.file}:${breakpoint.line}`;
+  if (breakpoint.condition) text += ` when ${breakpoint.condition}`;
+  text += breakpoint.locations.length > 0
+    ? ` (resolved at ${breakpoint.locations.join(', ')})`
+    : ` (pending until the file is loaded)`;
+  return text;
+}
+
+// Output the program wrote while it ran, for the response
+function describeOutput(output: LogLine[]): string {
+  return output.length > 0 ? `\nOutput:\n${output.map(line => formatLogLine(line)).join('\n')}\n` : '';
+}
+
+// Response for an unknown debug session
+function sessionNotFound(sessionId: string) {
+  return {
+    isError: true,
+    content: [{
+      type: "text" as const,
+      text: `Debug session ${sessionId} not found. Use get-debug-state to list the debug sessions.`
+    }]
+  };
+}
+
+// Summary of a session: IDs, target and breakpoints
+function describeSession(session: DebugSession): string {
+  const cwd = session.serverInfo.cwd;
+  let text = `Debug session ID: ${session.id}\n`;
+  text += `Server ID: ${session.serverId} (${session.serverInfo.name}, PID ${session.pid})\n`;
+  text += `Inspector: 127.0.0.1:${session.port}\n`;
+  text += `Breakpoints:${session.breakpoints.size === 0 ? ' none' : ''}\n`;
+  for (const breakpoint of session.breakpoints.values()) {
+    text += `  ${describeBreakpoint(breakpoint, cwd)}\n`;
+  }
+  return text;
+}
+
+const breakpointSchema = z.object({
+  file: z.string().describe("File path, absolute or relative to the working directory"),
+  line: z.number().describe("1-based line number"),
+  condition: z.string().optional().describe("JavaScript expression; the breakpoint only pauses when it is truthy")
+});
+
+export function registerDebugTools(server: McpServer): void {
+  // Tool to start a script under the debugger, or attach to a managed server
+  server.tool(
+    "start-debug-session",
+    "Start a Node.js script under the debugger (--inspect-brk), or attach to a managed server started with an inspector port, and return a debug session ID for setting breakpoints, stepping and evaluating expressions",
+    {
+      scriptPath: z.string().optional().describe("Script to start under the debugger"),
+      serverId: z.string().optional().describe("Managed server to attach to instead; it must have been started with inspectPort"),
+      cwd: z.string().optional().describe("Working directory of the script (default: the script's directory)"),
+      args: z.array(z.string()).optional().describe("Arguments to pass to the script"),
+      nodeArgs: z.array(z.string()).optional().describe("Extra arguments for the Node.js executable"),
+      breakpoints: z.array(breakpointSchema).optional().describe("Breakpoints to set before the script runs"),
+      stopOnEntry: z.boolean().optional().describe("Stay paused on the first statement of the script instead of running to the first breakpoint (default: true)"),
+      pauseOnExceptions: z.enum(['none', 'uncaught', 'all']).optional().describe("Pause when exceptions are thrown (default: none)"),
+      timeout: z.number().optional().describe("Time in milliseconds to wait for the script to pause (default: 10000)")
+    },
+    async ({ scriptPath, serverId, cwd, args = [], nodeArgs = [], breakpoints = [], stopOnEntry = true, pauseOnExceptions = 'none', timeout = 10000 }) => {
+      try {
+        if ((scriptPath === undefined) === (serverId === undefined)) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: "Error: Provide either scriptPath to start a script or serverId to attach to a managed server."
+            }]
+          };
+        }
+
+        let targetId: string;
+        let command: string;
+        let workingDir: string;
+        let absPath: string | undefined;
+        let port: number;
+        // Node.js version a launched script runs with
+        let runtime: NodeRuntime | null = null;
+        const existing = serverId !== undefined ? runningServers.get(serverId) : undefined;
+
+        if (serverId !== undefined) {
+          if (!existing) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Server with ID ${serverId} not found.`
+              }]
+            };
+          }
+          if (existing.inspectPort === null || existing.exitCode !== null) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: existing.inspectPort === null
+                  ? `Server ${serverId} was not started with an inspector port. Restart it with start-node-server and inspectPort, or start the script with start-debug-session.`
+                  : `Server ${serverId} is not running (exit code ${existing.exitCode}).`
+              }]
+            };
+          }
+          targetId = serverId;
+          port = existing.inspectPort;
+          command = `debug ${existing.command}`;
+          workingDir = existing.cwd;
+        } else {
+          absPath = path.resolve(scriptPath!);
+          try {
+            await fs.access(absPath);
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Error: Script not found at ${absPath}`
+              }]
+            };
+          }
+          targetId = generateServerId();
+          port = await findFreePort();
+          workingDir = cwd ? path.resolve(cwd) : path.dirname(absPath);
+          command = ['node', `--inspect-brk=127.0.0.1:${port}`, ...nodeArgs, absPath, ...args].map(shellQuote).join(' ');
+          runtime = await getNodeRuntime(workingDir);
+        }
+
+        // Evaluate the permission policy
+        const permission = await checkPermission({
+          tool: "start-debug-session",
+          message: existing ? `Attach a debugger to server ${existing.name} (${serverId})` : `Debug: ${command} (in ${workingDir})`,
+          command,
+          scriptPath: absPath,
+          cwd: workingDir
+        });
+
+        if (!permission.allowed) {
+          await recordExecution({ tool: "start-debug-session", command, cwd: workingDir, permission, details: { serverId } });
+          return permissionDeniedResponse(permission);
+        }
+
+        // Scripts run as managed servers, so their output is captured and they can be stopped like servers
+        const serverInfo = existing ?? startManagedServer({
+          serverId: targetId,
+          name: `${path.basename(absPath!)} (debug)`,
+          command,
+          cwd: workingDir,
+          launch: {
+            file: runtime!.node,
+            args: [`--inspect-brk=127.0.0.1:${port}`, ...nodeArgs, absPath!, ...args],
+            env: runtime!.env
+          },
+          inspectPort: port
+        });
+
+        let session: DebugSession;
+        try {
+          session = await attachDebugger(targetId, serverInfo, port, !existing);
+          if (pauseOnExceptions !== 'none') {
+            await session.inspector.send('Debugger.setPauseOnExceptions', { state: pauseOnExceptions });
+          }
+          for (const breakpoint of breakpoints) {
+            await setBreakpoint(session, breakpoint.file, breakpoint.line, breakpoint.condition);
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          if (!existing) await stopManagedServer(targetId, true);
+          await recordExecution({ tool: "start-debug-session", command, cwd: workingDir, permission, outcome: 'failure', error: errorMessage, details: { serverId: targetId } });
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `Error attaching the debugger: ${errorMessage}\n\n${describePermission(permission)}`
+            }]
+          };
+        }
+
+        await recordExecution({ tool: "start-debug-session", command, cwd: workingDir, permission, nodeVersion: runtime?.installation?.version, details: { serverId: targetId, debugSessionId: session.id } });
+
+        // A script started with --inspect-brk pauses on its first statement once let go
+        let output: LogLine[] = [];
+        if (!existing) {
+          output = await waitForPause(session, timeout, () => runIfWaiting(session));
+          if (!stopOnEntry && session.paused?.reason === 'Break on start') {
+            output.push(...await waitForPause(session, timeout, () => session.inspector.send('Debugger.resume')));
+          }
+        }
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${describeSession(session)}${describeOutput(output)}\n${await describeDebugState(session)}\n${runtime ? `${describeNodeRuntime(runtime)}\n` : ''}${describePermission(permission)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error starting debug session: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Tool to add a breakpoint to a debug session
+  server.tool(
+    "set-breakpoint",
+    "Set a breakpoint at a file and line in a debug session, optionally with a condition",
+    {
+      sessionId: z.string().describe("ID of the debug session"),
+      ...breakpointSchema.shape
+    },
+    async ({ sessionId, file, line, condition }) => {
+      try {
+        const session = debugSessions.get(sessionId);
+        if (!session) {
+          return sessionNotFound(sessionId);
+        }
+        const breakpoint = await setBreakpoint(session, file, line, condition);
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Breakpoint set: ${describeBreakpoint(breakpoint, session.serverInfo.cwd)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error setting breakpoint: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Tool to remove a breakpoint from a debug session
+  server.tool(
+    "remove-breakpoint",
+    "Remove a breakpoint from a debug session",
+    {
+      sessionId: z.string().describe("ID of the debug session"),
+      breakpointId: z.string().describe("ID of the breakpoint, like bp-1, as returned by set-breakpoint")
+    },
+    async ({ sessionId, breakpointId }) => {
+      try {
+        const session = debugSessions.get(sessionId);
+        if (!session) {
+          return sessionNotFound(sessionId);
+        }
+        if (!await removeBreakpoint(session, breakpointId)) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `Breakpoint ${breakpointId} not found in debug session ${sessionId}.`
+            }]
+          };
+        }
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Breakpoint ${breakpointId} removed.`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error removing breakpoint: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Tool to resume, step or pause a debugged program
+  server.tool(
+    "debug-step",
+    "Continue, step over, step into or step out of the current line, or pause a debugged program, and return where it paused with the call stack and scope variables. Continuing a running program waits for its next pause, e.g. a breakpoint hit by a request",
+    {
+      sessionId: z.string().describe("ID of the debug session"),
+      action: z.enum(['continue', 'step-over', 'step-into', 'step-out', 'pause']).describe("What to do"),
+      timeout: z.number().optional().describe("Time in milliseconds to wait for the program to pause (default: 10000)")
+    },
+    async ({ sessionId, action, timeout = 10000 }) => {
+      try {
+        const session = debugSessions.get(sessionId);
+        if (!session) {
+          return sessionNotFound(sessionId);
+        }
+        if (session.ended) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: await describeDebugState(session)
+            }]
+          };
+        }
+        const stepping = action.startsWith('step-');
+        if ((action === 'pause' && session.paused) || (stepping && !session.paused)) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: action === 'pause' ? `The program is already paused.` : `The program is running; pause it or wait for a breakpoint with continue first.`
+            }]
+          };
+        }
+
+        const methods = {
+          'continue': 'Debugger.resume',
+          'step-over': 'Debugger.stepOver',
+          'step-into': 'Debugger.stepInto',
+          'step-out': 'Debugger.stepOut',
+          'pause': 'Debugger.pause'
+        };
+        // Continuing a running program only waits for it to pause
+        const send = action === 'continue' && !session.paused ? undefined : () => session.inspector.send(methods[action]);
+        if (action === 'pause') session.pausePending = true;
+        const output = await waitForPause(session, timeout, send);
+
+        let state: string;
+        if (session.paused || session.ended) {
+          state = await describeDebugState(session);
+        } else if (session.pausePending) {
+          state = `Pause requested: the program is idle and pauses as soon as it runs JavaScript again, e.g. when a request arrives.\n`;
+        } else {
+          state = `Running: the program did not pause within ${timeout}ms.\n`;
+        }
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${describeOutput(output)}${output.length > 0 ? '\n' : ''}${state}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error controlling debug session: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Tool to evaluate an expression in the paused frame
+  server.tool(
+    "debug-evaluate",
+    "Evaluate a JavaScript expression in a frame of a paused program, with access to its local variables, or globally while it runs",
+    {
+      sessionId: z.string().describe("ID of the debug session"),
+      expression: z.string().describe("Expression to evaluate"),
+      frameIndex: z.number().optional().describe("Index of the call stack frame to evaluate in (default: 0, the innermost)")
+    },
+    async ({ sessionId, expression, frameIndex = 0 }) => {
+      try {
+        const session = debugSessions.get(sessionId);
+        if (!session) {
+          return sessionNotFound(sessionId);
+        }
+        if (session.ended) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: await describeDebugState(session)
+            }]
+          };
+        }
+        // The evaluation itself would run into the pending pause and never finish
+        if (!session.paused && session.pausePending) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `A pause is pending; wait until the program pauses (debug-step with continue) before evaluating.`
+            }]
+          };
+        }
+
+        // Evaluating runs arbitrary code in the debugged process
+        const permission = await checkPermission({
+          tool: "debug-evaluate",
+          message: `Evaluate in ${session.serverInfo.name} (${session.id}): ${expression}`,
+          command: expression,
+          cwd: session.serverInfo.cwd
+        });
+
+        if (!permission.allowed) {
+          await recordExecution({ tool: "debug-evaluate", command: expression, cwd: session.serverInfo.cwd, permission, details: { debugSessionId: sessionId } });
+          return permissionDeniedResponse(permission);
+        }
+
+        const result = await evaluateInSession(session, expression, frameIndex);
+        await recordExecution({
+          tool: "debug-evaluate",
+          command: expression,
+          cwd: session.serverInfo.cwd,
+          permission,
+          outcome: result.error ? 'failure' : 'success',
+          error: result.error ? result.value : undefined,
+          details: { debugSessionId: sessionId }
+        });
+
+        const scope = session.paused ? `in frame #${frameIndex}` : `globally (the program is running)`;
+        return {
+          ...(result.error ? { isError: true } : {}),
+          content: [{
+            type: "text" as const,
+            text: `${result.error ? 'Threw' : 'Result'} ${scope}: ${result.value}\n\n${describePermission(permission)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error evaluating expression: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Tool to show where a debug session is paused, or list the sessions
+  server.tool(
+    "get-debug-state",
+    "Show the state of a debug session (paused location, call stack, scope variables, breakpoints) or list all debug sessions",
+    {
+      sessionId: z.string().optional().describe("ID of the debug session (default: list all sessions)"),
+      frameIndex: z.number().optional().describe("Call stack frame to show the source and variables of (default: 0)")
+    },
+    async ({ sessionId, frameIndex = 0 }) => {
+      try {
+        if (sessionId) {
+          const session = debugSessions.get(sessionId);
+          if (!session) {
+            return sessionNotFound(sessionId);
+          }
+          return {
+            content: [{
+              type: "text" as const,
+              text: `${describeSession(session)}\n${await describeDebugState(session, frameIndex)}`
+            }]
+          };
+        }
+
+        if (debugSessions.size === 0) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: "No debug sessions. Start one with start-debug-session."
+            }]
+          };
+        }
+
+        let text = `Found ${debugSessions.size} debug session(s):\n`;
+        for (const session of debugSessions.values()) {
+          const state = session.ended ? `ended (${session.ended})` : session.paused ? 'paused' : 'running';
+          text += `\n${describeSession(session)}State: ${state}\n`;
+        }
+        return {
+          content: [{
+            type: "text" as const,
+            text
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error getting debug state: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Tool to detach the debugger
+  server.tool(
+    "stop-debug-session",
+    "Detach the debugger from a program; scripts started by start-debug-session are stopped, attached servers keep running",
+    {
+      sessionId: z.string().describe("ID of the debug session"),
+      stopServer: z.boolean().optional().describe("Whether to stop the debugged process (default: only if start-debug-session started it)")
+    },
+    async ({ sessionId, stopServer }) => {
+      try {
+        const session = debugSessions.get(sessionId);
+        if (!session) {
+          return sessionNotFound(sessionId);
+        }
+        closeDebugSession(session);
+
+        let text = `Debug session ${sessionId} stopped.`;
+        if ((stopServer ?? session.launched) && runningServers.has(session.serverId)) {
+          const result = await stopManagedServer(session.serverId);
+          text += result.exited
+            ? ` Server ${session.serverId} stopped.`
+            : ` Server ${session.serverId} did not exit; stop it with stop-server and force.`;
+        } else {
+          text += ` Server ${session.serverId} keeps running.`;
+        }
+        return {
+          content: [{
+            type: "text" as const,
+            text
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error stopping debug session: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+}
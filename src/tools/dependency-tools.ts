@@ -0,0 +1,448 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as path from "path";
+import * as fs from "fs/promises";
+import { DependencyField, DependencyGraph, LockedDependency, LockedPackage, PackageManifest, readDependencyGraph, readManifest } from "../utils/lockfiles.js";
+import { satisfiesRange } from "../utils/version-managers.js";
+
+// Longest tree printed, and most paths shown per package by why-package
+const MAX_TREE_LINES = 2000;
+const MAX_WHY_PATHS = 20;
+
+// Most partial paths explored per package, which bounds the search in large graphs
+const MAX_WHY_STEPS = 100000;
+
+// Most problems listed per section by check-lockfile
+const MAX_PROBLEMS = 100;
+
+function describePackage(pkg: LockedPackage): string {
+  return pkg.version ? `${pkg.name}@${pkg.version}` : pkg.name;
+}
+
+// The lockfile or directory the answer comes from
+function describeSource(graph: DependencyGraph): string {
+  const count = Array.from(graph.packages.values()).filter(pkg => !pkg.importer).length;
+  return graph.format === 'node_modules'
+    ? `Installed packages in ${graph.source} (no lockfile found, ${count} packages)`
+    : `Lockfile: ${graph.source} (${count} packages)`;
+}
+
+/**
+ * Whether a locked version satisfies a declared range, or null when the range
+ * is not a version range, like git URLs, tags or file: and workspace:* specs.
+ */
+function checkRange(version: string, range: string): boolean | null {
+  let normalized = range.trim();
+  const alias = /^npm:(?:@?[^@]+@)?(.*)$/.exec(normalized);
+  if (alias) normalized = alias[1];
+  if (normalized.startsWith('workspace:')) {
+    normalized = normalized.slice('workspace:'.length);
+    if (['*', '^', '~'].includes(normalized)) return null;
+  }
+  if (!version || normalized === '') return null;
+  // Prereleases are compared by their release version
+  return satisfiesRange(version.replace(/[-+].*$/, ''), normalized);
+}
+
+// The root package or workspace package of a directory
+function findImporter(graph: DependencyGraph, absPath: string): LockedPackage {
+  const dir = path.relative(graph.root, absPath).split(path.sep).join('/');
+  const importer = graph.importers.get(dir);
+  if (!importer) {
+    throw new Error(`${absPath} is neither the root package nor a workspace package of ${graph.source}`);
+  }
+  return importer;
+}
+
+// Dependencies shown in trees: missing peer and optional dependencies are normal, so they are left out
+function shownDependencies(pkg: LockedPackage, includeDev: boolean): LockedDependency[] {
+  return pkg.dependencies.filter(dependency =>
+    (includeDev || dependency.type !== 'dev') &&
+    (dependency.id !== null || (dependency.type !== 'peer' && dependency.type !== 'optional'))
+  );
+}
+
+/**
+ * Render the dependencies of a package as a tree like `npm ls` does: each
+ * package's dependencies are shown once, later occurrences are marked as
+ * deduped. `depth` 0 shows only direct dependencies.
+ */
+function renderTree(graph: DependencyGraph, importer: LockedPackage, depth: number, includeDev: boolean): string {
+  const lines = [`${describePackage(importer)}${importer.location ? ` (${importer.location})` : ''}`];
+  const expanded = new Set<string>([importer.id]);
+  let truncated = false;
+
+  const walk = (pkg: LockedPackage, prefix: string, level: number) => {
+    const dependencies = shownDependencies(pkg, includeDev);
+    dependencies.forEach((dependency, i) => {
+      if (lines.length >= MAX_TREE_LINES) {
+        truncated = true;
+        return;
+      }
+      const last = i === dependencies.length - 1;
+      const target = dependency.id !== null ? graph.packages.get(dependency.id) : undefined;
+      const notes: string[] = dependency.type !== 'prod' ? [dependency.type] : [];
+      if (!target) {
+        notes.push('missing');
+      } else {
+        if (target.importer) notes.push('workspace');
+        if (expanded.has(target.id) && target.dependencies.length > 0) notes.push('deduped');
+        if (dependency.range !== null && checkRange(target.version, dependency.range) === false) {
+          notes.push(`invalid: requires ${dependency.range}`);
+        }
+      }
+      const label = target ? describePackage(target) : `${dependency.name}@${dependency.range ?? '?'}`;
+      lines.push(`${prefix}${last ? '└── ' : '├── '}${label}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`);
+      if (target && !expanded.has(target.id) && level < depth) {
+        expanded.add(target.id);
+        walk(target, prefix + (last ? '    ' : '│   '), level + 1);
+      }
+    });
+  };
+
+  walk(importer, '', 0);
+  if (truncated) {
+    lines.push(`... output truncated after ${MAX_TREE_LINES} lines; use depth to limit the tree`);
+  }
+  return lines.join('\n');
+}
+
+// Packages depending on each package, with the dependency that points at it
+function findDependents(graph: DependencyGraph): Map<string, Array<{ from: LockedPackage, dependency: LockedDependency }>> {
+  const dependents = new Map<string, Array<{ from: LockedPackage, dependency: LockedDependency }>>();
+  for (const pkg of graph.packages.values()) {
+    for (const dependency of pkg.dependencies) {
+      if (dependency.id === null) continue;
+      if (!dependents.has(dependency.id)) dependents.set(dependency.id, []);
+      dependents.get(dependency.id)!.push({ from: pkg, dependency });
+    }
+  }
+  return dependents;
+}
+
+/**
+ * Shortest paths from the root or a workspace package to a package, found by
+ * walking the dependency edges backwards. Returns at most `limit` paths, and
+ * whether more exist.
+ */
+function findPaths(
+  dependents: Map<string, Array<{ from: LockedPackage, dependency: LockedDependency }>>,
+  target: LockedPackage,
+  limit: number
+): { paths: string[], more: boolean } {
+  const paths: string[] = [];
+  // Chains of steps from the target back towards an importer, with the type of the dependency on each step
+  const queue: Array<Array<{ pkg: LockedPackage, type: LockedDependency['type'] | null }>> = [[{ pkg: target, type: null }]];
+  let steps = 0;
+
+  while (queue.length > 0) {
+    if (++steps > MAX_WHY_STEPS) return { paths, more: true };
+    const chain = queue.shift()!;
+    const head = chain[chain.length - 1].pkg;
+    if (head.importer && chain.length > 1) {
+      if (paths.length === limit) return { paths, more: true };
+      paths.push(chain.slice().reverse().map(step => `${describePackage(step.pkg)}${step.type && step.type !== 'prod' ? ` (${step.type})` : ''}`).join(' > '));
+      continue;
+    }
+    for (const { from, dependency } of dependents.get(head.id) ?? []) {
+      if (chain.some(step => step.pkg.id === from.id)) continue;
+      queue.push([...chain.slice(0, -1), { pkg: head, type: dependency.type }, { pkg: from, type: null }]);
+    }
+  }
+  return { paths, more: false };
+}
+
+function describeWhy(graph: DependencyGraph, packageName: string, version?: string): string {
+  const targets = Array.from(graph.packages.values())
+    .filter(pkg => pkg.name === packageName)
+    .filter(pkg => version === undefined || pkg.version === version || checkRange(pkg.version, version) === true);
+  if (targets.length === 0) {
+    return `${packageName}${version ? `@${version}` : ''} is not installed.`;
+  }
+
+  const dependents = findDependents(graph);
+  return targets.map(target => {
+    const { paths, more } = findPaths(dependents, target, MAX_WHY_PATHS);
+    let text = `${describePackage(target)}${target.location ? ` (${target.location})` : ''}:\n`;
+    text += paths.length > 0 ? paths.map(line => `  ${line}`).join('\n') : '  not required by any package (extraneous)';
+    if (more) text += `\n  ... and more paths`;
+    return text;
+  }).join('\n\n');
+}
+
+function describeDuplicates(graph: DependencyGraph): string {
+  const dependents = findDependents(graph);
+  const byName = new Map<string, LockedPackage[]>();
+  for (const pkg of graph.packages.values()) {
+    if (!pkg.importer) byName.set(pkg.name, [...(byName.get(pkg.name) ?? []), pkg]);
+  }
+
+  const duplicates = Array.from(byName.entries())
+    .map(([name, copies]) => ({ name, copies, versions: Array.from(new Set(copies.map(pkg => pkg.version))) }))
+    .filter(({ versions }) => versions.length > 1)
+    .sort((a, b) => b.versions.length - a.versions.length || a.name.localeCompare(b.name));
+  if (duplicates.length === 0) {
+    return 'No package is installed in more than one version.';
+  }
+
+  const sections = duplicates.map(({ name, copies, versions }) => {
+    let text = `${name}: ${versions.length} versions, ${copies.length} copies\n`;
+    const ranges: string[] = [];
+    for (const version of versions) {
+      const required = copies
+        .filter(pkg => pkg.version === version)
+        .flatMap(pkg => dependents.get(pkg.id) ?? [])
+        .map(({ from, dependency }) => {
+          if (dependency.range !== null) ranges.push(dependency.range);
+          return `${describePackage(from)}${dependency.range !== null ? ` (${dependency.range})` : ''}`;
+        });
+      const count = copies.filter(pkg => pkg.version === version).length;
+      text += `  ${version}${count > 1 ? ` (${count} copies)` : ''}: required by ${required.length > 0 ? Array.from(new Set(required)).join(', ') : 'nothing'}\n`;
+    }
+    // A version every known range accepts would do for all dependents
+    const unknown = copies.some(pkg => (dependents.get(pkg.id) ?? []).some(({ dependency }) => dependency.range === null));
+    const candidate = unknown ? undefined : versions.find(version => ranges.every(range => checkRange(version, range) === true));
+    if (candidate) {
+      text += `  ${candidate} satisfies every range, so the other versions could be deduplicated\n`;
+    }
+    return text;
+  });
+  return `${duplicates.length} package(s) installed in more than one version:\n\n${sections.join('\n')}`;
+}
+
+// Version of a package installed in node_modules, looking up from a directory to the project root
+async function findInstalledVersion(root: string, dir: string, name: string): Promise<string | null> {
+  let current = dir;
+  while (true) {
+    try {
+      const manifest = await readManifest(path.join(current, 'node_modules', name, 'package.json'));
+      return manifest.version ?? '';
+    } catch (error) {
+      // Not installed here
+    }
+    if (current === root || path.dirname(current) === current) return null;
+    current = path.dirname(current);
+  }
+}
+
+// Problems of one section of check-lockfile, capped at MAX_PROBLEMS
+function describeProblems(title: string, problems: string[]): string {
+  if (problems.length === 0) return `${title}: no problems`;
+  const shown = problems.slice(0, MAX_PROBLEMS).map(problem => `  - ${problem}`).join('\n');
+  const more = problems.length > MAX_PROBLEMS ? `\n  ... and ${problems.length - MAX_PROBLEMS} more` : '';
+  return `${title}: ${problems.length} problem(s)\n${shown}${more}`;
+}
+
+async function checkLockfile(graph: DependencyGraph, importers: LockedPackage[]): Promise<{ text: string, problems: number }> {
+  const declaredProblems: string[] = [];
+  const installedProblems: string[] = [];
+  const fromLockfile = graph.format !== 'node_modules';
+  const state = fromLockfile ? 'locked' : 'installed';
+  let installedChecked = false;
+
+  for (const importer of importers) {
+    const dir = path.join(graph.root, importer.location ?? '');
+    const label = importer.location ? `${importer.name} (${importer.location})` : importer.name;
+    let manifest: PackageManifest;
+    try {
+      manifest = await readManifest(path.join(dir, 'package.json'));
+    } catch (error) {
+      declaredProblems.push(`${label}: package.json not found or invalid`);
+      continue;
+    }
+
+    const declared = new Map<string, string>();
+    const fields: DependencyField[] = ['dependencies', 'devDependencies', 'optionalDependencies'];
+    for (const field of fields) {
+      for (const [name, range] of Object.entries(manifest[field] ?? {})) {
+        declared.set(name, String(range));
+      }
+    }
+    for (const [name, range] of declared) {
+      const dependency = importer.dependencies.find(candidate => candidate.name === name);
+      const target = dependency?.id ? graph.packages.get(dependency.id) : undefined;
+      const locked = dependency?.range?.replace(/^npm:(?=[^@]*$)/, '') ?? null;
+      if (!dependency) {
+        declaredProblems.push(`${label}: ${name}@${range} is in package.json but not in the ${fromLockfile ? 'lockfile' : 'installed packages'}`);
+      } else if (fromLockfile && locked !== null && locked !== range) {
+        declaredProblems.push(`${label}: package.json requires ${name}@${range}, the lockfile was generated for ${name}@${locked}`);
+      } else if (!target) {
+        if (dependency.type !== 'optional') declaredProblems.push(`${label}: ${name}@${range} is missing`);
+      } else if (!target.importer && checkRange(target.version, range) === false) {
+        declaredProblems.push(`${label}: ${name} is ${state} at ${target.version}, which does not satisfy ${range}`);
+      }
+    }
+    for (const dependency of importer.dependencies) {
+      if (dependency.type !== 'peer' && !declared.has(dependency.name)) {
+        declaredProblems.push(`${label}: ${dependency.name} is in the lockfile but no longer in package.json`);
+      }
+    }
+
+    // What node_modules actually contains, for the direct dependencies
+    if (fromLockfile && (await fs.access(path.join(dir, 'node_modules')).then(() => true, () => false) ||
+        await fs.access(path.join(graph.root, 'node_modules')).then(() => true, () => false))) {
+      installedChecked = true;
+      for (const dependency of importer.dependencies) {
+        const target = dependency.id ? graph.packages.get(dependency.id) : undefined;
+        if (!target || target.importer || dependency.type === 'peer') continue;
+        const installed = await findInstalledVersion(graph.root, dir, dependency.name);
+        if (installed === null) {
+          if (dependency.type !== 'optional') installedProblems.push(`${label}: ${dependency.name} is not installed (lockfile: ${target.version})`);
+        } else if (installed !== target.version) {
+          installedProblems.push(`${label}: ${dependency.name} ${installed} is installed, the lockfile has ${target.version}`);
+        }
+      }
+    }
+  }
+
+  // Dependencies of installed packages that the locked versions do not satisfy
+  const nestedProblems: string[] = [];
+  for (const pkg of graph.packages.values()) {
+    if (pkg.importer) continue;
+    for (const dependency of pkg.dependencies) {
+      const target = dependency.id ? graph.packages.get(dependency.id) : undefined;
+      if (!target) {
+        if (dependency.type === 'prod') nestedProblems.push(`${describePackage(pkg)} requires ${dependency.name}@${dependency.range ?? '?'}, which is missing`);
+      } else if (dependency.range !== null && checkRange(target.version, dependency.range) === false) {
+        nestedProblems.push(`${describePackage(pkg)} requires ${dependency.name}@${dependency.range}, but ${target.version} is ${state}`);
+      }
+    }
+  }
+
+  const sections = [
+    describeProblems(fromLockfile ? 'package.json and lockfile' : 'package.json and installed packages', declaredProblems),
+    describeProblems('Dependencies of dependencies', nestedProblems)
+  ];
+  if (installedChecked) {
+    sections.push(describeProblems('node_modules and lockfile', installedProblems));
+  }
+  return { text: sections.join('\n\n'), problems: declaredProblems.length + nestedProblems.length + installedProblems.length };
+}
+
+export function registerDependencyTools(server: McpServer): void {
+  // Tool to show the installed dependency tree
+  server.tool(
+    "dependency-tree",
+    "Show the dependency tree of a package from its lockfile (package-lock.json, pnpm-lock.yaml or yarn.lock) or node_modules, without network access",
+    {
+      packageDir: z.string().describe("Directory containing package.json; packages of a workspace use the lockfile of the workspace root"),
+      depth: z.number().int().min(0).optional().describe("Levels of dependencies to show below the direct dependencies, 0 for direct dependencies only (default: unlimited)"),
+      includeDev: z.boolean().optional().describe("Whether to include devDependencies (default: true)")
+    },
+    async ({ packageDir, depth = Infinity, includeDev = true }) => {
+      try {
+        const absPath = path.resolve(packageDir);
+        const graph = await readDependencyGraph(absPath);
+        const importer = findImporter(graph, absPath);
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${describeSource(graph)}\n\n${renderTree(graph, importer, depth, includeDev)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error reading the dependency tree: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Tool to explain why a package is installed
+  server.tool(
+    "why-package",
+    "Explain why a package is installed: every path of dependencies from the project or its workspace packages to each installed version of the package, read offline from the lockfile or node_modules",
+    {
+      packageDir: z.string().describe("Directory containing package.json"),
+      packageName: z.string().describe("Name of the package, like 'ms' or '@types/node'"),
+      version: z.string().optional().describe("Only explain versions matching this version or range")
+    },
+    async ({ packageDir, packageName, version }) => {
+      try {
+        const graph = await readDependencyGraph(path.resolve(packageDir));
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${describeSource(graph)}\n\n${describeWhy(graph, packageName, version)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error explaining why ${packageName} is installed: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Tool to find packages installed in several versions
+  server.tool(
+    "find-duplicate-packages",
+    "Find packages installed in more than one version, with the packages requiring each version and whether one version would satisfy them all, read offline from the lockfile or node_modules",
+    {
+      packageDir: z.string().describe("Directory containing package.json")
+    },
+    async ({ packageDir }) => {
+      try {
+        const graph = await readDependencyGraph(path.resolve(packageDir));
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${describeSource(graph)}\n\n${describeDuplicates(graph)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error finding duplicate packages: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Tool to compare package.json, the lockfile and node_modules
+  server.tool(
+    "check-lockfile",
+    "Find mismatches between package.json ranges and the lockfile, dependencies the locked versions do not satisfy, and installed packages that differ from the lockfile, without network access",
+    {
+      packageDir: z.string().describe("Directory containing package.json; for a workspace root every workspace package is checked")
+    },
+    async ({ packageDir }) => {
+      try {
+        const absPath = path.resolve(packageDir);
+        const graph = await readDependencyGraph(absPath);
+        const importer = findImporter(graph, absPath);
+        const importers = importer.location === '' ? Array.from(graph.importers.values()) : [importer];
+        const { text, problems } = await checkLockfile(graph, importers);
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${describeSource(graph)}\n\n${text}\n\n${problems === 0 ? 'No mismatches found.' : `${problems} problem(s) found.`}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error checking the lockfile: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+}
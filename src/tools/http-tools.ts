@@ -0,0 +1,302 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { runningServers } from "../utils/helpers.js";
+import { checkPermission, describePermission, permissionDeniedResponse } from "../utils/permissions.js";
+import { recordExecution } from "../utils/audit.js";
+import { connectHost, getListeningPorts, isInspectorPort, ListeningPort } from "../utils/ports.js";
+import { formatLogLine } from "../utils/logs.js";
+import { serverEvents } from "../utils/servers.js";
+import { LogLine, ServerInfo } from "../types/index.js";
+
+// How long to keep collecting server logs after the response, for output written while finishing the request
+const LOG_SETTLE_TIME = 100;
+
+// Content types whose bodies are shown as text
+const TEXT_CONTENT_TYPE = /^text\/|json|xml|javascript|x-www-form-urlencoded/i;
+
+// Hosts that refer to this machine, for matching URLs against managed servers
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '::1', '[::1]', '0.0.0.0', '::', '[::]']);
+
+// Pick the port to send requests to: the server's own sockets first, then the lowest port
+function choosePort(ports: ListeningPort[], serverPid: number): ListeningPort {
+  const own = ports.filter(port => port.pid === serverPid);
+  return (own.length > 0 ? own : ports)[0];
+}
+
+// Find the running managed server listening on the port of a local URL
+async function findServerForUrl(url: URL): Promise<[string, ServerInfo] | null> {
+  if (!LOCAL_HOSTS.has(url.hostname)) return null;
+  const port = Number(url.port || (url.protocol === 'https:' ? 443 : 80));
+
+  for (const [serverId, serverInfo] of runningServers) {
+    if (serverInfo.exitCode !== null) continue;
+    const ports = await getListeningPorts(serverInfo.pid);
+    if (ports.some(listening => listening.protocol === 'tcp' && listening.port === port)) {
+      return [serverId, serverInfo];
+    }
+  }
+  return null;
+}
+
+// Render a response body: pretty-printed JSON, text, or a note for binary content
+function formatBody(body: Buffer, contentType: string, maxLength: number): string {
+  if (body.length === 0) {
+    return '(empty body)';
+  }
+  if (contentType && !TEXT_CONTENT_TYPE.test(contentType)) {
+    return `(binary body of type ${contentType} not shown)`;
+  }
+
+  let text = body.toString('utf-8');
+  if (/json/i.test(contentType)) {
+    try {
+      text = JSON.stringify(JSON.parse(text), null, 2);
+    } catch (error) {
+      // Invalid JSON is shown as is
+    }
+  }
+
+  if (text.length > maxLength) {
+    text = `${text.slice(0, maxLength)}\n… [${text.length - maxLength} more characters truncated]`;
+  }
+  return text;
+}
+
+export function registerHttpTools(server: McpServer): void {
+  // Tool to send an HTTP request to a managed server or any URL
+  server.tool(
+    "http-request",
+    "Send an HTTP request to a managed server (by server ID) or to a URL, returning the response and the server logs written meanwhile",
+    {
+      serverId: z.string().optional().describe("ID of a managed server to send the request to; its host and port are detected automatically"),
+      url: z.string().optional().describe("Absolute URL to request (when serverId is not given)"),
+      path: z.string().optional().describe("Path and query string to request on the managed server (default: /)"),
+      port: z.number().optional().describe("Port of the managed server to use when it listens on several"),
+      method: z.string().optional().describe("HTTP method (default: GET)"),
+      headers: z.record(z.string()).optional().describe("Request headers"),
+      body: z.string().optional().describe("Request body; sent as application/json if it is valid JSON and no content-type header is given"),
+      timeout: z.number().optional().describe("Timeout in milliseconds (default: 10000)"),
+      maxBodyLength: z.number().optional().describe("Maximum number of characters of the response body to return (default: 10000)")
+    },
+    async ({ serverId, url, path: requestPath = '/', port, method = 'GET', headers = {}, body, timeout = 10000, maxBodyLength = 10000 }) => {
+      try {
+        if (!serverId && !url) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: "Error: Either serverId or url is required."
+            }]
+          };
+        }
+
+        // Resolve the target URL and the managed server whose logs to attach
+        let target: URL;
+        let managedServer: [string, ServerInfo] | null = null;
+        let portNote = '';
+
+        if (serverId) {
+          const serverInfo = runningServers.get(serverId);
+          if (!serverInfo) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Server with ID ${serverId} not found.`
+              }]
+            };
+          }
+          if (serverInfo.exitCode !== null) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Server with ID ${serverId} (${serverInfo.name}) is not running.`
+              }]
+            };
+          }
+
+          const ports = (await getListeningPorts(serverInfo.pid)).filter(listening => listening.protocol === 'tcp');
+          if (ports.length === 0) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Server with ID ${serverId} (${serverInfo.name}) is not listening on any TCP port.`
+              }]
+            };
+          }
+
+          // The inspector of a server started with inspectPort only speaks the DevTools protocol
+          const appPorts = ports.filter(listening => !isInspectorPort(listening, serverInfo.inspectPort));
+          if (appPorts.length === 0 && port === undefined) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Server with ID ${serverId} (${serverInfo.name}) is not listening on any TCP port besides its inspector (${serverInfo.inspectPort}).`
+              }]
+            };
+          }
+
+          let chosen = appPorts.length > 0 ? choosePort(appPorts, serverInfo.pid) : ports[0];
+          if (port !== undefined) {
+            const requested = ports.find(listening => listening.port === port);
+            if (!requested) {
+              return {
+                isError: true,
+                content: [{
+                  type: "text" as const,
+                  text: `Server with ID ${serverId} (${serverInfo.name}) is not listening on port ${port}. Listening TCP ports: ${ports.map(listening => listening.port).join(', ')}`
+                }]
+              };
+            }
+            chosen = requested;
+          } else if (new Set(appPorts.map(listening => listening.port)).size > 1) {
+            portNote = `The server listens on several ports (${Array.from(new Set(appPorts.map(listening => listening.port))).join(', ')}); using ${chosen.port}. Pass port to choose another.\n`;
+          }
+
+          target = new URL(requestPath, `http://${connectHost(chosen)}:${chosen.port}`);
+          managedServer = [serverId, serverInfo];
+        } else {
+          try {
+            target = new URL(url!);
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Error: Invalid URL ${url}. Provide an absolute URL such as http://localhost:3000/health.`
+              }]
+            };
+          }
+          managedServer = await findServerForUrl(target);
+        }
+
+        const requestLine = `${method.toUpperCase()} ${target.href}`;
+
+        // Evaluate the permission policy
+        const permission = await checkPermission({
+          tool: "http-request",
+          message: `HTTP request: ${requestLine}`,
+          command: requestLine
+        });
+
+        if (!permission.allowed) {
+          await recordExecution({ tool: "http-request", command: requestLine, permission, details: { serverId: managedServer?.[0] } });
+          return permissionDeniedResponse(permission);
+        }
+
+        // Invalid header names throw here, before the log listener below is registered
+        const requestHeaders = new Headers(headers);
+        if (body !== undefined && !requestHeaders.has('content-type')) {
+          try {
+            JSON.parse(body);
+            requestHeaders.set('content-type', 'application/json');
+          } catch (error) {
+            // Not JSON: fetch sends it as text/plain
+          }
+        }
+
+        // Collect the log entries the server writes while the request is in flight
+        const capturedLogs: string[] = [];
+        const onLog = (serverInfo: ServerInfo, line: LogLine) => {
+          if (managedServer && serverInfo === managedServer[1]) capturedLogs.push(formatLogLine(line));
+        };
+        serverEvents.on('log', onLog);
+
+        const startTime = Date.now();
+        let headersTime = 0;
+        let response: Response;
+        let responseBody: Buffer;
+        try {
+          response = await fetch(target, {
+            method: method.toUpperCase(),
+            headers: requestHeaders,
+            body,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(timeout)
+          });
+          headersTime = Date.now() - startTime;
+          responseBody = Buffer.from(await response.arrayBuffer());
+        } catch (error) {
+          const durationMs = Date.now() - startTime;
+          await new Promise(resolve => setTimeout(resolve, LOG_SETTLE_TIME));
+          serverEvents.removeListener('log', onLog);
+
+          const cause = error instanceof Error && error.cause instanceof Error ? ` (${error.cause.message})` : '';
+          const errorMessage = error instanceof Error && error.name === 'TimeoutError'
+            ? `Request timed out after ${timeout}ms`
+            : `${error instanceof Error ? error.message : String(error)}${cause}`;
+          await recordExecution({
+            tool: "http-request",
+            command: requestLine,
+            permission,
+            outcome: 'failure',
+            durationMs,
+            error: errorMessage,
+            details: { serverId: managedServer?.[0] }
+          });
+
+          let failure = `Request failed: ${requestLine}\nError: ${errorMessage}\nTime: ${durationMs}ms\n`;
+          if (managedServer) {
+            failure += `\nServer logs during the request (${managedServer[0]}):\n${capturedLogs.join('\n') || '(no output)'}\n`;
+          }
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `${failure}\n${describePermission(permission)}`
+            }]
+          };
+        }
+        const durationMs = Date.now() - startTime;
+
+        // Output written while the response was being sent may arrive slightly later
+        await new Promise(resolve => setTimeout(resolve, LOG_SETTLE_TIME));
+        serverEvents.removeListener('log', onLog);
+
+        await recordExecution({
+          tool: "http-request",
+          command: requestLine,
+          permission,
+          outcome: response.status >= 500 ? 'failure' : 'success',
+          durationMs,
+          details: { serverId: managedServer?.[0], status: response.status }
+        });
+
+        const contentType = response.headers.get('content-type') || '';
+        let result = `${portNote}HTTP ${response.status} ${response.statusText}\n`;
+        result += `Request: ${requestLine}\n`;
+        result += `Time: ${durationMs}ms (headers after ${headersTime}ms)\n`;
+        result += `Headers:\n`;
+        response.headers.forEach((value, name) => {
+          result += `  ${name}: ${value}\n`;
+        });
+        result += `\nBody (${responseBody.length} bytes):\n${formatBody(responseBody, contentType, maxBodyLength)}\n`;
+        if (managedServer) {
+          result += `\nServer logs during the request (${managedServer[0]}):\n${capturedLogs.join('\n') || '(no output)'}\n`;
+          if (managedServer[1].adopted) {
+            result += `(The server was adopted from a previous mcp-node session, so its output is not captured.)\n`;
+          }
+        }
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${result}\n${describePermission(permission)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error sending HTTP request: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,230 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as path from "path";
+import * as fs from "fs/promises";
+import * as os from "node:os";
+import { runCommand, shellQuote } from "../utils/helpers.js";
+import { checkPermission, describePermission, permissionDeniedResponse } from "../utils/permissions.js";
+import { recordExecution } from "../utils/audit.js";
+import { NodeInstallation, createNodeRuntime, listNodeInstallations, resolveNodeInstallation } from "../utils/version-managers.js";
+import { CommandResult } from "../types/index.js";
+
+// Output of one version of a matrix run
+interface MatrixRun {
+  installation: NodeInstallation;
+  result: CommandResult;
+}
+
+// Newest installation of every major version, the default matrix
+function newestPerMajor(installations: NodeInstallation[]): NodeInstallation[] {
+  const majors = new Map<string, NodeInstallation>();
+  for (const installation of installations) {
+    const major = installation.version.split('.')[0];
+    if (!majors.has(major)) {
+      majors.set(major, installation);
+    }
+  }
+  return Array.from(majors.values());
+}
+
+// Version and manager, telling apart installations of the same version
+function describeInstallation(installation: NodeInstallation): string {
+  return `${installation.version} (${installation.manager})`;
+}
+
+function describeExit(result: CommandResult): string {
+  if (result.signal) return `signal ${result.signal}`;
+  if (result.exitCode === null) return result.error?.message.includes('timed out') ? 'timeout' : 'error';
+  return String(result.exitCode);
+}
+
+// Combined output compared across versions
+function describeOutput(result: CommandResult): string {
+  let text = result.stdout.trimEnd() || '(no output)';
+  if (result.stderr.trim()) {
+    text += `\nStandard Error:\n${result.stderr.trimEnd()}`;
+  }
+  return text;
+}
+
+/**
+ * Side-by-side comparison of the runs: a table of exit codes, durations and
+ * output variants, then what differs and every distinct output once.
+ */
+function describeMatrix(runs: MatrixRun[]): string {
+  // Label distinct outputs A, B, C, ... in order of first appearance
+  const outputs: Array<{ text: string, versions: string[] }> = [];
+  const labels = runs.map(run => {
+    const text = describeOutput(run.result);
+    let index = outputs.findIndex(output => output.text === text);
+    if (index === -1) {
+      index = outputs.push({ text, versions: [] }) - 1;
+    }
+    outputs[index].versions.push(describeInstallation(run.installation));
+    return String.fromCharCode(65 + index);
+  });
+
+  const versionWidth = Math.max(7, ...runs.map(run => describeInstallation(run.installation).length));
+  let text = `${'Version'.padEnd(versionWidth)}  ${'Exit'.padEnd(8)}  ${'Time'.padStart(8)}  Output\n`;
+  runs.forEach((run, i) => {
+    text += `${describeInstallation(run.installation).padEnd(versionWidth)}  ${describeExit(run.result).padEnd(8)}  ${`${run.result.durationMs}ms`.padStart(8)}  ${labels[i]}\n`;
+  });
+
+  const exits = new Map<string, string[]>();
+  for (const run of runs) {
+    const exit = describeExit(run.result);
+    exits.set(exit, [...(exits.get(exit) ?? []), describeInstallation(run.installation)]);
+  }
+  const differences: string[] = [];
+  if (exits.size > 1) {
+    differences.push(`exit codes differ: ${Array.from(exits, ([exit, versions]) => `${exit} on ${versions.join(', ')}`).join('; ')}`);
+  }
+  if (outputs.length > 1) {
+    differences.push(`${outputs.length} different outputs`);
+  }
+  text += differences.length > 0
+    ? `\nDIFFERENCES: ${differences.join('; ')}\n`
+    : `\nNo differences: all ${runs.length} versions exited with ${describeExit(runs[0].result)} and produced the same output.\n`;
+
+  outputs.forEach((output, i) => {
+    text += `\nOutput ${String.fromCharCode(65 + i)} (${output.versions.join(', ')}):\n${output.text}\n`;
+  });
+  return text;
+}
+
+export function registerMatrixTools(server: McpServer): void {
+  // Tool to run a script or snippet on several Node.js versions and compare the results
+  server.tool(
+    "run-matrix",
+    "Run the same Node.js script or code snippet on several installed Node.js versions in parallel and compare exit codes, outputs and timings side by side, highlighting differences",
+    {
+      scriptPath: z.string().optional().describe("Path to the script to run (either scriptPath or code is required)"),
+      code: z.string().optional().describe("JavaScript code to run instead of a script; it runs in the system temporary directory"),
+      versions: z.array(z.string()).optional().describe("Node.js versions to run on, like ['18', '20', 'lts/*'] (default: the newest installed version of every major version)"),
+      args: z.array(z.string()).optional().describe("Arguments to pass to the script"),
+      nodeArgs: z.array(z.string()).optional().describe("Extra arguments for the Node.js executable"),
+      stdin: z.string().optional().describe("Input to provide to every run's standard input"),
+      cwd: z.string().optional().describe("Working directory for scripts (default: the script's directory)"),
+      timeout: z.number().optional().describe("Timeout in milliseconds after which each run is killed (default: 60000)")
+    },
+    async ({ scriptPath, code, versions, args = [], nodeArgs = [], stdin, cwd, timeout = 60000 }) => {
+      try {
+        if ((scriptPath === undefined) === (code === undefined)) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: "Error: Provide either scriptPath or code."
+            }]
+          };
+        }
+
+        let absPath: string | undefined;
+        let workingDir: string;
+        if (scriptPath !== undefined) {
+          absPath = path.resolve(scriptPath);
+          try {
+            await fs.access(absPath);
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Error: Script not found at ${absPath}`
+              }]
+            };
+          }
+          workingDir = cwd ? path.resolve(cwd) : path.dirname(absPath);
+        } else {
+          workingDir = os.tmpdir();
+        }
+
+        // Resolve the versions, running every installation once
+        let installations: NodeInstallation[];
+        if (versions && versions.length > 0) {
+          installations = [];
+          for (const version of versions) {
+            const installation = await resolveNodeInstallation(version);
+            if (!installations.some(existing => existing.node === installation.node)) {
+              installations.push(installation);
+            }
+          }
+        } else {
+          installations = newestPerMajor(await listNodeInstallations());
+        }
+        if (installations.length === 0) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: "Error: No Node.js installations were found. Use list-node-versions to check the detected version managers."
+            }]
+          };
+        }
+
+        const command = absPath !== undefined
+          ? ['node', ...nodeArgs, absPath, ...args].map(shellQuote).join(' ')
+          : `node ${nodeArgs.map(shellQuote).join(' ')}${nodeArgs.length > 0 ? ' ' : ''}--eval ${JSON.stringify(code)}`;
+        const versionList = installations.map(installation => installation.version).join(', ');
+
+        // Evaluate the permission policy once for the whole matrix
+        const permission = await checkPermission({
+          tool: "run-matrix",
+          message: `Run on Node.js ${versionList}: ${absPath !== undefined ? command : 'JavaScript code'} (in ${workingDir})${stdin !== undefined ? ' with provided standard input' : ''}`,
+          command,
+          scriptPath: absPath,
+          cwd: workingDir
+        });
+
+        if (!permission.allowed) {
+          await recordExecution({ tool: "run-matrix", command, cwd: workingDir, permission, details: { versions: versionList } });
+          return permissionDeniedResponse(permission);
+        }
+
+        // Snippets are written to a file, like run-node-eval does
+        let tempFilePath: string | undefined;
+        if (code !== undefined) {
+          tempFilePath = path.join(os.tmpdir(), `node-matrix-${Date.now()}.js`);
+          await fs.writeFile(tempFilePath, code, 'utf8');
+        }
+
+        let runs: MatrixRun[];
+        try {
+          runs = await Promise.all(installations.map(async installation => {
+            const runtime = createNodeRuntime(installation, 'run-matrix');
+            const execCommand = [runtime.node, ...nodeArgs, ...(tempFilePath !== undefined ? [tempFilePath] : [absPath!, ...args])].map(shellQuote).join(' ');
+            const result = await runCommand(execCommand, {
+              cwd: workingDir,
+              timeout,
+              env: runtime.env,
+              maxBuffer: 10 * 1024 * 1024,
+              input: stdin
+            });
+            await recordExecution({ tool: "run-matrix", command, cwd: workingDir, permission, result, nodeVersion: installation.version });
+            return { installation, result };
+          }));
+        } finally {
+          if (tempFilePath !== undefined) {
+            await fs.unlink(tempFilePath).catch(() => {});
+          }
+        }
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Command: ${command}\nWorking directory: ${workingDir}\n\n${describeMatrix(runs)}\n${describePermission(permission)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error running the matrix: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,142 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { runningServers } from "../utils/helpers.js";
+import { analyzeMemoryTrend, describeSample, formatMegabytes, getMetricsInterval, isMetricsSupported, recordSample } from "../utils/metrics.js";
+import { describeServerStatus } from "../utils/servers.js";
+import { ResourceSample, ServerInfo } from "../types/index.js";
+
+// Render a duration in milliseconds as minutes and seconds
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// Minimum and maximum of a metric over a list of samples
+function range(samples: ResourceSample[], value: (sample: ResourceSample) => number | null): [number, number] | null {
+  const values = samples.map(value).filter((v): v is number => v !== null);
+  return values.length > 0 ? [Math.min(...values), Math.max(...values)] : null;
+}
+
+// Metrics report of one server: current usage, ranges, memory trend and recent samples
+function describeMetrics(serverId: string, serverInfo: ServerInfo, rows: number): string {
+  let text = `=== Metrics for server: ${serverInfo.name} (ID: ${serverId}) ===\n`;
+  text += `Status: ${describeServerStatus(serverInfo)}\n`;
+
+  const samples = serverInfo.metrics;
+  if (samples.length === 0) {
+    return `${text}No samples recorded yet.\n`;
+  }
+
+  const latest = samples[samples.length - 1];
+  text += `Samples: ${samples.length} over ${formatDuration(latest.time.getTime() - samples[0].time.getTime())}\n`;
+  text += `${serverInfo.exitCode === null ? 'Current' : 'Last sample'}: ${describeSample(latest)}\n`;
+
+  const cpu = samples.map(sample => sample.cpuPercent).filter((v): v is number => v !== null);
+  if (cpu.length > 0) {
+    text += `CPU: average ${(cpu.reduce((sum, v) => sum + v, 0) / cpu.length).toFixed(1)}%, peak ${Math.max(...cpu).toFixed(1)}%\n`;
+  }
+  const rss = range(samples, sample => sample.rssBytes)!;
+  text += `RSS: ${formatMegabytes(rss[0])} to ${formatMegabytes(rss[1])}\n`;
+  const anonymous = range(samples, sample => sample.anonymousBytes);
+  if (anonymous) {
+    text += `Anon memory: ${formatMegabytes(anonymous[0])} to ${formatMegabytes(anonymous[1])}\n`;
+  }
+  const fds = range(samples, sample => sample.openFds)!;
+  text += `Open fds: ${fds[0]} to ${fds[1]}\n`;
+
+  const trend = analyzeMemoryTrend(samples);
+  if (trend) {
+    const change = trend.endRss - trend.startRss;
+    text += `\nMemory trend of PID ${latest.pid} (${trend.samples} samples over ${formatDuration(trend.durationMs)}): `;
+    text += `RSS ${formatMegabytes(trend.startRss)} -> ${formatMegabytes(trend.endRss)} (${change >= 0 ? '+' : ''}${formatMegabytes(change)}), `;
+    text += `${trend.rssPerMinute >= 0 ? '+' : ''}${formatMegabytes(trend.rssPerMinute)}/min`;
+    if (trend.startAnonymous !== null && trend.endAnonymous !== null) {
+      text += `; anon memory ${formatMegabytes(trend.startAnonymous)} -> ${formatMegabytes(trend.endAnonymous)}`;
+    }
+    text += '\n';
+    if (trend.growing) {
+      text += `WARNING: Memory is growing steadily, which may indicate a leak. Take heap snapshots to find what is retained.\n`;
+    }
+  }
+
+  text += `\nRecent samples:\n`;
+  for (const sample of samples.slice(-rows)) {
+    text += `  ${sample.time.toISOString()} PID ${sample.pid}: ${describeSample(sample)}\n`;
+  }
+  return text;
+}
+
+export function registerMetricsTools(server: McpServer): void {
+  // Tool to show resource usage of managed servers over time
+  server.tool(
+    "get-server-metrics",
+    "Get CPU, memory, file descriptor and child process metrics of managed servers over time, flagging steady memory growth",
+    {
+      serverId: z.string().optional().describe("ID of the server to get metrics for (default: all servers)"),
+      samples: z.number().int().min(1).optional().describe("Number of recent samples to list (default: 10)")
+    },
+    async ({ serverId, samples = 10 }) => {
+      try {
+        if (!isMetricsSupported()) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: "Resource metrics are sampled from /proc and are only available on Linux."
+            }]
+          };
+        }
+
+        let servers = Array.from(runningServers.entries());
+        if (serverId) {
+          servers = servers.filter(([id]) => id === serverId);
+          if (servers.length === 0) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Server with ID ${serverId} not found.`
+              }]
+            };
+          }
+        }
+
+        if (servers.length === 0) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: "No servers are currently running."
+            }]
+          };
+        }
+
+        // Include a fresh sample so the current usage is up to date
+        for (const [, serverInfo] of servers) {
+          await recordSample(serverInfo);
+        }
+
+        const interval = getMetricsInterval();
+        const header = interval > 0
+          ? `Sampling every ${interval}ms.`
+          : `Periodic sampling is disabled; samples are only taken when this tool runs.`;
+        const reports = servers.map(([id, serverInfo]) => describeMetrics(id, serverInfo, samples));
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${header}\n\n${reports.join('\n')}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error getting server metrics: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+}
@@ -1,58 +1,57 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import * as os from "node:os";
-import { execAsync, getSelectedNodeVersion, setSelectedNodeVersion } from "../utils/helpers.js";
+import * as path from "node:path";
+import { execAsync, getSelectedNodeVersion, setSelectedNodeVersion, shellQuote } from "../utils/helpers.js";
+import {
+  NodeInstallation,
+  detectVersionManagers,
+  getNodeRuntime,
+  listNodeInstallations,
+  resolveNodeInstallation
+} from "../utils/version-managers.js";
 
 export function registerNodeVersionTools(server: McpServer): void {
-  // Tool to list available Node.js versions via NVM
+  // Tool to list the Node.js versions installed by the detected version managers
   server.tool(
     "list-node-versions",
-    "Get available Node.js versions installed via NVM",
+    "Get the Node.js versions installed via nvm, fnm, volta, asdf, tarballs under /opt/node or on the PATH, with their binary paths",
     {},
     async () => {
       try {
-        // Execute the command to list Node.js versions through NVM
-        // We need to source the NVM script first as it's not directly available in the environment
-        const { stdout, stderr } = await execAsync('bash -c "source ~/.nvm/nvm.sh && nvm ls"');
-        
-        // Extract and parse version information
-        const versions = stdout.trim().split('\n')
-          .map(line => line.trim())
-          .filter(line => line.startsWith('v') || line.includes('->') || line.includes('*'))
-          .map(line => {
-            // Clean up the line to extract just the version
-            let version = line;
-            // Handle the currently active version which has an arrow
-            const isActive = line.startsWith('->');
-            if (isActive) {
-              version = line.substring(2).trim();
-            }
-            
-            // Extract the actual version number
-            const versionMatch = version.match(/v(\d+\.\d+\.\d+)/);
-            const versionNumber = versionMatch ? versionMatch[0] : version;
-            
-            return {
-              version: versionNumber,
-              isActive,
-              line
-            };
-          });
-        
-        // Find the active version
-        const activeVersion = versions.find(v => v.isActive);
-        const activeVersionText = activeVersion ? `Currently active: ${activeVersion.version}` : 'No active version detected';
-        
+        const managers = await detectVersionManagers();
+        // Rescan, so versions installed since the last scan show up
+        const installations = await listNodeInstallations(true);
+        if (installations.length === 0) {
+          return {
+            isError: true,
+            content: [{ 
+              type: "text" as const, 
+              text: "No Node.js installations were found. Install Node.js with nvm, fnm, volta or asdf, or extract a tarball under /opt/node." 
+            }]
+          };
+        }
+
         // Check if we have a manually selected version
         const selectedVersion = getSelectedNodeVersion();
+        let selected: NodeInstallation | null = null;
+        if (selectedVersion) {
+          selected = await resolveNodeInstallation(selectedVersion).catch(() => null);
+        }
+
+        const managerText = managers.map(manager => `${manager.name} (${manager.root})`).join(', ');
+        const versionLines = installations.map(installation => {
+          const marker = installation === selected ? '-> ' : '   ';
+          return `${marker}${installation.version.padEnd(10)} ${installation.manager.padEnd(8)} ${installation.node}`;
+        });
         const selectedVersionText = selectedVersion ? 
-          `Selected for MCP: ${selectedVersion}` : 
+          `Selected for MCP: ${selectedVersion}${selected ? ` (${selected.version} via ${selected.manager})` : ' (no longer installed)'}` : 
           'No specific version selected for MCP (using system default)';
         
         return {
           content: [{ 
             type: "text" as const, 
-            text: `Available Node.js versions:\n${stdout}\n\n${activeVersionText}\n${selectedVersionText}` 
+            text: `Version managers: ${managerText}\n\nAvailable Node.js versions:\n${versionLines.join('\n')}\n\n${selectedVersionText}` 
           }]
         };
       } catch (error) {
@@ -61,7 +60,7 @@ export function registerNodeVersionTools(server: McpServer): void {
           isError: true,
           content: [{ 
             type: "text" as const, 
-            text: `Error listing Node.js versions: ${errorMessage}\n\nMake sure NVM is installed and properly configured.` 
+            text: `Error listing Node.js versions: ${errorMessage}` 
           }]
         };
       }
@@ -73,19 +72,21 @@ export function registerNodeVersionTools(server: McpServer): void {
     "select-node-version",
     "Select a specific Node.js version to use for subsequent script executions",
     {
-      version: z.string().describe("Node.js version to use (e.g., 'v18.20.5', 'system', 'lts/*', or other NVM aliases)"),
+      version: z.string().describe("Node.js version to use (e.g., 'v18.20.5', '20', 'system', 'lts/*', or other nvm and fnm aliases)"),
     },
     async ({ version }) => {
       try {
-        // Validate the version exists before setting it
-        const { stdout } = await execAsync(`bash -c "source ~/.nvm/nvm.sh && nvm ls ${version}"`);
-        
-        if (!stdout.includes(version) && !stdout.includes('->')) {
+        // Validate the version exists before setting it, against a fresh scan of the installations
+        let installation: NodeInstallation;
+        try {
+          await listNodeInstallations(true);
+          installation = await resolveNodeInstallation(version);
+        } catch (error) {
           return {
             isError: true,
             content: [{ 
               type: "text" as const, 
-              text: `Error: Node.js version '${version}' not found or not installed.\nUse 'list-node-versions' to see available versions.` 
+              text: `Error: ${error instanceof Error ? error.message : String(error)}\nUse 'list-node-versions' to see available versions.` 
             }]
           };
         }
@@ -96,7 +97,7 @@ export function registerNodeVersionTools(server: McpServer): void {
         return {
           content: [{ 
             type: "text" as const, 
-            text: `Successfully selected Node.js version: ${version}\nThis version will be used for all subsequent script executions.` 
+            text: `Successfully selected Node.js version: ${version} (${installation.version} via ${installation.manager})\nNode binary: ${installation.node}\nThis version will be used for all subsequent script executions.` 
           }]
         };
       } catch (error) {
@@ -115,43 +116,35 @@ export function registerNodeVersionTools(server: McpServer): void {
   // Tool to get the Node.js version
   server.tool(
     "get-node-version",
-    "Get the version of Node.js the scripts will be executed with",
-    {},
-    async () => {
+    "Get the version of Node.js the scripts will be executed with, and why it is used",
+    {
+      cwd: z.string().optional().describe("Directory to resolve the version for, using the version its project pins (default: only the selected version is considered)")
+    },
+    async ({ cwd }) => {
       try {
-        // Build the appropriate command based on whether we have a selected Node.js version
-        let versionCommand = 'node --version';
-        let npmVersionCommand = 'npm --version';
-        let nodePathCommand = 'which node';
-        
-        // If we have a selected Node version, use it via nvm
-        const selectedVersion = getSelectedNodeVersion();
-        if (selectedVersion) {
-          versionCommand = `bash -c "source ~/.nvm/nvm.sh && nvm use ${selectedVersion} > /dev/null && node --version"`;
-          npmVersionCommand = `bash -c "source ~/.nvm/nvm.sh && nvm use ${selectedVersion} > /dev/null && npm --version"`;
-          nodePathCommand = `bash -c "source ~/.nvm/nvm.sh && nvm use ${selectedVersion} > /dev/null && which node"`;
-        }
+        // Run the binaries of the version that tools running in cwd would use
+        const runtime = await getNodeRuntime(cwd ? path.resolve(cwd) : undefined);
         
         // Get Node.js version info
-        const { stdout } = await execAsync(versionCommand);
+        const { stdout } = await execAsync(`${shellQuote(runtime.node)} --version`, { env: runtime.env });
         const nodeVersion = stdout.trim();
         
         // Get npm version info
-        const { stdout: npmStdout } = await execAsync(npmVersionCommand);
+        const { stdout: npmStdout } = await execAsync(`${shellQuote(runtime.npm)} --version`, { env: runtime.env });
         const npmVersion = npmStdout.trim();
         
         // Get the path to Node.js executable
-        const { stdout: nodePath } = await execAsync(nodePathCommand);
-        const nodeExecutablePath = nodePath.trim();
+        const nodeExecutablePath = runtime.installation
+          ? runtime.installation.node
+          : (await execAsync('which node')).stdout.trim();
         
         // Get platform and architecture
         const platform = os.platform();
         const arch = os.arch();
         
-        // Add info about whether we're using a selected version
-        const selectionInfo = selectedVersion 
-          ? `\nSelected via MCP: ${selectedVersion}` 
-          : '\nUsing system default Node.js version';
+        // Add info about why this version is used
+        const manager = runtime.installation ? ` (managed by ${runtime.installation.manager})` : '';
+        const selectionInfo = `\nReason: ${runtime.reason}${manager}`;
         
         return {
           content: [{ 
@@ -3,7 +3,10 @@ import { z } from "zod";
 import * as path from "path";
 import * as fs from "fs/promises";
 import * as os from "os";
-import { execAsync, askPermission, getSelectedNodeVersion } from "../utils/helpers.js";
+import { execAsync, runCommand, shellQuote } from "../utils/helpers.js";
+import { checkPermission, describePermission, permissionDeniedResponse } from "../utils/permissions.js";
+import { recordExecution } from "../utils/audit.js";
+import { getNodeRuntime } from "../utils/version-managers.js";
 import { ExecOptionsWithInput } from "../types/index.js";
 
 // Cache structure to avoid re-downloading the same packages
@@ -168,44 +171,38 @@ export function registerNpmDocsTools(server: McpServer): void {
           };
         }
         
-        // Ask for permission to fetch package information
+        // Evaluate the permission policy before fetching package information
         const permissionMessage = `Fetch documentation for npm package: ${packageName}@${version}`;
-        const permitted = await askPermission(permissionMessage);
+        const permission = await checkPermission({
+          tool: "fetch-npm-docs",
+          message: permissionMessage,
+          command: `npm view ${packageName}@${version} --json`,
+          packageName
+        });
         
-        if (!permitted) {
-          return {
-            isError: true,
-            content: [{ 
-              type: "text" as const, 
-              text: "Permission denied by user" 
-            }]
-          };
+        if (!permission.allowed) {
+          await recordExecution({ tool: "fetch-npm-docs", command: `npm view ${packageName}@${version} --json`, permission });
+          return permissionDeniedResponse(permission);
         }
         
         // Create a temporary directory for extraction
         const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'npm-docs-'));
         
         // Execute npm view command to get package metadata with selected Node.js version
-        let viewCommand = `npm view ${packageName}@${version} --json`;
+        const runtime = await getNodeRuntime();
+        const viewCommand = `${shellQuote(runtime.npm)} view ${packageName}@${version} --json`;
         let execOptions: ExecOptionsWithInput = { 
-          timeout: 30000 // 30 second timeout
+          timeout: 30000, // 30 second timeout
+          env: runtime.env
         };
         
-        // Handle NVM usage
-        const selectedVersion = getSelectedNodeVersion();
-        if (selectedVersion) {
-          // Get the path to npm from the selected Node version
-          const { stdout: npmPath } = await execAsync(
-            `bash -c "source ~/.nvm/nvm.sh && nvm use ${selectedVersion} > /dev/null && which npm"`
-          );
-          
-          // Use npm directly with the full path
-          viewCommand = `${npmPath.trim()} view ${packageName}@${version} --json`;
-        }
-        
         // Execute the view command
-        const { stdout: metadataOutput } = await execAsync(viewCommand, execOptions);
-        const metadata = JSON.parse(metadataOutput);
+        const viewResult = await runCommand(viewCommand, execOptions);
+        await recordExecution({ tool: "fetch-npm-docs", command: viewCommand, permission, result: viewResult });
+        if (viewResult.error) {
+          throw viewResult.error;
+        }
+        const metadata = JSON.parse(viewResult.stdout);
         
         // Determine the exact version (in case "latest" was specified)
         const exactVersion = metadata.version || version;
@@ -238,6 +235,10 @@ export function registerNpmDocsTools(server: McpServer): void {
               {
                 type: "text" as const,
                 text: `Package Metadata:\n${JSON.stringify(metadata, null, 2)}`
+              },
+              {
+                type: "text" as const,
+                text: describePermission(permission)
               }
             ]
           };
@@ -261,6 +262,10 @@ export function registerNpmDocsTools(server: McpServer): void {
             {
               type: "text" as const,
               text: `Package Metadata:\n${JSON.stringify(metadata, null, 2)}`
+            },
+            {
+              type: "text" as const,
+              text: describePermission(permission)
             }
           ]
         };
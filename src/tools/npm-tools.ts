@@ -2,21 +2,26 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import * as path from "path";
 import * as fs from "fs/promises";
-import { execAsync, askPermission, getSelectedNodeVersion } from "../utils/helpers.js";
+import { runCommand, shellQuote } from "../utils/helpers.js";
+import { checkPermission, describePermission, packageNameFromSpec, permissionDeniedResponse } from "../utils/permissions.js";
+import { recordExecution } from "../utils/audit.js";
+import { describeNodeRuntime, getNodeRuntime } from "../utils/version-managers.js";
+import { describePackageManager, detectPackageManager, getPackageManagerCommand, installArgs, packageManagerEnv, runScriptArgs } from "../utils/package-managers.js";
 import { ExecOptionsWithInput } from "../types/index.js";
 
 export function registerNpmTools(server: McpServer): void {
   // Tool to run an npm script
   server.tool(
     "run-npm-script",
-    "Execute an npm script from package.json",
+    "Execute a script from package.json with the package manager the project uses (npm, pnpm, yarn or bun, detected from package.json#packageManager or the lockfile)",
     {
       packageDir: z.string().describe("Directory containing package.json"),
       scriptName: z.string().describe("Name of the script to run"),
       args: z.array(z.string()).optional().describe("Optional arguments to pass to the script"),
-      stdin: z.string().optional().describe("Optional input to provide to the script's standard input")
+      stdin: z.string().optional().describe("Optional input to provide to the script's standard input"),
+      nodeVersion: z.string().optional().describe("Node.js version for this call only, like '20' or 'lts/*', overriding the selected version and the version the project pins")
     },
-    async ({ packageDir, scriptName, args = [], stdin }) => {
+    async ({ packageDir, scriptName, args = [], stdin, nodeVersion }) => {
       try {
         // Resolve the absolute path
         const absPath = path.resolve(packageDir);
@@ -49,9 +54,14 @@ export function registerNpmTools(server: McpServer): void {
           };
         }
 
+        // Resolve the Node.js version and the package manager for the package
+        const runtime = await getNodeRuntime(absPath, nodeVersion);
+        const packageManager = await detectPackageManager(absPath);
+        const managerCommand = await getPackageManagerCommand(packageManager, runtime);
+
         // Format command for permission request
-        const argsString = args.length > 0 ? ` -- ${args.join(' ')}` : '';
-        const command = `npm run ${scriptName}${argsString}`;
+        const scriptArgs = runScriptArgs(packageManager, scriptName, args);
+        const command = [packageManager.name, ...scriptArgs].map(shellQuote).join(' ');
         
         // Ask for permission - include stdin info if provided
         let permissionMessage = `${command} (in ${absPath})`;
@@ -59,23 +69,27 @@ export function registerNpmTools(server: McpServer): void {
           permissionMessage += ` with provided standard input`;
         }
         
-        const permitted = await askPermission(permissionMessage);
+        // Evaluate the permission policy
+        const permission = await checkPermission({
+          tool: "run-npm-script",
+          message: permissionMessage,
+          command,
+          cwd: absPath,
+          scriptName
+        });
         
-        if (!permitted) {
-          return {
-            isError: true,
-            content: [{ 
-              type: "text" as const, 
-              text: "Permission denied by user" 
-            }]
-          };
+        if (!permission.allowed) {
+          await recordExecution({ tool: "run-npm-script", command, cwd: absPath, permission });
+          return permissionDeniedResponse(permission);
         }
         
-        // Execute the npm script with the selected Node.js version if one is set
-        let execCommand = command;
+        // Execute the script with the project's package manager; the resolved
+        // Node.js version comes first on the PATH of the script
+        const execCommand = [...managerCommand.argv, ...scriptArgs].map(shellQuote).join(' ');
         let execOptions: ExecOptionsWithInput = { 
           cwd: absPath,
-          timeout: 60000 // 1 minute timeout
+          timeout: 60000, // 1 minute timeout
+          env: packageManagerEnv(runtime)
         };
         
         // If stdin is provided, add it to exec options
@@ -83,28 +97,29 @@ export function registerNpmTools(server: McpServer): void {
           execOptions.input = stdin;
         }
         
-        // Handle NVM usage differently if stdin is provided
-        const selectedVersion = getSelectedNodeVersion();
-        if (selectedVersion) {
-          if (stdin !== undefined) {
-            // For stdin, we need to use a different approach
-            // First get the path to the correct node binary and npm
-            const { stdout: nodePath } = await execAsync(
-              `bash -c "source ~/.nvm/nvm.sh && nvm use ${selectedVersion} > /dev/null && which node"`
-            );
-            const { stdout: npmPath } = await execAsync(
-              `bash -c "source ~/.nvm/nvm.sh && nvm use ${selectedVersion} > /dev/null && which npm"`
-            );
-            
-            // Now use npm directly with the full path
-            execCommand = `${npmPath.trim()} run ${scriptName}${argsString}`;
-          } else {
-            // Without stdin, use the bash -c approach
-            execCommand = `bash -c "source ~/.nvm/nvm.sh && nvm use ${selectedVersion} && ${command}"`;
-          }
+        const result = await runCommand(execCommand, execOptions);
+        const { stdout, stderr } = result;
+        await recordExecution({ tool: "run-npm-script", command, cwd: absPath, permission, result, nodeVersion: runtime.installation?.version });
+
+        if (result.error) {
+          // Return a successful response but include both stdout, stderr and error information
+          return {
+            content: [
+              { 
+                type: "text" as const, 
+                text: stdout || "Script execution returned with error code" 
+              },
+              { 
+                type: "text" as const, 
+                text: `Standard Error: ${stderr}\nError: ${result.error.message}` 
+              },
+              { 
+                type: "text" as const, 
+                text: `${describeNodeRuntime(runtime)}\n${describePackageManager(packageManager, managerCommand)}\n${describePermission(permission)}` 
+              }
+            ]
+          };
         }
-        
-        const { stdout, stderr } = await execAsync(execCommand, execOptions);
 
         return {
           content: [
@@ -115,7 +130,11 @@ export function registerNpmTools(server: McpServer): void {
             ...(stderr ? [{ 
               type: "text" as const, 
               text: `Standard Error: ${stderr}` 
-            }] : [])
+            }] : []),
+            { 
+              type: "text" as const, 
+              text: `${describeNodeRuntime(runtime)}\n${describePackageManager(packageManager, managerCommand)}\n${describePermission(permission)}` 
+            }
           ]
         };
       } catch (error) {
@@ -145,7 +164,7 @@ export function registerNpmTools(server: McpServer): void {
   // Tool to run npm install
   server.tool(
     "run-npm-install",
-    "Execute npm install to install all dependencies or a specific package",
+    "Install all dependencies or add a specific package with the package manager the project uses (npm, pnpm, yarn or bun, detected from package.json#packageManager or the lockfile)",
     {
       packageDir: z.string().describe("Directory containing package.json"),
       dependency: z.string().optional().describe("Optional specific dependency to install (leave empty to install all dependencies from package.json)")
@@ -169,45 +188,62 @@ export function registerNpmTools(server: McpServer): void {
           };
         }
         
+        // Resolve the Node.js version and the package manager for the package
+        const runtime = await getNodeRuntime(absPath);
+        const packageManager = await detectPackageManager(absPath);
+        const managerCommand = await getPackageManagerCommand(packageManager, runtime);
+        
         // Format command for permission request
-        const command = dependency ? `npm install ${dependency}` : `npm install`;
+        const installArguments = installArgs(packageManager, dependency);
+        const command = [packageManager.name, ...installArguments].map(shellQuote).join(' ');
         const permissionMessage = `${command} (in ${absPath})`;
         
-        // Ask for permission
-        const permitted = await askPermission(permissionMessage);
+        // Evaluate the permission policy
+        const permission = await checkPermission({
+          tool: "run-npm-install",
+          message: permissionMessage,
+          command,
+          cwd: absPath,
+          packageName: dependency ? packageNameFromSpec(dependency) : undefined
+        });
         
-        if (!permitted) {
-          return {
-            isError: true,
-            content: [{ 
-              type: "text" as const, 
-              text: "Permission denied by user" 
-            }]
-          };
+        if (!permission.allowed) {
+          await recordExecution({ tool: "run-npm-install", command, cwd: absPath, permission });
+          return permissionDeniedResponse(permission);
         }
         
-        // Execute npm install with the selected Node.js version if one is set
-        let execCommand = command;
+        // Execute the install with the project's package manager, so its lockfile stays intact
+        const execCommand = [...managerCommand.argv, ...installArguments].map(shellQuote).join(' ');
         let execOptions: ExecOptionsWithInput = { 
           cwd: absPath,
-          timeout: 300000 // 5 minute timeout for potentially long installs
+          timeout: 300000, // 5 minute timeout for potentially long installs
+          env: packageManagerEnv(runtime)
         };
         
-        // Handle NVM usage
-        const selectedVersion = getSelectedNodeVersion();
-        if (selectedVersion) {
-          // Get the path to npm from the selected Node version
-          const { stdout: npmPath } = await execAsync(
-            `bash -c "source ~/.nvm/nvm.sh && nvm use ${selectedVersion} > /dev/null && which npm"`
-          );
-          
-          // Use npm directly with the full path
-          execCommand = dependency ? 
-            `${npmPath.trim()} install ${dependency}` : 
-            `${npmPath.trim()} install`;
+        const result = await runCommand(execCommand, execOptions);
+        const { stdout, stderr } = result;
+        await recordExecution({ tool: "run-npm-install", command, cwd: absPath, permission, result, nodeVersion: runtime.installation?.version });
+
+        if (result.error) {
+          // Return a response with both stdout, stderr and error information
+          return {
+            isError: true,
+            content: [
+              { 
+                type: "text" as const, 
+                text: stdout || "npm install execution failed" 
+              },
+              { 
+                type: "text" as const, 
+                text: `Standard Error: ${stderr}\nError: ${result.error.message}` 
+              },
+              { 
+                type: "text" as const, 
+                text: `${describeNodeRuntime(runtime)}\n${describePackageManager(packageManager, managerCommand)}\n${describePermission(permission)}` 
+              }
+            ]
+          };
         }
-        
-        const { stdout, stderr } = await execAsync(execCommand, execOptions);
 
         return {
           content: [
@@ -218,7 +254,11 @@ export function registerNpmTools(server: McpServer): void {
             ...(stderr ? [{ 
               type: "text" as const, 
               text: `Standard Error: ${stderr}` 
-            }] : [])
+            }] : []),
+            { 
+              type: "text" as const, 
+              text: `${describeNodeRuntime(runtime)}\n${describePackageManager(packageManager, managerCommand)}\n${describePermission(permission)}` 
+            }
           ]
         };
       } catch (error) {
@@ -0,0 +1,375 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as path from "path";
+import * as fs from "fs/promises";
+import { runCommand, runningServers, shellQuote } from "../utils/helpers.js";
+import { checkPermission, describePermission, permissionDeniedResponse } from "../utils/permissions.js";
+import { recordExecution } from "../utils/audit.js";
+import { describeNodeRuntime, getNodeRuntime } from "../utils/version-managers.js";
+import { CpuProfile, FunctionTime, ensureDurationPreload, getProfilesDir, summarizeProfile } from "../utils/cpu-profile.js";
+import { HeapSummary, diffHeapSummaries, getHeapSnapshotsDir, readHeapSnapshot, summarizeHeapSnapshot, takeHeapSnapshot } from "../utils/heap-snapshot.js";
+import { formatMegabytes } from "../utils/metrics.js";
+
+// Render a time in milliseconds with its share of the profile
+function formatTime(ms: number, totalMs: number): string {
+  const share = totalMs > 0 ? (ms / totalMs) * 100 : 0;
+  return `${ms.toFixed(1)}ms (${share.toFixed(1)}%)`;
+}
+
+// Table of the functions with the most time of one kind
+function describeTopFunctions(functions: FunctionTime[], key: 'selfMs' | 'totalMs', top: number, totalMs: number): string {
+  // Node.js internals that load and run the script would top the list by total time
+  const sorted = functions.filter(fn => fn[key] > 0 && (key === 'selfMs' || !fn.internal)).sort((a, b) => b[key] - a[key]).slice(0, top);
+  if (sorted.length === 0) {
+    return '  (no samples)\n';
+  }
+  return sorted.map((fn, i) => {
+    const other = key === 'selfMs' ? `total ${formatTime(fn.totalMs, totalMs)}` : `self ${formatTime(fn.selfMs, totalMs)}`;
+    return `  ${i + 1}. ${formatTime(fn[key], totalMs)} ${fn.functionName} at ${fn.location} (${other})\n`;
+  }).join('');
+}
+
+// Render a heap size, in kilobytes when below a megabyte
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : formatMegabytes(bytes);
+}
+
+// Render a change in bytes with its sign
+function formatSizeDelta(bytes: number): string {
+  return `${bytes >= 0 ? '+' : '-'}${formatSize(Math.abs(bytes))}`;
+}
+
+// Table of the constructors retaining the most memory
+function describeHeapSummary(summary: HeapSummary, top: number): string {
+  let text = `Reachable objects: ${summary.nodeCount}, total size: ${formatSize(summary.totalSize)}\n`;
+  text += `\nTop ${top} constructors by retained size:\n`;
+  summary.classes.slice(0, top).forEach((entry, i) => {
+    const share = summary.totalSize > 0 ? (entry.retainedSize / summary.totalSize) * 100 : 0;
+    text += `  ${i + 1}. ${entry.name}: ${entry.count} object(s), self ${formatSize(entry.selfSize)}, retained ${formatSize(entry.retainedSize)} (${share.toFixed(1)}%)\n`;
+  });
+  return text;
+}
+
+// Table of the constructors that grew the most between two snapshots
+function describeHeapDiff(before: HeapSummary, after: HeapSummary, top: number): string {
+  const diffs = diffHeapSummaries(before, after);
+  const grown = diffs
+    .filter(diff => diff.retainedSizeDelta > 0 || diff.selfSizeDelta > 0 || diff.countDelta > 0)
+    .sort((a, b) => b.retainedSizeDelta - a.retainedSizeDelta || b.selfSizeDelta - a.selfSizeDelta)
+    .slice(0, top);
+
+  let text = `Objects: ${before.nodeCount} -> ${after.nodeCount} (${after.nodeCount - before.nodeCount >= 0 ? '+' : ''}${after.nodeCount - before.nodeCount}), `;
+  text += `total size: ${formatSize(before.totalSize)} -> ${formatSize(after.totalSize)} (${formatSizeDelta(after.totalSize - before.totalSize)})\n`;
+
+  // Objects surviving in both snapshots share IDs; without any, the snapshots are of different processes
+  const shared = diffs.some(diff => {
+    const ids = before.ids.get(diff.name);
+    return ids !== undefined && Array.from(after.ids.get(diff.name) ?? []).some(id => ids.has(id));
+  });
+  if (!shared) {
+    text += `The snapshots share no objects, so they are probably of different processes (e.g. the server restarted); new and freed counts are not meaningful.\n`;
+  }
+
+  text += `\nTop ${top} constructors by growth of retained size:\n`;
+  if (grown.length === 0) {
+    text += `  (nothing grew)\n`;
+  }
+  grown.forEach((diff, i) => {
+    text += `  ${i + 1}. ${diff.name}: ${diff.countDelta >= 0 ? '+' : ''}${diff.countDelta} object(s) (${diff.added} new, ${diff.removed} freed), `;
+    text += `self ${formatSizeDelta(diff.selfSizeDelta)}, retained ${formatSizeDelta(diff.retainedSizeDelta)}\n`;
+  });
+  return text;
+}
+
+// Resolve a snapshot given by path or by file name in the snapshots directory
+function resolveSnapshotPath(snapshot: string): string {
+  return path.isAbsolute(snapshot) ? snapshot : path.resolve(getHeapSnapshotsDir(), snapshot);
+}
+
+export function registerProfileTools(server: McpServer): void {
+  // Tool to record a CPU profile of a script and report where the time went
+  server.tool(
+    "profile-node-script",
+    "Run a Node.js script with the V8 CPU profiler (--cpu-prof) and return the top functions by self and total time with their file:line, saving the .cpuprofile for DevTools",
+    {
+      scriptPath: z.string().describe("Path to the script to profile"),
+      args: z.array(z.string()).optional().describe("Arguments to pass to the script"),
+      cwd: z.string().optional().describe("Working directory (default: the script's directory)"),
+      nodeArgs: z.array(z.string()).optional().describe("Extra arguments for the Node.js executable, like --import tsx"),
+      samplingInterval: z.number().optional().describe("Sampling interval in microseconds (default: 1000)"),
+      duration: z.number().optional().describe("Stop the script and write the profile after this many milliseconds, for servers and other long-running scripts"),
+      top: z.number().optional().describe("Number of functions to list by self and by total time (default: 15)"),
+      timeout: z.number().optional().describe("Timeout in milliseconds after which the script is killed without writing a profile (default: 300000)")
+    },
+    async ({ scriptPath, args = [], cwd, nodeArgs = [], samplingInterval, duration, top = 15, timeout = 300000 }) => {
+      try {
+        const absPath = path.resolve(scriptPath);
+        try {
+          await fs.access(absPath);
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `Error: Script not found at ${absPath}`
+            }]
+          };
+        }
+        const workingDir = cwd ? path.resolve(cwd) : path.dirname(absPath);
+
+        const profilesDir = getProfilesDir();
+        const profileName = `${path.basename(absPath, path.extname(absPath))}-${new Date().toISOString().replace(/[:.]/g, '-')}.cpuprofile`;
+        const profileArgs = [
+          '--cpu-prof',
+          `--cpu-prof-dir=${profilesDir}`,
+          `--cpu-prof-name=${profileName}`,
+          ...(samplingInterval ? [`--cpu-prof-interval=${Math.max(1, Math.round(samplingInterval))}`] : [])
+        ];
+        const command = ['node', ...nodeArgs, ...profileArgs, absPath, ...args].map(shellQuote).join(' ');
+        const runtime = await getNodeRuntime(workingDir);
+
+        // Evaluate the permission policy
+        const permission = await checkPermission({
+          tool: "profile-node-script",
+          message: `${command} (in ${workingDir})`,
+          command,
+          scriptPath: absPath,
+          cwd: workingDir
+        });
+
+        if (!permission.allowed) {
+          await recordExecution({ tool: "profile-node-script", command, cwd: workingDir, permission });
+          return permissionDeniedResponse(permission);
+        }
+
+        await fs.mkdir(profilesDir, { recursive: true });
+        const preloadArgs = duration ? ['--require', await ensureDurationPreload()] : [];
+        const execCommand = [runtime.node, ...nodeArgs, ...preloadArgs, ...profileArgs, absPath, ...args].map(shellQuote).join(' ');
+
+        const result = await runCommand(execCommand, {
+          cwd: workingDir,
+          timeout: duration ? Math.max(timeout, duration + 30000) : timeout,
+          maxBuffer: 10 * 1024 * 1024,
+          env: { ...runtime.env, MCP_NODE_PROFILE_DURATION: duration ? String(duration) : '' }
+        });
+
+        await recordExecution({ tool: "profile-node-script", command, cwd: workingDir, permission, result, nodeVersion: runtime.installation?.version });
+
+        const exit = `Script exited with ${result.signal ? `signal ${result.signal}` : `code ${result.exitCode}`}`;
+        const profilePath = path.join(profilesDir, profileName);
+        let profile: CpuProfile;
+        try {
+          profile = JSON.parse(await fs.readFile(profilePath, 'utf-8'));
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `No CPU profile was written. Node.js only writes it when the script exits normally, not when it is killed.\n${exit}\nCommand: ${command}\n${describeNodeRuntime(runtime)}\n${result.stderr ? `\nStandard Error:\n${result.stderr}\n` : ''}\n${describePermission(permission)}`
+            }]
+          };
+        }
+
+        const summary = summarizeProfile(profile, workingDir);
+        const total = summary.durationMs;
+
+        let report = `${exit}\nCommand: ${command}\n${describeNodeRuntime(runtime)}\n`;
+        report += `Profile: ${profilePath} (open it in the Performance panel of Chrome DevTools)\n\n`;
+        report += `Duration: ${total.toFixed(1)}ms, ${summary.samples} samples`;
+        report += `; idle ${formatTime(summary.idleMs, total)}, GC ${formatTime(summary.gcMs, total)}, program ${formatTime(summary.programMs, total)}\n`;
+        report += `\nTop ${top} functions by self time:\n`;
+        report += describeTopFunctions(summary.functions, 'selfMs', top, total);
+        report += `\nTop ${top} functions by total time (excluding Node.js internals):\n`;
+        report += describeTopFunctions(summary.functions, 'totalMs', top, total);
+
+        if (result.stderr) {
+          report += `\nStandard Error:\n${result.stderr}\n`;
+        }
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${report}\n${describePermission(permission)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error profiling script: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+  // Tool to capture a heap snapshot of a managed server through the inspector
+  server.tool(
+    "take-heap-snapshot",
+    "Capture a heap snapshot of a managed server started with an inspector port and summarize retained size by constructor, optionally diffing it against an earlier snapshot",
+    {
+      serverId: z.string().describe("ID of the server to take the snapshot of; it must have been started with inspectPort"),
+      compareWith: z.string().optional().describe("Earlier snapshot (path or file name) to diff the new one against"),
+      top: z.number().optional().describe("Number of constructors to list (default: 20)")
+    },
+    async ({ serverId, compareWith, top = 20 }) => {
+      try {
+        const serverInfo = runningServers.get(serverId);
+        if (!serverInfo) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `Server with ID ${serverId} not found.`
+            }]
+          };
+        }
+        if (serverInfo.inspectPort === null) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `Server ${serverId} was not started with an inspector port. Restart it with start-node-server and inspectPort (0 picks a free port) to take heap snapshots.`
+            }]
+          };
+        }
+        if (serverInfo.exitCode !== null) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `Server ${serverId} is not running (exit code ${serverInfo.exitCode}).`
+            }]
+          };
+        }
+
+        const beforePath = compareWith ? resolveSnapshotPath(compareWith) : null;
+        if (beforePath) {
+          try {
+            await fs.access(beforePath);
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Error: Heap snapshot not found at ${beforePath}`
+              }]
+            };
+          }
+        }
+
+        const command = `heap snapshot of PID ${serverInfo.pid} (inspector 127.0.0.1:${serverInfo.inspectPort})`;
+
+        // Evaluate the permission policy
+        const permission = await checkPermission({
+          tool: "take-heap-snapshot",
+          message: `Take a ${command} of server ${serverInfo.name} (${serverId})`,
+          command,
+          cwd: serverInfo.cwd
+        });
+
+        if (!permission.allowed) {
+          await recordExecution({ tool: "take-heap-snapshot", command, cwd: serverInfo.cwd, permission, details: { serverId } });
+          return permissionDeniedResponse(permission);
+        }
+
+        const snapshotPath = path.join(getHeapSnapshotsDir(), `${serverId}-${new Date().toISOString().replace(/[:.]/g, '-')}.heapsnapshot`);
+        const startTime = Date.now();
+        try {
+          await takeHeapSnapshot(serverInfo.inspectPort, serverInfo.pid, snapshotPath);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          await recordExecution({ tool: "take-heap-snapshot", command, cwd: serverInfo.cwd, permission, outcome: 'failure', error: errorMessage, details: { serverId } });
+          await fs.rm(snapshotPath, { force: true });
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `Error taking heap snapshot: ${errorMessage}\n\n${describePermission(permission)}`
+            }]
+          };
+        }
+        const durationMs = Date.now() - startTime;
+        await recordExecution({ tool: "take-heap-snapshot", command, cwd: serverInfo.cwd, permission, durationMs, details: { serverId, snapshotPath } });
+
+        const summary = summarizeHeapSnapshot(await readHeapSnapshot(snapshotPath));
+        let report = `Heap snapshot of ${serverInfo.name} (ID: ${serverId}, PID ${serverInfo.pid}) taken in ${durationMs}ms\n`;
+        report += `Snapshot: ${snapshotPath} (open it in the Memory panel of Chrome DevTools)\n\n`;
+        report += describeHeapSummary(summary, top);
+
+        if (beforePath) {
+          const before = summarizeHeapSnapshot(await readHeapSnapshot(beforePath));
+          report += `\nChanges since ${beforePath}:\n`;
+          report += describeHeapDiff(before, summary, top);
+        }
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${report}\n${describePermission(permission)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error taking heap snapshot: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Tool to diff two heap snapshots, to find what a leak retains
+  server.tool(
+    "compare-heap-snapshots",
+    "Compare two heap snapshots and list the constructors whose object count and retained size grew the most",
+    {
+      before: z.string().describe("Earlier snapshot (path or file name in the heap snapshot directory)"),
+      after: z.string().describe("Later snapshot (path or file name in the heap snapshot directory)"),
+      top: z.number().optional().describe("Number of constructors to list (default: 20)")
+    },
+    async ({ before, after, top = 20 }) => {
+      try {
+        const beforePath = resolveSnapshotPath(before);
+        const afterPath = resolveSnapshotPath(after);
+        for (const file of [beforePath, afterPath]) {
+          try {
+            await fs.access(file);
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Error: Heap snapshot not found at ${file}`
+              }]
+            };
+          }
+        }
+
+        // Summarize one at a time so only one parsed snapshot is in memory
+        const beforeSummary = summarizeHeapSnapshot(await readHeapSnapshot(beforePath));
+        const afterSummary = summarizeHeapSnapshot(await readHeapSnapshot(afterPath));
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Changes from ${beforePath}\nto ${afterPath}:\n\n${describeHeapDiff(beforeSummary, afterSummary, top)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error comparing heap snapshots: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+}
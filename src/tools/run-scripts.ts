@@ -3,7 +3,10 @@ import { z } from "zod";
 import * as path from "path";
 import * as fs from "fs/promises";
 import * as os from "node:os";
-import { execAsync, askPermission, getSelectedNodeVersion } from "../utils/helpers.js";
+import { runCommand, shellQuote } from "../utils/helpers.js";
+import { checkPermission, describePermission, permissionDeniedResponse } from "../utils/permissions.js";
+import { recordExecution } from "../utils/audit.js";
+import { describeNodeRuntime, getNodeRuntime } from "../utils/version-managers.js";
 import { ExecOptionsWithInput } from "../types/index.js";
 
 export function registerScriptTools(server: McpServer): void {
@@ -17,9 +20,10 @@ export function registerScriptTools(server: McpServer): void {
       args: z.array(z.string()).optional().describe("Optional arguments to pass to the script"),
       stdin: z.string().optional().describe("Optional input to provide to the script's standard input"),
       cwd: z.string().optional().describe("Directory to run the script in (current working directory)"),
-      timeout: z.number().optional().describe("Timeout in milliseconds after which the process is killed")
+      timeout: z.number().optional().describe("Timeout in milliseconds after which the process is killed"),
+      nodeVersion: z.string().optional().describe("Node.js version for this call only, like '20' or 'lts/*', overriding the selected version and the version the project pins")
     },
-    async ({ scriptPath, nodeArgs = [], args = [], stdin, cwd, timeout }) => {
+    async ({ scriptPath, nodeArgs = [], args = [], stdin, cwd, timeout, nodeVersion }) => {
       try {
         // Resolve the absolute path
         const absPath = path.resolve(scriptPath);
@@ -45,35 +49,35 @@ export function registerScriptTools(server: McpServer): void {
         // Get working directory for permission message
         const workingDir = cwd ? path.resolve(cwd) : os.tmpdir();
 
-        // Ask for permission
-        let permitted = false;
-        let tries = 0;
+        // Resolve the Node.js version for the project the script belongs to
+        const runtime = await getNodeRuntime(cwd ? workingDir : path.dirname(absPath), nodeVersion);
 
-        while (!permitted) {
-          if (tries++ > 5) {
-            return {
-              isError: true,
-              content: [{ 
-                type: "text" as const, 
-                text: "Permission denied by user" 
-              }]
-            };
-          }
-          
-          // Include stdin and working directory info in permission request
-          let permissionMessage = `${command} (in ${workingDir})`;
-          if (stdin !== undefined) {
-            permissionMessage += " with provided standard input";
-          }
-          
-          permitted = await askPermission(permissionMessage);
+        // Include stdin and working directory info in permission request
+        let permissionMessage = `${command} (in ${workingDir})`;
+        if (stdin !== undefined) {
+          permissionMessage += " with provided standard input";
         }
         
-        // Execute the script with the selected Node.js version if one is set
-        let execCommand = command;
+        // Evaluate the permission policy
+        const permission = await checkPermission({
+          tool: "run-node-script",
+          message: permissionMessage,
+          command,
+          scriptPath: absPath,
+          cwd: workingDir
+        });
+        
+        if (!permission.allowed) {
+          await recordExecution({ tool: "run-node-script", command, cwd: workingDir, permission });
+          return permissionDeniedResponse(permission);
+        }
+        
+        // Execute the script with the node binary of the resolved Node.js version
+        const execCommand = `${shellQuote(runtime.node)} ${nodeArgsString}${absPath}${argsString}`;
         let execOptions: ExecOptionsWithInput = {
           timeout: timeout || 60000, // Use provided timeout or default to 1 minute
-          cwd: cwd ? path.resolve(cwd) : os.tmpdir()
+          cwd: cwd ? path.resolve(cwd) : os.tmpdir(),
+          env: runtime.env
         };
         
         // If stdin is provided, add it to exec options
@@ -81,25 +85,29 @@ export function registerScriptTools(server: McpServer): void {
           execOptions.input = stdin;
         }
         
-        // Handle NVM usage differently if stdin is provided
-        const selectedVersion = getSelectedNodeVersion();
-        if (selectedVersion) {
-          if (stdin !== undefined) {
-            // For stdin, we need to use a different approach
-            // First get the path to the correct node binary
-            const { stdout: nodePath } = await execAsync(
-              `bash -c "source ~/.nvm/nvm.sh && nvm use ${selectedVersion} > /dev/null && which node"`
-            );
-            
-            // Now use that specific node binary path directly
-            execCommand = `${nodePath.trim()} ${nodeArgsString}${absPath}${argsString}`;
-          } else {
-            // Without stdin, use the bash -c approach
-            execCommand = `bash -c "source ~/.nvm/nvm.sh && nvm use ${selectedVersion} && ${command}"`;
-          }
-        }
+        const result = await runCommand(execCommand, execOptions);
+        const { stdout, stderr } = result;
+        await recordExecution({ tool: "run-node-script", command, cwd: workingDir, permission, result, nodeVersion: runtime.installation?.version });
         
-        const { stdout, stderr } = await execAsync(execCommand, execOptions);
+        if (result.error) {
+          // Return a successful response but include both stdout, stderr and error information
+          return {
+            content: [
+              { 
+                type: "text" as const, 
+                text: stdout || "Script execution returned with error code" 
+              },
+              { 
+                type: "text" as const, 
+                text: `Standard Error: ${stderr}\nError: ${result.error.message}` 
+              },
+              { 
+                type: "text" as const, 
+                text: `${describeNodeRuntime(runtime)}\n${describePermission(permission)}` 
+              }
+            ]
+          };
+        }
         
         return {
           content: [
@@ -110,7 +118,11 @@ export function registerScriptTools(server: McpServer): void {
             ...(stderr ? [{ 
               type: "text" as const, 
               text: `Standard Error: ${stderr}` 
-            }] : [])
+            }] : []),
+            { 
+              type: "text" as const, 
+              text: `${describeNodeRuntime(runtime)}\n${describePermission(permission)}` 
+            }
           ]
         };
       } catch (error) {
@@ -145,9 +157,10 @@ export function registerScriptTools(server: McpServer): void {
       code: z.string().describe("JavaScript code to execute"),
       evalDirectory: z.string().optional().describe("Directory to execute the code in (must be an allowed directory)"),
       stdin: z.string().optional().describe("Optional input to provide to the script's standard input"),
-      timeout: z.number().optional().describe("Timeout in milliseconds after which the process is killed")
+      timeout: z.number().optional().describe("Timeout in milliseconds after which the process is killed"),
+      nodeVersion: z.string().optional().describe("Node.js version for this call only, like '20' or 'lts/*', overriding the selected version and the version the project pins")
     },
-    async ({ code, evalDirectory, stdin, timeout }) => {
+    async ({ code, evalDirectory, stdin, timeout, nodeVersion }) => {
       try {
         // Determine execution directory - use os.tmpdir() for the default
         const tmpDir = os.tmpdir();
@@ -228,6 +241,9 @@ export function registerScriptTools(server: McpServer): void {
           executionDir = absPath;
         }
         
+        // Resolve the Node.js version for the execution directory
+        const runtime = await getNodeRuntime(executionDir, nodeVersion);
+        
         // Format command for permission request
         // We're showing a simplified version in the permission dialog
         const displayCode = code.length > 50 ? code.substring(0, 47) + "..." : code;
@@ -238,16 +254,18 @@ export function registerScriptTools(server: McpServer): void {
           permissionMessage += ` with provided standard input`;
         }
         
-        const permitted = await askPermission(permissionMessage);
+        // Evaluate the permission policy
+        const evalCommand = `node --eval ${JSON.stringify(code)}`;
+        const permission = await checkPermission({
+          tool: "run-node-eval",
+          message: permissionMessage,
+          command: evalCommand,
+          cwd: executionDir
+        });
         
-        if (!permitted) {
-          return {
-            isError: true,
-            content: [{ 
-              type: "text" as const, 
-              text: "Permission denied by user" 
-            }]
-          };
+        if (!permission.allowed) {
+          await recordExecution({ tool: "run-node-eval", command: evalCommand, cwd: executionDir, permission });
+          return permissionDeniedResponse(permission);
         }
         
         // Create a temporary file for the code instead of using --eval directly
@@ -259,24 +277,46 @@ export function registerScriptTools(server: McpServer): void {
           // Write the code to the temporary file
           await fs.writeFile(tempFilePath, code, 'utf8');
           
-          // Build the command to execute the temp file
-          let execCommand = `node "${tempFilePath}"`;
-          
-          const selectedVersion = getSelectedNodeVersion();
-          if (selectedVersion) {
-            execCommand = `bash -c "source ~/.nvm/nvm.sh && nvm use ${selectedVersion} && ${execCommand}"`;
-          }
+          // Build the command to execute the temp file with the resolved Node.js version
+          const execCommand = `${shellQuote(runtime.node)} "${tempFilePath}"`;
           
           // Setup options with stdin if provided
           const execOptions: ExecOptionsWithInput = { 
             cwd: executionDir,
+            env: runtime.env,
             timeout: timeout || 5000 // Use provided timeout or default to 5 seconds
           };
           if (stdin !== undefined) {
             execOptions.input = stdin;
           }
           
-          const { stdout, stderr } = await execAsync(execCommand, execOptions);
+          const result = await runCommand(execCommand, execOptions);
+          const { stdout, stderr } = result;
+          await recordExecution({ tool: "run-node-eval", command: evalCommand, cwd: executionDir, permission, result, nodeVersion: runtime.installation?.version });
+          
+          if (result.error) {
+            return {
+              isError: true,
+              content: [
+                { 
+                  type: "text" as const, 
+                  text: `Error executing code: ${result.error.message}` 
+                },
+                ...(stdout ? [{ 
+                  type: "text" as const, 
+                  text: stdout 
+                }] : []),
+                ...(stderr ? [{ 
+                  type: "text" as const, 
+                  text: `Standard Error: ${stderr}` 
+                }] : []),
+                { 
+                  type: "text" as const, 
+                  text: `${describeNodeRuntime(runtime)}\n${describePermission(permission)}` 
+                }
+              ]
+            };
+          }
           
           return {
             content: [
@@ -287,7 +327,11 @@ export function registerScriptTools(server: McpServer): void {
               ...(stderr ? [{ 
                 type: "text" as const, 
                 text: `Standard Error: ${stderr}` 
-              }] : [])
+              }] : []),
+              { 
+                type: "text" as const, 
+                text: `${describeNodeRuntime(runtime)}\n${describePermission(permission)}` 
+              }
             ]
           };
         } finally {
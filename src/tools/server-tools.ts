@@ -2,8 +2,18 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import * as path from "path";
 import * as fs from "fs/promises";
-import { spawn } from "child_process";
-import { execAsync, askPermission, runningServers, generateServerId, getSelectedNodeVersion } from "../utils/helpers.js";
+import { runningServers, generateServerId, parseTimeBound } from "../utils/helpers.js";
+import { checkPermission, describePermission, permissionDeniedResponse } from "../utils/permissions.js";
+import { recordExecution } from "../utils/audit.js";
+import { hasReadinessConditions, waitForReadiness } from "../utils/readiness.js";
+import { describePorts, getListeningPorts, waitForListeningPorts } from "../utils/ports.js";
+import { formatLogLine, queryLogs } from "../utils/logs.js";
+import { describeSample } from "../utils/metrics.js";
+import { findFreePort } from "../utils/inspector.js";
+import { NodeRuntime, describeNodeRuntime, getNodeRuntime } from "../utils/version-managers.js";
+import { formatJsonLog, getLogLevel, matchesFields, matchesLevel, parseFieldFilters, parseJsonLog, parseLevelFilter } from "../utils/json-logs.js";
+import { adoptOrphanedServer, describeRestarts, describeServerStatus, getOrphanedServers, killOrphanedServer, startManagedServer, stopManagedServer } from "../utils/servers.js";
+import { LogLine } from "../types/index.js";
 
 export function registerServerTools(server: McpServer): void {
   // Tool to start a Node.js server in the background
@@ -15,10 +25,37 @@ export function registerServerTools(server: McpServer): void {
       cwd: z.string().describe("Directory to run the server in"),
       serverName: z.string().optional().describe("Optional friendly name for the server (defaults to filename)"),
       nodeArgs: z.array(z.string()).optional().describe("Optional arguments to pass to the Node.js executable itself"),
-      args: z.array(z.string()).optional().describe("Optional arguments to pass to the server script")
+      args: z.array(z.string()).optional().describe("Optional arguments to pass to the server script"),
+      readyPort: z.number().optional().describe("Wait until this TCP port accepts connections before returning"),
+      readyHost: z.string().optional().describe("Host used for the readyPort check (default: 127.0.0.1)"),
+      readyUrl: z.string().optional().describe("Wait until this URL returns a 2xx status before returning, e.g. a health check endpoint"),
+      readyLogPattern: z.string().optional().describe("Wait until a log line matches this regular expression before returning"),
+      readyTimeout: z.number().optional().describe("Maximum time in milliseconds to wait for the readiness conditions (default: 30000)"),
+      restartPolicy: z.enum(['never', 'on-failure', 'always']).optional().describe("When to restart the server after it exits (default: never)"),
+      maxRestarts: z.number().optional().describe("Maximum consecutive automatic restarts before giving up (default: 5)"),
+      restartDelay: z.number().optional().describe("Initial restart delay in milliseconds, doubled after every consecutive restart (default: 1000)"),
+      watch: z.array(z.string()).optional().describe("Glob patterns relative to cwd; the server restarts when a matching file changes (e.g. ['src/**/*.js'])"),
+      inspectPort: z.number().optional().describe("Enable the Node.js inspector on this port of 127.0.0.1, for heap snapshots; 0 picks a free port"),
+      nodeVersion: z.string().optional().describe("Node.js version for this call only, like '20' or 'lts/*', overriding the selected version and the version the project pins")
     },
-    async ({ scriptPath, serverName, nodeArgs = [], args = [], cwd }) => {
+    async ({ scriptPath, serverName, nodeArgs = [], args = [], cwd, readyPort, readyHost, readyUrl, readyLogPattern, readyTimeout = 30000, restartPolicy = 'never', maxRestarts = 5, restartDelay = 1000, watch, inspectPort, nodeVersion }) => {
       try {
+        // Validate the log pattern before starting anything
+        let logPattern: RegExp | undefined;
+        if (readyLogPattern !== undefined) {
+          try {
+            logPattern = new RegExp(readyLogPattern);
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{ 
+                type: "text" as const, 
+                text: `Error: Invalid readyLogPattern: ${error instanceof Error ? error.message : String(error)}` 
+              }]
+            };
+          }
+        }
+        
         // Resolve the absolute path
         const absPath = path.resolve(scriptPath);
         
@@ -35,6 +72,14 @@ export function registerServerTools(server: McpServer): void {
           };
         }
         
+        // The port is fixed up front so it stays the same across restarts
+        if (inspectPort === 0) {
+          inspectPort = await findFreePort();
+        }
+        if (inspectPort !== undefined) {
+          nodeArgs = [`--inspect=127.0.0.1:${inspectPort}`, ...nodeArgs];
+        }
+        
         // Format command for permission request
         const nodeArgsString = nodeArgs.length > 0 ? nodeArgs.join(' ') + ' ' : '';
         const argsString = args.length > 0 ? ' ' + args.join(' ') : '';
@@ -46,107 +91,135 @@ export function registerServerTools(server: McpServer): void {
         // Generate a server name if not provided
         const displayName = serverName || path.basename(absPath);
         
-        // Ask for permission
-        const permissionMessage = `Start server: ${displayName}\nCommand: ${command}\nWorking directory: ${workingDir}`;
-        const permitted = await askPermission(permissionMessage);
-        
-        if (!permitted) {
+        // Run the server with the node binary of the requested Node.js version, or the one pinned for its working directory
+        let runtime: NodeRuntime;
+        try {
+          runtime = await getNodeRuntime(workingDir, nodeVersion);
+        } catch (error) {
           return {
             isError: true,
             content: [{ 
               type: "text" as const, 
-              text: "Permission denied by user" 
+              text: `Error resolving the Node.js version: ${error instanceof Error ? error.message : String(error)}` 
             }]
           };
         }
         
+        // Evaluate the permission policy
+        const permissionMessage = `Start server: ${displayName}\nCommand: ${command}\nWorking directory: ${workingDir}`;
+        const permission = await checkPermission({
+          tool: "start-node-server",
+          message: permissionMessage,
+          command,
+          scriptPath: absPath,
+          cwd: workingDir
+        });
+        
+        if (!permission.allowed) {
+          await recordExecution({ tool: "start-node-server", command, cwd: workingDir, permission });
+          return permissionDeniedResponse(permission);
+        }
+        
         // Generate a unique ID for this server instance
         const serverId = generateServerId();
         
-        // Prepare the environment for the child process
-        const env = { ...process.env };
+        // Start the server and register it in runningServers
+        const serverInfo = startManagedServer({
+          serverId,
+          name: displayName,
+          command,
+          cwd: workingDir,
+          launch: { file: runtime.node, args: [...nodeArgs, absPath, ...args], env: runtime.env },
+          restartPolicy,
+          maxRestarts,
+          restartDelay,
+          watch,
+          inspectPort
+        });
+        const logs = serverInfo.logs;
         
-        // If we have a selected Node.js version, get its bin path for running the server
-        let nodeBin = 'node';
-        const selectedVersion = getSelectedNodeVersion();
-        if (selectedVersion) {
-          try {
-            // Get the path to the selected Node.js binary
-            const { stdout } = await execAsync(
-              `bash -c "source ~/.nvm/nvm.sh && nvm use ${selectedVersion} > /dev/null && which node"`
-            );
-            nodeBin = stdout.trim();
-          } catch (error) {
-            return {
-              isError: true,
-              content: [{ 
-                type: "text" as const, 
-                text: `Error getting Node.js binary path: ${error instanceof Error ? error.message : String(error)}` 
-              }]
-            };
-          }
+        let serverSummary = `Server ID: ${serverId}\nName: ${displayName}\nPID: ${serverInfo.pid}\nCommand: ${command}\nWorking directory: ${workingDir}\n${describeNodeRuntime(runtime)}`;
+        if (inspectPort !== undefined) {
+          serverSummary += `\nInspector: 127.0.0.1:${inspectPort}`;
         }
         
-        // Start the server as a detached process
-        const serverProcess = spawn(
-          nodeBin,
-          [...nodeArgs, absPath, ...args],
-          {
+        // Without readiness conditions, return as soon as the process is spawned
+        const conditions = { port: readyPort, host: readyHost, url: readyUrl, logPattern, timeout: readyTimeout };
+        if (!hasReadinessConditions(conditions)) {
+          // Give the server a moment to bind its ports so they can be reported
+          const ports = await waitForListeningPorts(serverInfo.pid, 1000, () => serverInfo.exitCode === null);
+          
+          await recordExecution({
+            tool: "start-node-server",
+            command,
             cwd: workingDir,
-            env,
-            stdio: ['ignore', 'pipe', 'pipe'],
-            detached: false // Not fully detaching so we can still manage the process
-          }
-        );
-        
-        // Initialize the logs array
-        const logs: string[] = [];
-        const maxLogs = 1000; // Limit log storage
-        
-        // Capture output
-        serverProcess.stdout.on('data', (data) => {
-          const output = data.toString();
-          logs.push(`[stdout] ${output}`);
-          if (logs.length > maxLogs) {
-            logs.shift(); // Remove oldest log if exceeding limit
-          }
-        });
+            permission,
+            nodeVersion: runtime.installation?.version,
+            details: { serverId, pid: serverInfo.pid }
+          });
+          
+          return {
+            content: [{ 
+              type: "text" as const, 
+              text: `Server started successfully!\n\n${serverSummary}\n${describePorts(ports, serverInfo.inspectPort)}\n\nYou can view server status with the list-servers tool and stop it with the stop-server tool.\n\n${describePermission(permission)}` 
+            }]
+          };
+        }
         
-        serverProcess.stderr.on('data', (data) => {
-          const output = data.toString();
-          logs.push(`[stderr] ${output}`);
-          if (logs.length > maxLogs) {
-            logs.shift(); // Remove oldest log if exceeding limit
-          }
-        });
+        // Wait for the server to become ready, crash, or time out
+        const readiness = await waitForReadiness(serverInfo, conditions);
+        const capturedLogs = logs.map(line => formatLogLine(line)).join('\n');
+        
+        if (readiness.status === 'crashed') {
+          const exitInfo = readiness.error
+            ? `failed to start: ${readiness.error}`
+            : readiness.signal ? `was killed by ${readiness.signal}` : `exited with code ${readiness.exitCode}`;
+          await recordExecution({
+            tool: "start-node-server",
+            command,
+            cwd: workingDir,
+            permission,
+            outcome: 'failure',
+            exitCode: readiness.exitCode,
+            durationMs: readiness.elapsedMs,
+            error: `Crashed during startup: server ${exitInfo}`,
+            details: { serverId, pid: serverInfo.pid, readiness: readiness.status }
+          });
+          
+          return {
+            isError: true,
+            content: [{ 
+              type: "text" as const, 
+              text: `Server crashed during startup: it ${exitInfo} after ${readiness.elapsedMs}ms.\n\n${serverSummary}\nStatus: ${describeServerStatus(serverInfo)}\n\nCaptured logs:\n${capturedLogs || '(no output)'}\n\n${describePermission(permission)}` 
+            }]
+          };
+        }
         
-        // Store information about the running server
-        runningServers.set(serverId, {
-          process: serverProcess,
-          name: displayName,
+        await recordExecution({
+          tool: "start-node-server",
           command,
-          pid: serverProcess.pid || 0, // Default to 0 if pid is undefined
-          startTime: new Date(),
-          logs,
-          exitCode: null
+          cwd: workingDir,
+          permission,
+          durationMs: readiness.elapsedMs,
+          nodeVersion: runtime.installation?.version,
+          details: { serverId, pid: serverInfo.pid, readiness: readiness.status }
         });
         
-        // Handle server exit
-        serverProcess.on('exit', (code) => {
-          if (runningServers.has(serverId)) {
-            const serverInfo = runningServers.get(serverId)!;
-            serverInfo.exitCode = code;
-            // Keep the server in the map for a while so its info can still be retrieved
-            setTimeout(() => {
-              runningServers.delete(serverId);
-            }, 3600000); // Remove after 1 hour
-          }
-        });
+        if (readiness.status === 'timed-out') {
+          return {
+            content: [{ 
+              type: "text" as const, 
+              text: `Server timed out after ${readyTimeout}ms waiting for: ${readiness.pending.join(', ')}.\n` +
+                (readiness.satisfied.length > 0 ? `Already satisfied: ${readiness.satisfied.join(', ')}.\n` : '') +
+                `The server is still running; check its logs or stop it with the stop-server tool.\n\n${serverSummary}\n${describePorts(await getListeningPorts(serverInfo.pid), serverInfo.inspectPort)}\n\nCaptured logs:\n${capturedLogs || '(no output)'}\n\n${describePermission(permission)}` 
+            }]
+          };
+        }
         
         return {
           content: [{ 
             type: "text" as const, 
-            text: `Server started successfully!\n\nServer ID: ${serverId}\nName: ${displayName}\nPID: ${serverProcess.pid}\nCommand: ${command}\nWorking directory: ${workingDir}\n\nYou can view server status with the list-servers tool and stop it with the stop-server tool.` 
+            text: `Server is ready after ${readiness.elapsedMs}ms (${readiness.satisfied.join(', ')}).\n\n${serverSummary}\n${describePorts(await getListeningPorts(serverInfo.pid), serverInfo.inspectPort)}\n\nYou can view server status with the list-servers tool and stop it with the stop-server tool.\n\n${describePermission(permission)}` 
           }]
         };
       } catch (error) {
@@ -172,12 +245,18 @@ export function registerServerTools(server: McpServer): void {
     },
     async ({ showLogs = false, serverId }) => {
       try {
+        // Servers of a previous mcp-node session that nobody manages yet
+        const orphans = getOrphanedServers();
+        const orphanNote = orphans.length > 0
+          ? `\n${orphans.length} orphaned server(s) from a previous mcp-node session are still running. Use the manage-orphaned-servers tool to adopt or kill them.`
+          : '';
+        
         // If no servers are running
         if (runningServers.size === 0) {
           return {
             content: [{ 
               type: "text" as const, 
-              text: "No servers are currently running." 
+              text: `No servers are currently running.${orphanNote}` 
             }]
           };
         }
@@ -206,11 +285,25 @@ export function registerServerTools(server: McpServer): void {
           serverDetail += `Command: ${server.command}\n`;
           serverDetail += `Started: ${server.startTime.toLocaleString()}\n`;
           serverDetail += `Uptime: ${uptimeStr}\n`;
-          serverDetail += `Status: ${server.exitCode === null ? 'Running' : `Exited with code ${server.exitCode}`}\n`;
+          serverDetail += `Status: ${describeServerStatus(server)}\n`;
+          if (server.exitCode === null) {
+            serverDetail += `${describePorts(await getListeningPorts(server.pid), server.inspectPort)}\n`;
+            if (server.metrics.length > 0) {
+              serverDetail += `Resources: ${describeSample(server.metrics[server.metrics.length - 1])}\n`;
+            }
+          }
+          if (server.inspectPort !== null) {
+            serverDetail += `Inspector: 127.0.0.1:${server.inspectPort}\n`;
+          }
+          if (server.adopted) {
+            serverDetail += `Adopted from a previous mcp-node session (new output is not captured)\n`;
+          }
+          serverDetail += `Log file: ${server.logFile}\n`;
+          serverDetail += describeRestarts(server);
           
           // Include recent logs if requested
           if (showLogs && server.logs.length > 0) {
-            const recentLogs = server.logs.slice(-20).join('\n'); // Show last 20 log entries
+            const recentLogs = server.logs.slice(-20).map(line => formatLogLine(line)).join('\n'); // Show last 20 log entries
             serverDetail += `\nRecent logs:\n${recentLogs}`;
           }
           
@@ -236,11 +329,28 @@ export function registerServerTools(server: McpServer): void {
           serversList += `PID: ${server.pid}\n`;
           serversList += `Started: ${server.startTime.toLocaleString()}\n`;
           serversList += `Uptime: ${uptimeStr}\n`;
-          serversList += `Status: ${server.exitCode === null ? 'Running' : `Exited with code ${server.exitCode}`}\n`;
+          serversList += `Status: ${describeServerStatus(server)}\n`;
+          if (server.exitCode === null) {
+            serversList += `${describePorts(await getListeningPorts(server.pid), server.inspectPort)}\n`;
+            if (server.metrics.length > 0) {
+              serversList += `Resources: ${describeSample(server.metrics[server.metrics.length - 1])}\n`;
+            }
+          }
+          if (server.inspectPort !== null) {
+            serversList += `Inspector: 127.0.0.1:${server.inspectPort}\n`;
+          }
+          if (server.adopted) {
+            serversList += `Adopted from a previous mcp-node session\n`;
+          }
+          
+          // Show restart counters and history for servers that restart or have restarted
+          if (server.restartPolicy !== 'never' || server.restartCount > 0 || server.watchPatterns.length > 0) {
+            serversList += describeRestarts(server, 3);
+          }
           
           // Include a few recent logs if requested
           if (showLogs && server.logs.length > 0) {
-            const recentLogs = server.logs.slice(-5).join('\n'); // Show last 5 log entries
+            const recentLogs = server.logs.slice(-5).map(line => formatLogLine(line)).join('\n'); // Show last 5 log entries
             serversList += `Recent logs:\n${recentLogs}\n`;
           }
           
@@ -250,7 +360,7 @@ export function registerServerTools(server: McpServer): void {
         return {
           content: [{ 
             type: "text" as const, 
-            text: serversList 
+            text: serversList + orphanNote 
           }]
         };
       } catch (error) {
@@ -289,89 +399,95 @@ export function registerServerTools(server: McpServer): void {
         
         const serverInfo = runningServers.get(serverId)!;
         
-        // Check if the server has already exited
-        if (serverInfo.exitCode !== null) {
+        // A server waiting to be restarted or watching files is stopped by cancelling that
+        if (serverInfo.exitCode !== null && (serverInfo.restartTimer || serverInfo.watchers.length > 0)) {
+          await stopManagedServer(serverId);
           return {
             content: [{ 
               type: "text" as const, 
-              text: `Server with ID ${serverId} (${serverInfo.name}) has already exited with code ${serverInfo.exitCode}.` 
+              text: `Server with ID ${serverId} (${serverInfo.name}) had exited with code ${serverInfo.exitCode}. Pending restarts and file watching have been cancelled.` 
             }]
           };
         }
         
-        // Ask for permission
-        const permissionMessage = `Stop server: ${serverInfo.name} (PID: ${serverInfo.pid})${force ? ' with force' : ''}`;
-        const permitted = await askPermission(permissionMessage);
-        
-        if (!permitted) {
+        // Check if the server has already exited
+        if (serverInfo.exitCode !== null) {
           return {
-            isError: true,
             content: [{ 
               type: "text" as const, 
-              text: "Permission denied by user" 
+              text: `Server with ID ${serverId} (${serverInfo.name}) has already exited with code ${serverInfo.exitCode}.` 
             }]
           };
         }
         
-        // Stop the server
-        if (force) {
-          serverInfo.process.kill('SIGKILL');
-        } else {
-          serverInfo.process.kill('SIGTERM');
-        }
-        
-        // Wait for the process to exit (with a timeout)
-        const timeout = 5000; // 5 seconds timeout
-        const exitPromise = new Promise<number | null>((resolve) => {
-          // If the process has already exited
-          if (serverInfo.exitCode !== null) {
-            resolve(serverInfo.exitCode);
-            return;
-          }
-          
-          // Set up a one-time exit listener
-          const exitListener = (code: number | null) => {
-            serverInfo.exitCode = code;
-            resolve(code);
-          };
-          
-          serverInfo.process.once('exit', exitListener);
-          
-          // Set a timeout to resolve if the process doesn't exit
-          setTimeout(() => {
-            serverInfo.process.removeListener('exit', exitListener);
-            if (serverInfo.exitCode === null) {
-              resolve(null); // Process didn't exit within timeout
-            }
-          }, timeout);
+        // Evaluate the permission policy
+        const stopCommand = `kill -${force ? 'KILL' : 'TERM'} ${serverInfo.pid}`;
+        const permissionMessage = `Stop server: ${serverInfo.name} (PID: ${serverInfo.pid})${force ? ' with force' : ''}`;
+        const permission = await checkPermission({
+          tool: "stop-server",
+          message: permissionMessage,
+          command: serverInfo.command,
+          cwd: serverInfo.cwd
         });
         
-        const exitCode = await exitPromise;
+        if (!permission.allowed) {
+          await recordExecution({ tool: "stop-server", command: stopCommand, cwd: serverInfo.cwd, permission, details: { serverId } });
+          return permissionDeniedResponse(permission);
+        }
+        
+        // Stop the server and wait for it to exit (with a 5 second timeout)
+        const stopStartTime = Date.now();
+        const stopResult = await stopManagedServer(serverId, force);
+        const exitCode = stopResult.exited ? stopResult.exitCode : null;
         
         if (exitCode === null) {
           // If the server didn't exit within the timeout and force wasn't used initially
           if (!force) {
             // Ask for permission to force kill
             const forcePermissionMessage = `Server ${serverInfo.name} (PID: ${serverInfo.pid}) didn't exit within timeout. Force kill?`;
-            const forcePermitted = await askPermission(forcePermissionMessage);
+            const forcePermission = await checkPermission({
+              tool: "stop-server",
+              message: forcePermissionMessage,
+              command: `kill -9 ${serverInfo.pid}`,
+              cwd: serverInfo.cwd
+            });
+            
+            await recordExecution({
+              tool: "stop-server",
+              command: `kill -KILL ${serverInfo.pid}`,
+              cwd: serverInfo.cwd,
+              permission: forcePermission,
+              durationMs: Date.now() - stopStartTime,
+              details: { serverId }
+            });
             
-            if (forcePermitted) {
-              serverInfo.process.kill('SIGKILL');
+            if (forcePermission.allowed) {
+              await stopManagedServer(serverId, true);
               return {
                 content: [{ 
                   type: "text" as const, 
-                  text: `Server with ID ${serverId} (${serverInfo.name}) has been forcibly terminated.` 
+                  text: `Server with ID ${serverId} (${serverInfo.name}) has been forcibly terminated.\n\n${describePermission(forcePermission)}` 
                 }]
               };
             } else {
               return {
                 content: [{ 
                   type: "text" as const, 
-                  text: `Server with ID ${serverId} (${serverInfo.name}) did not exit within the timeout. You may try again with the force option.` 
+                  text: `Server with ID ${serverId} (${serverInfo.name}) did not exit within the timeout. You may try again with the force option.\n\n${describePermission(forcePermission)}` 
                 }]
               };
             }
           } else {
+            await recordExecution({
+              tool: "stop-server",
+              command: stopCommand,
+              cwd: serverInfo.cwd,
+              permission,
+              outcome: 'failure',
+              durationMs: Date.now() - stopStartTime,
+              error: 'Process did not exit after SIGKILL',
+              details: { serverId }
+            });
             return {
               content: [{ 
                 type: "text" as const, 
@@ -381,15 +497,20 @@ export function registerServerTools(server: McpServer): void {
           }
         }
         
-        // Keep the server info in the map for a while, but mark it as exited
-        setTimeout(() => {
-          runningServers.delete(serverId);
-        }, 3600000); // Remove after 1 hour
+        await recordExecution({
+          tool: "stop-server",
+          command: stopCommand,
+          cwd: serverInfo.cwd,
+          permission,
+          exitCode,
+          durationMs: Date.now() - stopStartTime,
+          details: { serverId }
+        });
         
         return {
           content: [{ 
             type: "text" as const, 
-            text: `Server with ID ${serverId} (${serverInfo.name}) has been stopped with exit code ${exitCode}.` 
+            text: `Server with ID ${serverId} (${serverInfo.name}) has been stopped with exit code ${exitCode}.\n\n${describePermission(permission)}` 
           }]
         };
       } catch (error) {
@@ -408,15 +529,21 @@ export function registerServerTools(server: McpServer): void {
   // Tool to get logs from a server
   server.tool(
     "get-server-logs",
-    "Get the last N lines of logs from a running server",
+    "Get logs from a server: the last N lines, or a page of its log history starting at a line number or time",
     {
       serverId: z.string().describe("ID of the server to get logs from"),
       lines: z.number().optional().describe("Number of log lines to retrieve (default: 50)"),
+      offset: z.number().optional().describe("Line number to start reading from, e.g. the next offset reported by a previous call"),
+      since: z.string().optional().describe("Only lines written at or after this time: ISO timestamp or relative duration like 30m, 2h or 1d"),
+      until: z.string().optional().describe("Only lines written at or before this time: ISO timestamp or relative duration"),
       filter: z.string().optional().describe("Optional string to filter logs (case-insensitive)"),
+      level: z.string().optional().describe("Only JSON log lines (e.g. pino) at this level, like \">= warn\", \"error\" or \"< 30\"; a bare level means that level or above"),
+      fields: z.record(z.string()).optional().describe("Only JSON log lines whose fields match, e.g. { \"reqId\": \"abc\", \"msg\": \"/timeout/i\" }; keys may be dotted paths and /pattern/flags values are regular expressions"),
+      raw: z.boolean().optional().describe("Show JSON log lines as the original JSON instead of rendering them readably (default: false)"),
       stdout: z.boolean().optional().describe("Show stdout logs (default: true)"),
       stderr: z.boolean().optional().describe("Show stderr logs (default: true)")
     },
-    async ({ serverId, lines = 50, filter, stdout = true, stderr = true }) => {
+    async ({ serverId, lines = 50, offset, since, until, filter, level, fields, raw = false, stdout = true, stderr = true }) => {
       try {
         // Check if the server exists
         if (!runningServers.has(serverId)) {
@@ -430,27 +557,43 @@ export function registerServerTools(server: McpServer): void {
         }
         
         const serverInfo = runningServers.get(serverId)!;
-        
-        // Filter the logs
-        let filteredLogs = serverInfo.logs.filter(log => {
-          // Filter by output type (stdout/stderr)
-          if (!stdout && log.startsWith('[stdout]')) return false;
-          if (!stderr && log.startsWith('[stderr]')) return false;
-          
-          // Filter by content if specified
-          if (filter) {
-            return log.toLowerCase().includes(filter.toLowerCase());
+        const filterText = filter?.toLowerCase();
+        const levelFilter = level ? parseLevelFilter(level) : null;
+        const fieldFilters = fields ? parseFieldFilters(fields) : [];
+        
+        const page = await queryLogs(serverInfo, {
+          offset,
+          since: since ? parseTimeBound(since) : undefined,
+          until: until ? parseTimeBound(until) : undefined,
+          limit: lines,
+          match: line => {
+            // Filter by output type (stdout/stderr)
+            if (!stdout && line.stream === 'stdout') return false;
+            if (!stderr && line.stream === 'stderr') return false;
+            
+            // Filter by content if specified
+            if (filterText && !line.text.toLowerCase().includes(filterText)) return false;
+            
+            // Level and field filters only match JSON log lines
+            if (!levelFilter && fieldFilters.length === 0) return true;
+            const record = parseJsonLog(line.text);
+            if (!record) return false;
+            if (levelFilter && !matchesLevel(getLogLevel(record), levelFilter)) return false;
+            return matchesFields(record, fieldFilters);
           }
-          
-          return true;
         });
         
-        // Get the last N lines
-        filteredLogs = filteredLogs.slice(-lines);
+        const rotatedNote = page.firstAvailable > 0 && (offset ?? 0) < page.firstAvailable
+          ? `Lines before #${page.firstAvailable} have been rotated out of the log files.`
+          : '';
         
-        if (filteredLogs.length === 0) {
+        if (page.lines.length === 0) {
           let reason = "No logs available";
+          if (offset !== undefined) reason += ` from line #${offset}`;
+          if (since || until) reason += ` in the requested time range`;
           if (filter) reason += ` matching filter "${filter}"`;
+          if (level) reason += ` at level ${level}`;
+          if (fields) reason += ` with fields ${JSON.stringify(fields)}`;
           if (!stdout && !stderr) reason += " (both stdout and stderr are disabled)";
           else if (!stdout) reason += " (stdout is disabled)";
           else if (!stderr) reason += " (stderr is disabled)";
@@ -458,21 +601,38 @@ export function registerServerTools(server: McpServer): void {
           return {
             content: [{ 
               type: "text" as const, 
-              text: `${reason} for server ${serverInfo.name} (ID: ${serverId}).` 
+              text: `${reason} for server ${serverInfo.name} (ID: ${serverId}).${rotatedNote ? `\n${rotatedNote}` : ''}` 
             }]
           };
         }
         
         // Build the response
-        const statusInfo = serverInfo.exitCode === null ? 'Running' : `Exited with code ${serverInfo.exitCode}`;
+        const statusInfo = describeServerStatus(serverInfo);
+        const firstShown = page.lines[0].seq;
+        const lastShown = page.lines[page.lines.length - 1].seq;
         
         let response = `=== Logs for server: ${serverInfo.name} (ID: ${serverId}) ===\n`;
         response += `Status: ${statusInfo}\n`;
-        response += `Showing ${filteredLogs.length} of ${serverInfo.logs.length} log entries`;
+        response += `Log file: ${serverInfo.logFile}\n`;
+        response += `Showing ${page.lines.length} line(s) (#${firstShown} to #${lastShown}) of ${serverInfo.lineCount} written`;
         if (filter) response += ` (filtered by "${filter}")`;
+        if (level) response += ` (level ${level})`;
+        if (fields) response += ` (fields ${JSON.stringify(fields)})`;
         if (!stdout) response += " (excluding stdout)";
         if (!stderr) response += " (excluding stderr)";
-        response += `:\n\n${filteredLogs.join('\n')}`;
+        
+        // JSON log lines are rendered readably unless the raw JSON is requested
+        const renderLine = (line: LogLine) => {
+          const record = raw ? null : parseJsonLog(line.text);
+          return formatLogLine(record ? { ...line, text: formatJsonLog(record) } : line, true);
+        };
+        response += `:\n\n${page.lines.map(renderLine).join('\n')}`;
+        if (rotatedNote) {
+          response += `\n\n${rotatedNote}`;
+        }
+        if (page.nextOffset !== null) {
+          response += `\n\nMore lines are available; continue with offset ${page.nextOffset}.`;
+        }
         
         return {
           content: [{ 
@@ -492,4 +652,136 @@ export function registerServerTools(server: McpServer): void {
       }
     }
   );
+
+  // Tool to adopt or kill servers left behind by a previous mcp-node session
+  server.tool(
+    "manage-orphaned-servers",
+    "List, adopt or kill servers that a previous mcp-node session started and that are still running",
+    {
+      action: z.enum(['list', 'adopt', 'kill']).describe("'list' shows the orphaned servers, 'adopt' manages them like servers started in this session, 'kill' terminates them"),
+      serverId: z.string().optional().describe("ID of the orphaned server to adopt or kill (default: all orphaned servers)"),
+      force: z.boolean().optional().describe("Whether to kill with SIGKILL instead of SIGTERM (default: false)")
+    },
+    async ({ action, serverId, force = false }) => {
+      try {
+        const orphans = getOrphanedServers();
+        
+        if (action === 'list') {
+          if (orphans.length === 0) {
+            return {
+              content: [{ 
+                type: "text" as const, 
+                text: "There are no orphaned servers." 
+              }]
+            };
+          }
+          
+          let orphanList = `Found ${orphans.length} orphaned server(s):\n\n`;
+          for (const orphan of orphans) {
+            orphanList += `ID: ${orphan.serverId}\n`;
+            orphanList += `Name: ${orphan.name}\n`;
+            orphanList += `PID: ${orphan.pid}\n`;
+            orphanList += `Command: ${orphan.command}\n`;
+            orphanList += `Working directory: ${orphan.cwd}\n`;
+            orphanList += `Started: ${new Date(orphan.startTime).toLocaleString()}\n`;
+            orphanList += `Log file: ${orphan.logFile}\n\n`;
+          }
+          
+          return {
+            content: [{ 
+              type: "text" as const, 
+              text: orphanList 
+            }]
+          };
+        }
+        
+        const targets = serverId ? orphans.filter(orphan => orphan.serverId === serverId) : orphans;
+        if (targets.length === 0) {
+          return {
+            isError: serverId !== undefined,
+            content: [{ 
+              type: "text" as const, 
+              text: serverId ? `Orphaned server with ID ${serverId} not found.` : "There are no orphaned servers." 
+            }]
+          };
+        }
+        
+        const results: string[] = [];
+        
+        if (action === 'adopt') {
+          for (const orphan of targets) {
+            try {
+              adoptOrphanedServer(orphan.serverId);
+              await recordExecution({
+                tool: "manage-orphaned-servers",
+                command: `adopt ${orphan.pid}`,
+                cwd: orphan.cwd,
+                permission: null,
+                details: { serverId: orphan.serverId, pid: orphan.pid }
+              });
+              results.push(`Adopted ${orphan.serverId} (${orphan.name}, PID ${orphan.pid}).`);
+            } catch (error) {
+              results.push(`Failed to adopt ${orphan.serverId}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          }
+          
+          return {
+            content: [{ 
+              type: "text" as const, 
+              text: `${results.join('\n')}\n\nAdopted servers appear in list-servers and can be stopped with the stop-server tool. Their new output is not captured.` 
+            }]
+          };
+        }
+        
+        for (const orphan of targets) {
+          // Evaluate the permission policy
+          const killCommand = `kill -${force ? 'KILL' : 'TERM'} ${orphan.pid}`;
+          const permission = await checkPermission({
+            tool: "manage-orphaned-servers",
+            message: `Kill orphaned server: ${orphan.name} (PID: ${orphan.pid})${force ? ' with force' : ''}\nCommand: ${orphan.command}`,
+            command: orphan.command,
+            cwd: orphan.cwd
+          });
+          
+          if (!permission.allowed) {
+            await recordExecution({ tool: "manage-orphaned-servers", command: killCommand, cwd: orphan.cwd, permission, details: { serverId: orphan.serverId } });
+            results.push(`Not killing ${orphan.serverId} (${orphan.name}): ${describePermission(permission)}`);
+            continue;
+          }
+          
+          const killStartTime = Date.now();
+          const exited = await killOrphanedServer(orphan.serverId, force);
+          await recordExecution({
+            tool: "manage-orphaned-servers",
+            command: killCommand,
+            cwd: orphan.cwd,
+            permission,
+            outcome: exited ? 'success' : 'failure',
+            durationMs: Date.now() - killStartTime,
+            error: exited ? undefined : 'Process did not exit within the timeout',
+            details: { serverId: orphan.serverId, pid: orphan.pid }
+          });
+          results.push(exited
+            ? `Killed ${orphan.serverId} (${orphan.name}, PID ${orphan.pid}).`
+            : `${orphan.serverId} (${orphan.name}, PID ${orphan.pid}) did not exit within the timeout.${force ? '' : ' You may try again with the force option.'}`);
+        }
+        
+        return {
+          content: [{ 
+            type: "text" as const, 
+            text: results.join('\n') 
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{ 
+            type: "text" as const, 
+            text: `Error managing orphaned servers: ${errorMessage}` 
+          }]
+        };
+      }
+    }
+  );
 }
@@ -0,0 +1,327 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as path from "path";
+import * as fs from "fs/promises";
+import * as os from "node:os";
+import { runCommand, shellQuote } from "../utils/helpers.js";
+import { checkPermission, describePermission, permissionDeniedResponse } from "../utils/permissions.js";
+import { recordExecution } from "../utils/audit.js";
+import { describeNodeRuntime, getNodeRuntime } from "../utils/version-managers.js";
+import { ensureTestReporter, exactNamePattern, expandTestFiles, formatTestFailure, parseTestEvents, readLastTestRun, writeLastTestRun } from "../utils/test-runner.js";
+import { computeCoverage, formatLineRanges, formatPercentage } from "../utils/coverage.js";
+
+export function registerTestTools(server: McpServer): void {
+  // Tool to run tests with the Node.js test runner and summarize the results
+  server.tool(
+    "run-tests",
+    "Run tests with the Node.js test runner (node --test) and return a structured summary with each failure's location, assertion diff and stack",
+    {
+      cwd: z.string().describe("Project directory to run the tests in"),
+      files: z.array(z.string()).optional().describe("Test files or glob patterns relative to cwd, like test/**/*.test.js (default: the test runner's own discovery)"),
+      namePatterns: z.array(z.string()).optional().describe("Only run tests whose name matches one of these regular expressions"),
+      rerunFailed: z.boolean().optional().describe("Only rerun the tests that failed in the previous run in this directory (default: false)"),
+      nodeArgs: z.array(z.string()).optional().describe("Extra arguments for the Node.js executable, like --import tsx"),
+      timeout: z.number().optional().describe("Timeout in milliseconds after which the test run is killed (default: 300000)")
+    },
+    async ({ cwd, files = [], namePatterns = [], rerunFailed = false, nodeArgs = [], timeout = 300000 }) => {
+      try {
+        const workingDir = path.resolve(cwd);
+        try {
+          await fs.access(workingDir);
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `Error: Directory not found at ${workingDir}`
+            }]
+          };
+        }
+
+        // Narrow the run down to the previous failures
+        let rerunNote = '';
+        if (rerunFailed) {
+          const lastRun = await readLastTestRun(workingDir);
+          if (!lastRun || lastRun.failures.length === 0) {
+            return {
+              content: [{
+                type: "text" as const,
+                text: lastRun
+                  ? `The previous test run in ${workingDir} (${lastRun.time}) had no failures; nothing to rerun.`
+                  : `No previous test run recorded for ${workingDir}; run the tests without rerunFailed first.`
+              }]
+            };
+          }
+          files = Array.from(new Set(lastRun.failures.map(failure => failure.file).filter((file): file is string => !!file)));
+          namePatterns = Array.from(new Set(lastRun.failures.map(failure => exactNamePattern(failure.name))));
+          rerunNote = `Rerunning ${lastRun.failures.length} test(s) that failed in the previous run (${lastRun.time}).\n`;
+        } else if (files.length > 0) {
+          files = await expandTestFiles(workingDir, files);
+          if (files.length === 0) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Error: No test files in ${workingDir} match the given patterns.`
+              }]
+            };
+          }
+        }
+
+        const testArgs = [...namePatterns.map(pattern => `--test-name-pattern=${pattern}`), ...files];
+        const command = ['node', ...nodeArgs, '--test', ...testArgs].map(shellQuote).join(' ');
+        const runtime = await getNodeRuntime(workingDir);
+
+        // Evaluate the permission policy
+        const permission = await checkPermission({
+          tool: "run-tests",
+          message: `${command} (in ${workingDir})`,
+          command,
+          cwd: workingDir
+        });
+
+        if (!permission.allowed) {
+          await recordExecution({ tool: "run-tests", command, cwd: workingDir, permission });
+          return permissionDeniedResponse(permission);
+        }
+
+        // The JSON reporter writes to a file, so test output on stdout cannot corrupt it
+        const reporterPath = await ensureTestReporter();
+        const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-node-tests-'));
+        const eventsPath = path.join(outputDir, 'events.jsonl');
+        const reporterArgs = [`--test-reporter=${reporterPath}`, `--test-reporter-destination=${eventsPath}`];
+        const execCommand = [runtime.node, ...nodeArgs, '--test', ...reporterArgs, ...testArgs].map(shellQuote).join(' ');
+
+        const result = await runCommand(execCommand, { cwd: workingDir, timeout, maxBuffer: 50 * 1024 * 1024, env: runtime.env });
+        let events = '';
+        try {
+          events = await fs.readFile(eventsPath, 'utf-8');
+        } catch (error) {
+          // The test runner did not start, e.g. because of an unsupported flag
+        } finally {
+          await fs.rm(outputDir, { recursive: true, force: true });
+        }
+
+        const summary = parseTestEvents(events);
+        await recordExecution({
+          tool: "run-tests",
+          command,
+          cwd: workingDir,
+          permission,
+          result,
+          nodeVersion: runtime.installation?.version,
+          details: { passed: summary.passed, failed: summary.failed, skipped: summary.skipped }
+        });
+
+        if (!events.trim()) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `The test runner produced no results.\nCommand: ${command}\n${describeNodeRuntime(runtime)}\nExit code: ${result.exitCode ?? result.signal}\n\nStandard Error:\n${result.stderr || '(empty)'}\n${result.stdout ? `\nStandard Output:\n${result.stdout}\n` : ''}\n${describePermission(permission)}`
+            }]
+          };
+        }
+        await writeLastTestRun(workingDir, summary);
+
+        // Build the report
+        const duration = summary.durationMs !== null ? ` in ${Math.round(summary.durationMs)}ms` : '';
+        let report = rerunNote;
+        report += `${summary.failed === 0 && result.exitCode === 0 ? 'PASSED' : 'FAILED'}: ${summary.tests} test(s)${duration}\n`;
+        report += `Passed: ${summary.passed}, failed: ${summary.failed}, cancelled: ${summary.cancelled}, skipped: ${summary.skipped}, todo: ${summary.todo}, suites: ${summary.suites}\n`;
+        report += `Command: ${command}\n${describeNodeRuntime(runtime)}\n`;
+        if (result.signal || (result.error && result.error.message.includes('timed out'))) {
+          report += `The test run was killed (${result.signal ?? 'timeout'}) after ${result.durationMs}ms; results are incomplete.\n`;
+        }
+
+        if (summary.failures.length > 0) {
+          report += `\nFailures:\n\n${summary.failures.map(failure => formatTestFailure(failure, workingDir)).join('\n')}`;
+          report += `\nRun again with rerunFailed: true to run only the ${summary.failures.length} failed test(s).\n`;
+        }
+
+        for (const [file, output] of summary.output) {
+          report += `\nOutput of ${path.relative(workingDir, file) || file}:\n${output.trimEnd()}\n`;
+        }
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${report}\n${describePermission(permission)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error running tests: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Tool to measure the code coverage of a test run or script
+  server.tool(
+    "run-with-coverage",
+    "Run the tests (node --test) or a script with V8 code coverage and report per-file line, branch and function coverage with uncovered lines, mapped to original sources through source maps",
+    {
+      cwd: z.string().describe("Project directory to run in; only files under it are reported"),
+      scriptPath: z.string().optional().describe("Script to run instead of the test runner"),
+      args: z.array(z.string()).optional().describe("Arguments to pass to the script"),
+      files: z.array(z.string()).optional().describe("Test files or glob patterns relative to cwd, when running the test runner"),
+      namePatterns: z.array(z.string()).optional().describe("Only run tests whose name matches one of these regular expressions"),
+      nodeArgs: z.array(z.string()).optional().describe("Extra arguments for the Node.js executable, like --import tsx"),
+      include: z.array(z.string()).optional().describe("Only report source files matching these globs relative to cwd, like src/**"),
+      exclude: z.array(z.string()).optional().describe("Do not report source files matching these globs (default: node_modules and test files)"),
+      timeout: z.number().optional().describe("Timeout in milliseconds after which the run is killed (default: 300000)")
+    },
+    async ({ cwd, scriptPath, args = [], files = [], namePatterns = [], nodeArgs = [], include = [], exclude, timeout = 300000 }) => {
+      try {
+        const workingDir = path.resolve(cwd);
+        try {
+          await fs.access(workingDir);
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `Error: Directory not found at ${workingDir}`
+            }]
+          };
+        }
+
+        let runArgs: string[];
+        if (scriptPath) {
+          const absPath = path.resolve(workingDir, scriptPath);
+          try {
+            await fs.access(absPath);
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{
+                type: "text" as const,
+                text: `Error: Script not found at ${absPath}`
+              }]
+            };
+          }
+          runArgs = [absPath, ...args];
+        } else {
+          if (files.length > 0) {
+            files = await expandTestFiles(workingDir, files);
+            if (files.length === 0) {
+              return {
+                isError: true,
+                content: [{
+                  type: "text" as const,
+                  text: `Error: No test files in ${workingDir} match the given patterns.`
+                }]
+              };
+            }
+          }
+          runArgs = ['--test', ...namePatterns.map(pattern => `--test-name-pattern=${pattern}`), ...files];
+        }
+        const command = ['node', ...nodeArgs, ...runArgs].map(shellQuote).join(' ');
+        const runtime = await getNodeRuntime(workingDir);
+
+        // Evaluate the permission policy
+        const permission = await checkPermission({
+          tool: "run-with-coverage",
+          message: `${command} (in ${workingDir}) with coverage`,
+          command,
+          scriptPath: scriptPath ? path.resolve(workingDir, scriptPath) : undefined,
+          cwd: workingDir
+        });
+
+        if (!permission.allowed) {
+          await recordExecution({ tool: "run-with-coverage", command, cwd: workingDir, permission });
+          return permissionDeniedResponse(permission);
+        }
+
+        // Every process of the run, including test files run in subprocesses, writes its coverage to this directory
+        const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-node-coverage-'));
+        const coverageDir = path.join(outputDir, 'coverage');
+        const eventsPath = path.join(outputDir, 'events.jsonl');
+        const reporterArgs = scriptPath ? [] : [`--test-reporter=${await ensureTestReporter()}`, `--test-reporter-destination=${eventsPath}`];
+        const execCommand = [runtime.node, ...nodeArgs, ...reporterArgs, ...runArgs].map(shellQuote).join(' ');
+
+        let result;
+        let coverage;
+        let runSummary: string;
+        try {
+          result = await runCommand(execCommand, {
+            cwd: workingDir,
+            timeout,
+            maxBuffer: 50 * 1024 * 1024,
+            env: { ...runtime.env, NODE_V8_COVERAGE: coverageDir }
+          });
+
+          if (scriptPath) {
+            runSummary = `Script exited with ${result.signal ? `signal ${result.signal}` : `code ${result.exitCode}`}`;
+          } else {
+            let events = '';
+            try {
+              events = await fs.readFile(eventsPath, 'utf-8');
+            } catch (error) {
+              // The test runner did not start
+            }
+            const tests = parseTestEvents(events);
+            runSummary = `Tests: ${tests.passed} passed, ${tests.failed} failed, ${tests.skipped} skipped (use run-tests for failure details)`;
+          }
+
+          try {
+            coverage = await computeCoverage(coverageDir, workingDir, include, exclude);
+          } catch (error) {
+            coverage = null;
+          }
+        } finally {
+          await fs.rm(outputDir, { recursive: true, force: true });
+        }
+
+        await recordExecution({ tool: "run-with-coverage", command, cwd: workingDir, permission, result, nodeVersion: runtime.installation?.version });
+
+        if (!coverage || coverage.length === 0) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `No coverage was recorded for files under ${workingDir}${include.length > 0 ? ` matching ${include.join(', ')}` : ''}.\n${runSummary}\nCommand: ${command}\n${describeNodeRuntime(runtime)}\n${result.stderr ? `\nStandard Error:\n${result.stderr}\n` : ''}\n${describePermission(permission)}`
+            }]
+          };
+        }
+
+        // Totals over all reported files
+        const total = (key: 'lines' | 'branches' | 'functions') => coverage!.reduce(
+          (sum, file) => ({ covered: sum.covered + file[key].covered, total: sum.total + file[key].total }),
+          { covered: 0, total: 0 }
+        );
+
+        let report = `${runSummary}\nCommand: ${command}\n${describeNodeRuntime(runtime)}\n\n`;
+        report += `Coverage of ${coverage.length} file(s): lines ${formatPercentage(total('lines'))}, branches ${formatPercentage(total('branches'))}, functions ${formatPercentage(total('functions'))}\n\n`;
+        for (const file of coverage) {
+          report += `${path.relative(workingDir, file.file)}: lines ${formatPercentage(file.lines)}, branches ${formatPercentage(file.branches)}, functions ${formatPercentage(file.functions)}\n`;
+          if (file.uncoveredLines.length > 0) {
+            report += `  Uncovered lines: ${formatLineRanges(file.uncoveredLines)}\n`;
+          }
+        }
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${report}\n${describePermission(permission)}`
+          }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error measuring coverage: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+}
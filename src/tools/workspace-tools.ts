@@ -0,0 +1,290 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as path from "path";
+import { runCommand, shellQuote } from "../utils/helpers.js";
+import { checkPermission, describePermission, permissionDeniedResponse } from "../utils/permissions.js";
+import { recordExecution } from "../utils/audit.js";
+import { NodeRuntime, getNodeRuntime } from "../utils/version-managers.js";
+import { PackageManagerCommand, detectPackageManager, getPackageManagerCommand, packageManagerEnv, runScriptArgs } from "../utils/package-managers.js";
+import { Workspace, WorkspacePackage, dependenciesAmong, filterWorkspacePackages, findWorkspace, sortTopologically, withDependencies } from "../utils/workspaces.js";
+import { CommandResult } from "../types/index.js";
+
+// Outcome of the script in one package of a workspace run
+interface PackageRun {
+  pkg: WorkspacePackage;
+  result?: CommandResult;
+  // Why the package did not run
+  skipped?: string;
+}
+
+// Workspace containing a directory, or an error response when there is none
+async function loadWorkspaceFor(directory: string): Promise<Workspace | string> {
+  const workspace = await findWorkspace(path.resolve(directory));
+  if (!workspace) {
+    return `Error: ${path.resolve(directory)} is not part of a workspace. Workspaces are declared with "workspaces" in package.json or with pnpm-workspace.yaml.`;
+  }
+  return workspace;
+}
+
+function describeWorkspacePackages(workspace: Workspace): string {
+  let text = `Workspace root: ${workspace.root}\nPackages from ${workspace.source}: ${workspace.patterns.join(', ')}\n\n`;
+  if (workspace.packages.length === 0) {
+    return text + 'No packages match the workspace patterns.';
+  }
+
+  text += `Packages (${workspace.packages.length}):\n`;
+  for (const pkg of workspace.packages) {
+    const scripts = Object.keys(pkg.scripts);
+    text += `\n${pkg.name}${pkg.version ? `@${pkg.version}` : ''} (${pkg.relativeDir})\n`;
+    text += `  Scripts: ${scripts.length > 0 ? scripts.join(', ') : '(none)'}\n`;
+    text += `  Depends on: ${pkg.dependencies.length > 0 ? pkg.dependencies.join(', ') : '(no workspace packages)'}\n`;
+  }
+
+  // Packages depending on each package, the other direction of the graph
+  const dependents = new Map<string, string[]>();
+  for (const pkg of workspace.packages) {
+    for (const name of pkg.dependencies) {
+      dependents.set(name, [...(dependents.get(name) ?? []), pkg.name]);
+    }
+  }
+  text += '\nDependency graph:\n';
+  for (const pkg of workspace.packages) {
+    const usedBy = dependents.get(pkg.name);
+    text += `  ${pkg.name}${pkg.dependencies.length > 0 ? ` -> ${pkg.dependencies.join(', ')}` : ''}${usedBy ? ` (used by ${usedBy.join(', ')})` : ''}\n`;
+  }
+
+  try {
+    text += `\nTopological order: ${sortTopologically(workspace.packages).map(pkg => pkg.name).join(', ')}`;
+  } catch (error) {
+    text += `\n${error instanceof Error ? error.message : String(error)}`;
+  }
+  return text;
+}
+
+/**
+ * Run packages as soon as the packages they depend on have finished, at most
+ * `concurrency` at a time. Dependencies are followed through the packages of
+ * the workspace that do not run. Packages whose dependencies failed or were
+ * skipped are skipped too. `packages` must be sorted topologically.
+ */
+async function runInTopologicalOrder(
+  packages: WorkspacePackage[],
+  workspacePackages: WorkspacePackage[],
+  concurrency: number,
+  run: (pkg: WorkspacePackage) => Promise<CommandResult>
+): Promise<PackageRun[]> {
+  const runs = new Map<string, PackageRun>();
+  const finished = new Map<string, Promise<PackageRun>>();
+  const selected = new Set(packages.map(pkg => pkg.name));
+  let running = 0;
+  const waiting: Array<() => void> = [];
+
+  // A finishing package hands its slot directly to the next waiting one
+  const acquire = async () => {
+    if (running < concurrency) {
+      running++;
+      return;
+    }
+    await new Promise<void>(resolve => waiting.push(resolve));
+  };
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      running--;
+    }
+  };
+
+  // Packages come after their dependencies, so every dependency already has a promise
+  for (const pkg of packages) {
+    const dependencies = dependenciesAmong(workspacePackages, pkg, selected).map(name => finished.get(name)!);
+    finished.set(pkg.name, (async () => {
+      const failed = (await Promise.all(dependencies)).filter(dependency => dependency.skipped || dependency.result?.exitCode !== 0);
+      if (failed.length > 0) {
+        const packageRun = { pkg, skipped: `dependency ${failed.map(dependency => dependency.pkg.name).join(', ')} did not succeed` };
+        runs.set(pkg.name, packageRun);
+        return packageRun;
+      }
+      await acquire();
+      try {
+        const packageRun = { pkg, result: await run(pkg) };
+        runs.set(pkg.name, packageRun);
+        return packageRun;
+      } finally {
+        release();
+      }
+    })());
+  }
+  await Promise.all(finished.values());
+  return packages.map(pkg => runs.get(pkg.name)!);
+}
+
+function describeOutcome(packageRun: PackageRun): string {
+  if (packageRun.skipped) return 'skipped';
+  const result = packageRun.result!;
+  if (result.signal) return `signal ${result.signal}`;
+  if (result.exitCode === null) return result.error?.message.includes('timed out') ? 'timeout' : 'error';
+  return result.exitCode === 0 ? 'ok' : `exit ${result.exitCode}`;
+}
+
+export function registerWorkspaceTools(server: McpServer): void {
+  // Tool to list the packages of a workspace
+  server.tool(
+    "list-workspaces",
+    "List the packages of an npm, yarn or pnpm workspace (monorepo) with their paths, versions, scripts and the dependencies between them",
+    {
+      directory: z.string().describe("Workspace root, or any directory inside the workspace")
+    },
+    async ({ directory }) => {
+      try {
+        const workspace = await loadWorkspaceFor(directory);
+        if (typeof workspace === 'string') {
+          return {
+            isError: true,
+            content: [{ type: "text" as const, text: workspace }]
+          };
+        }
+        return {
+          content: [{ type: "text" as const, text: describeWorkspacePackages(workspace) }]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error listing workspace packages: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+
+  // Tool to run a script in every package of a workspace
+  server.tool(
+    "run-workspace-script",
+    "Run a package.json script in all or selected packages of a workspace, in dependency order with configurable concurrency, and return the result of every package",
+    {
+      directory: z.string().describe("Workspace root, or any directory inside the workspace"),
+      scriptName: z.string().describe("Name of the script to run; packages without it are skipped"),
+      filter: z.array(z.string()).optional().describe("Package names or directories to run in, as glob patterns like '@scope/*' or 'apps/*'; a leading ! excludes packages (default: all packages)"),
+      args: z.array(z.string()).optional().describe("Optional arguments to pass to the script"),
+      concurrency: z.number().int().min(1).optional().describe("Maximum number of packages running at the same time (default: 4)"),
+      nodeVersion: z.string().optional().describe("Node.js version for this call only, like '20' or 'lts/*', overriding the selected version and the versions the packages pin"),
+      timeout: z.number().optional().describe("Timeout in milliseconds after which the script of a package is killed (default: 60000)")
+    },
+    async ({ directory, scriptName, filter = [], args = [], concurrency = 4, nodeVersion, timeout = 60000 }) => {
+      try {
+        const workspace = await loadWorkspaceFor(directory);
+        if (typeof workspace === 'string') {
+          return {
+            isError: true,
+            content: [{ type: "text" as const, text: workspace }]
+          };
+        }
+
+        const selected = filterWorkspacePackages(workspace.packages, filter);
+        const withScript = selected.filter(pkg => pkg.scripts[scriptName] !== undefined);
+        if (withScript.length === 0) {
+          return {
+            isError: true,
+            content: [{
+              type: "text" as const,
+              text: `Error: None of the ${selected.length} selected workspace package(s) has a '${scriptName}' script`
+            }]
+          };
+        }
+        // Sort by the whole graph, so packages without the script still order the ones depending on them
+        const running = new Set(withScript.map(pkg => pkg.name));
+        const ordered = sortTopologically(withDependencies(workspace.packages, withScript)).filter(pkg => running.has(pkg.name));
+
+        // Resolve the Node.js version and package manager command of every package before asking
+        const packageManager = await detectPackageManager(workspace.root);
+        const commands = new Map<string, { runtime: NodeRuntime, managerCommand: PackageManagerCommand }>();
+        for (const pkg of ordered) {
+          const runtime = await getNodeRuntime(pkg.dir, nodeVersion);
+          commands.set(pkg.name, { runtime, managerCommand: await getPackageManagerCommand(packageManager, runtime) });
+        }
+
+        const scriptArgs = runScriptArgs(packageManager, scriptName, args);
+        const command = [packageManager.name, ...scriptArgs].map(shellQuote).join(' ');
+
+        // Evaluate the permission policy once for the whole run
+        const permission = await checkPermission({
+          tool: "run-workspace-script",
+          message: `${command} in ${ordered.length} workspace package(s) of ${workspace.root}: ${ordered.map(pkg => pkg.name).join(', ')}`,
+          command,
+          cwd: workspace.root,
+          scriptName
+        });
+
+        if (!permission.allowed) {
+          await recordExecution({ tool: "run-workspace-script", command, cwd: workspace.root, permission, details: { packages: ordered.map(pkg => pkg.name) } });
+          return permissionDeniedResponse(permission);
+        }
+
+        const runs = await runInTopologicalOrder(ordered, workspace.packages, concurrency, async pkg => {
+          const { runtime, managerCommand } = commands.get(pkg.name)!;
+          const result = await runCommand([...managerCommand.argv, ...scriptArgs].map(shellQuote).join(' '), {
+            cwd: pkg.dir,
+            timeout,
+            env: packageManagerEnv(runtime),
+            maxBuffer: 10 * 1024 * 1024
+          });
+          await recordExecution({ tool: "run-workspace-script", command, cwd: pkg.dir, permission, result, nodeVersion: runtime.installation?.version, details: { package: pkg.name } });
+          return result;
+        });
+
+        const nameWidth = Math.max(7, ...runs.map(run => run.pkg.name.length));
+        let text = `Command: ${command}\nWorkspace root: ${workspace.root}\nPackage manager: ${packageManager.name}, from ${packageManager.source}\n\n`;
+        text += `${'Package'.padEnd(nameWidth)}  ${'Result'.padEnd(10)}  ${'Time'.padStart(8)}  Node.js\n`;
+        for (const run of runs) {
+          const { runtime } = commands.get(run.pkg.name)!;
+          const time = run.result ? `${run.result.durationMs}ms` : '-';
+          text += `${run.pkg.name.padEnd(nameWidth)}  ${describeOutcome(run).padEnd(10)}  ${time.padStart(8)}  ${runtime.installation?.version ?? 'system'}\n`;
+        }
+
+        const skipped = selected.filter(pkg => pkg.scripts[scriptName] === undefined);
+        if (skipped.length > 0) {
+          text += `\nWithout a '${scriptName}' script: ${skipped.map(pkg => pkg.name).join(', ')}\n`;
+        }
+
+        for (const run of runs) {
+          text += `\n=== ${run.pkg.name} (${run.pkg.relativeDir}) ===\n`;
+          if (run.skipped) {
+            text += `Skipped: ${run.skipped}\n`;
+            continue;
+          }
+          const result = run.result!;
+          text += result.stdout.trimEnd() ? `${result.stdout.trimEnd()}\n` : '(no output)\n';
+          if (result.stderr.trim()) {
+            text += `Standard Error:\n${result.stderr.trimEnd()}\n`;
+          }
+          if (result.error && result.exitCode === null) {
+            text += `Error: ${result.error.message}\n`;
+          }
+        }
+
+        const failed = runs.filter(run => run.skipped || run.result!.exitCode !== 0);
+        text += `\n${runs.length - failed.length} of ${runs.length} package(s) succeeded`;
+        return {
+          isError: failed.length > 0,
+          content: [
+            { type: "text" as const, text },
+            { type: "text" as const, text: describePermission(permission) }
+          ]
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `Error running the workspace script: ${errorMessage}`
+          }]
+        };
+      }
+    }
+  );
+}
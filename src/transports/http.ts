@@ -0,0 +1,204 @@
+import * as http from "node:http";
+import { randomUUID } from "node:crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Options for the HTTP transport
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  // Endpoint for the Streamable HTTP transport
+  path: string;
+  // Endpoints for the legacy HTTP+SSE transport
+  ssePath: string;
+  messagesPath: string;
+}
+
+// A connected client session
+interface HttpSession {
+  kind: "streamable-http" | "sse";
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  createdAt: Date;
+}
+
+// Handle returned to the caller so the HTTP server can be shut down
+export interface HttpTransportHandle {
+  httpServer: http.Server;
+  sessions: Map<string, HttpSession>;
+  close(): Promise<void>;
+}
+
+// Send a JSON-RPC error response that is not tied to any session
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null
+  }));
+}
+
+// Read and parse a JSON request body
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const body = Buffer.concat(chunks).toString("utf-8");
+  return body.length > 0 ? JSON.parse(body) : undefined;
+}
+
+/**
+ * Serve MCP over HTTP. Streamable HTTP clients use `options.path`, legacy SSE
+ * clients open a stream on `options.ssePath` and post to `options.messagesPath`.
+ * Every session gets its own McpServer instance created by `createServer`.
+ */
+export async function startHttpTransport(
+  createServer: () => McpServer,
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, HttpSession>();
+
+  // Drop a session and close its server
+  async function closeSession(sessionId: string): Promise<void> {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(`Error closing session ${sessionId}:`, error);
+    }
+  }
+
+  // Handle requests on the Streamable HTTP endpoint
+  async function handleStreamableRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    // Route requests for an existing session to its transport
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || session.kind !== "streamable-http") {
+        sendJsonRpcError(res, 404, `Session ${sessionId} not found`);
+        return;
+      }
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    // Only an initialize request may open a new session
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Bad Request: no valid session ID provided");
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, {
+          kind: "streamable-http",
+          transport,
+          server,
+          createdAt: new Date()
+        });
+        console.error(`Streamable HTTP session started: ${newSessionId} (${sessions.size} active)`);
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.has(transport.sessionId)) {
+        sessions.delete(transport.sessionId);
+        console.error(`Streamable HTTP session closed: ${transport.sessionId} (${sessions.size} active)`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  // Open a legacy SSE stream
+  async function handleSseStream(res: http.ServerResponse): Promise<void> {
+    const server = createServer();
+    const transport = new SSEServerTransport(options.messagesPath, res);
+    const sessionId = transport.sessionId;
+
+    sessions.set(sessionId, {
+      kind: "sse",
+      transport,
+      server,
+      createdAt: new Date()
+    });
+    console.error(`SSE session started: ${sessionId} (${sessions.size} active)`);
+
+    res.on("close", () => {
+      if (sessions.has(sessionId)) {
+        closeSession(sessionId).then(() => {
+          console.error(`SSE session closed: ${sessionId} (${sessions.size} active)`);
+        });
+      }
+    });
+
+    await server.connect(transport);
+  }
+
+  // Deliver a message posted by a legacy SSE client
+  async function handleSseMessage(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get("sessionId");
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== "sse") {
+      sendJsonRpcError(res, 404, `Session ${sessionId} not found`);
+      return;
+    }
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res);
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+      if (url.pathname === options.path) {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === options.ssePath && req.method === "GET") {
+        await handleSseStream(res);
+      } else if (url.pathname === options.messagesPath && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404, { "Content-Type": "text/plain" });
+        res.end("Not Found");
+      }
+    } catch (error) {
+      console.error("Error handling HTTP request:", error);
+      if (!res.headersSent) {
+        const message = error instanceof SyntaxError ? "Parse error: invalid JSON body" : "Internal server error";
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, message);
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.removeListener("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    httpServer,
+    sessions,
+    async close() {
+      // Close every session first so open SSE streams don't keep the server alive
+      await Promise.all(Array.from(sessions.keys()).map(closeSession));
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  };
+}
@@ -1,5 +1,6 @@
 import { ChildProcess } from "child_process";
 import { ExecOptions } from "child_process";
+import { FSWatcher } from "fs";
 
 // Define our extended options interface
 export interface ExecOptionsWithInput extends ExecOptions {
@@ -8,13 +9,193 @@ export interface ExecOptionsWithInput extends ExecOptions {
   timeout?: number;
 }
 
+// Result of running a command with runCommand
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  // Exit code, or null if the process was killed by a signal or could not be started
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  durationMs: number;
+  error?: Error;
+}
+
+// When a managed server should be restarted after it exits
+export type RestartPolicy = 'never' | 'on-failure' | 'always';
+
+// A restart of a managed server
+export interface RestartEvent {
+  time: Date;
+  // Why the server was restarted: it crashed, exited cleanly, or watched files changed
+  reason: 'crash' | 'exit' | 'watch';
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  delayMs: number;
+  changedFile?: string;
+}
+
+// Where a log line of a managed server came from; 'mcp-node' marks notes written by mcp-node itself
+export type LogStream = 'stdout' | 'stderr' | 'mcp-node';
+
+// A single line of output of a managed server
+export interface LogLine {
+  // Line number in the server's full log history, starting at 0
+  seq: number;
+  time: Date;
+  stream: LogStream;
+  text: string;
+}
+
+// Resource usage of a managed server at one point in time, sampled from /proc
+export interface ResourceSample {
+  time: Date;
+  // Sampled process; changes when the server restarts
+  pid: number;
+  // CPU usage since the previous sample of the same process, in percent of one core; null for the first sample
+  cpuPercent: number | null;
+  rssBytes: number;
+  // Anonymous memory, which holds the V8 heap and native allocations; null if the kernel does not report it
+  anonymousBytes: number | null;
+  openFds: number;
+  // Number of descendant processes, e.g. cluster workers
+  childCount: number;
+}
+
+// How to (re)spawn a managed server
+export interface ServerLaunchConfig {
+  file: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+}
+
 // Interface for server information
 export interface ServerInfo {
-  process: ChildProcess;
+  // null for servers adopted from a previous mcp-node session, whose output pipes are gone
+  process: ChildProcess | null;
   name: string;
   command: string;
+  cwd: string;
   pid: number;
   startTime: Date;
-  logs: string[];
+  // Most recent log lines; the full history is in the log files
+  logs: LogLine[];
+  // null while the process is running; 128 + signal number if it was killed by a signal
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  launch: ServerLaunchConfig;
+  restartPolicy: RestartPolicy;
+  maxRestarts: number;
+  restartDelay: number;
+  restartCount: number;
+  // Automatic restarts since the server last ran stably; limited by maxRestarts
+  consecutiveRestarts: number;
+  restartHistory: RestartEvent[];
+  restartTimer: NodeJS.Timeout | null;
+  nextRestartAt: Date | null;
+  // Set once the server has been stopped on purpose so it is not restarted
+  stopRequested: boolean;
+  // Set while the process is replaced because watched files changed, so its exit is not handled as a crash
+  restartingForChange: boolean;
+  watchPatterns: string[];
+  watchers: FSWatcher[];
+  // Whether the current process was started by a previous mcp-node session and re-adopted
+  adopted: boolean;
+  // Polls adopted processes, which cannot be waited on, for their exit
+  exitPoller: NodeJS.Timeout | null;
+  // File the server output is appended to, so it survives mcp-node restarts; rotated by size
+  logFile: string;
+  logFd: number | null;
+  logSize: number;
+  // Number of log lines written so far, i.e. the seq of the next line
+  lineCount: number;
+  // Output after the last newline, per stream, until the line is complete
+  partialLines: { stdout: string, stderr: string };
+  // Recent resource usage samples, oldest first
+  metrics: ResourceSample[];
+  // Port of the Node.js inspector on 127.0.0.1, if the server was started with one
+  inspectPort: number | null;
+}
+
+// A managed server as recorded in the persisted server registry
+export interface PersistedServer {
+  serverId: string;
+  // PID of the mcp-node process that manages the server
+  ownerPid: number;
+  pid: number;
+  name: string;
+  command: string;
+  cwd: string;
+  startTime: string;
+  logFile: string;
+  launch: { file: string, args: string[] };
+  restartPolicy: RestartPolicy;
+  maxRestarts: number;
+  restartDelay: number;
+  watchPatterns: string[];
+  // Missing in registries written by older versions
+  inspectPort?: number | null;
+}
+
+// Action a permission rule resolves to
+export type PermissionAction = 'allow' | 'deny' | 'ask';
+
+// A single rule of the permission policy. Every field that is set must match
+// the request; a field holds one pattern or a list of alternative patterns.
+export interface PermissionRule {
+  name?: string;
+  action: PermissionAction;
+  tool?: string | string[];
+  command?: string | string[];
+  scriptPath?: string | string[];
+  cwd?: string | string[];
+  scriptName?: string | string[];
+  packageName?: string | string[];
+}
+
+// Policy file contents
+export interface PermissionPolicy {
+  default: PermissionAction;
+  rules: PermissionRule[];
+}
+
+// What a tool is about to do, as seen by the permission policy
+export interface PermissionRequest {
+  tool: string;
+  // Human readable description shown in the permission prompt
+  message: string;
+  command?: string;
+  scriptPath?: string;
+  cwd?: string;
+  scriptName?: string;
+  packageName?: string;
+}
+
+// Outcome of evaluating a permission request
+export interface PermissionDecision {
+  allowed: boolean;
+  action: PermissionAction;
+  // Which rule decided, e.g. 'rule "npm-test"' or 'default policy'
+  source: string;
+  // Whether the user was prompted to confirm
+  prompted: boolean;
+}
+
+// Outcome of an audited tool invocation
+export type AuditOutcome = 'success' | 'failure' | 'denied' | 'error';
+
+// A single line of the audit log
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  command: string;
+  cwd: string | null;
+  nodeVersion: string;
+  permission: PermissionDecision | null;
+  outcome: AuditOutcome;
   exitCode: number | null;
+  durationMs: number | null;
+  stdout?: string;
+  stderr?: string;
+  error?: string;
+  details?: Record<string, unknown>;
 }
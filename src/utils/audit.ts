@@ -0,0 +1,159 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { getSelectedNodeVersion, getStateDir } from "./helpers.js";
+import { AuditEntry, AuditOutcome, CommandResult, PermissionDecision } from "../types/index.js";
+
+// Maximum number of characters of stdout/stderr kept per entry
+const MAX_OUTPUT_LENGTH = 2000;
+
+// Path of the audit log (private), resolved lazily so the state dir can be configured first
+let _auditLogPath: string | null = null;
+
+// Appends are chained so entries land in the file in the order they were recorded
+let _writeQueue: Promise<void> = Promise.resolve();
+
+// Set the audit log location, overriding MCP_NODE_AUDIT_LOG
+export function setAuditLogPath(auditLogPath: string): void {
+  _auditLogPath = path.resolve(auditLogPath);
+}
+
+// Get the audit log location
+export function getAuditLogPath(): string {
+  if (!_auditLogPath) {
+    _auditLogPath = process.env.MCP_NODE_AUDIT_LOG
+      ? path.resolve(process.env.MCP_NODE_AUDIT_LOG)
+      : path.join(getStateDir(), 'audit.jsonl');
+  }
+  return _auditLogPath;
+}
+
+// Keep the beginning of long output and note how much was dropped
+function truncateOutput(output: string): string | undefined {
+  if (!output) return undefined;
+  if (output.length <= MAX_OUTPUT_LENGTH) return output;
+  return `${output.slice(0, MAX_OUTPUT_LENGTH)}… [${output.length - MAX_OUTPUT_LENGTH} more characters truncated]`;
+}
+
+// Append an entry to the audit log. Failures are logged but never break the tool call.
+export function appendAuditEntry(entry: AuditEntry): Promise<void> {
+  const auditLogPath = getAuditLogPath();
+  _writeQueue = _writeQueue.then(async () => {
+    try {
+      await fs.promises.mkdir(path.dirname(auditLogPath), { recursive: true });
+      await fs.promises.appendFile(auditLogPath, JSON.stringify(entry) + '\n', 'utf-8');
+    } catch (error) {
+      console.error(`Failed to write audit log ${auditLogPath}:`, error);
+    }
+  });
+  return _writeQueue;
+}
+
+// Details of a tool invocation to record in the audit log
+export interface AuditRecord {
+  tool: string;
+  command: string;
+  cwd?: string | null;
+  permission: PermissionDecision | null;
+  result?: CommandResult;
+  outcome?: AuditOutcome;
+  exitCode?: number | null;
+  durationMs?: number | null;
+  error?: string;
+  // Node.js version the command ran with, defaulting to the selected one
+  nodeVersion?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Record a tool invocation. When a command result is given, its exit code,
+ * duration and (truncated) output are taken from it.
+ */
+export function recordExecution(record: AuditRecord): Promise<void> {
+  const { result } = record;
+  let outcome = record.outcome;
+  if (!outcome) {
+    if (record.permission && !record.permission.allowed) {
+      outcome = 'denied';
+    } else if (result) {
+      outcome = result.error ? 'failure' : 'success';
+    } else {
+      outcome = record.error ? 'error' : 'success';
+    }
+  }
+
+  return appendAuditEntry({
+    timestamp: new Date().toISOString(),
+    tool: record.tool,
+    command: record.command,
+    cwd: record.cwd ?? null,
+    nodeVersion: record.nodeVersion ?? (getSelectedNodeVersion() || 'system'),
+    permission: record.permission,
+    outcome,
+    exitCode: result ? result.exitCode : (record.exitCode ?? null),
+    durationMs: result ? result.durationMs : (record.durationMs ?? null),
+    stdout: result ? truncateOutput(result.stdout) : undefined,
+    stderr: result ? truncateOutput(result.stderr) : undefined,
+    error: record.error ?? result?.error?.message,
+    details: record.details
+  });
+}
+
+// Filters supported by queryAuditLog
+export interface AuditQuery {
+  since?: Date;
+  until?: Date;
+  tools?: string[];
+  outcomes?: AuditOutcome[];
+  limit?: number;
+}
+
+/**
+ * Read the audit log and return the most recent entries matching the query,
+ * oldest first. Malformed lines are skipped.
+ */
+export async function queryAuditLog(query: AuditQuery): Promise<{ entries: AuditEntry[], matched: number }> {
+  // Make sure pending writes are on disk before reading
+  await _writeQueue;
+
+  const auditLogPath = getAuditLogPath();
+  try {
+    await fs.promises.access(auditLogPath);
+  } catch (error) {
+    return { entries: [], matched: 0 };
+  }
+
+  const limit = query.limit ?? 50;
+  const entries: AuditEntry[] = [];
+  let matched = 0;
+
+  const lines = readline.createInterface({
+    input: fs.createReadStream(auditLogPath, 'utf-8'),
+    crlfDelay: Infinity
+  });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      continue;
+    }
+
+    const timestamp = new Date(entry.timestamp);
+    if (query.since && timestamp < query.since) continue;
+    if (query.until && timestamp > query.until) continue;
+    if (query.tools && query.tools.length > 0 && !query.tools.includes(entry.tool)) continue;
+    if (query.outcomes && query.outcomes.length > 0 && !query.outcomes.includes(entry.outcome)) continue;
+
+    matched++;
+    entries.push(entry);
+    if (entries.length > limit) {
+      entries.shift();
+    }
+  }
+
+  return { entries, matched };
+}
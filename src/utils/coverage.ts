@@ -0,0 +1,396 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { globToRegExp } from "./helpers.js";
+
+// Files reported by default are those under the project, minus dependencies and tests
+const DEFAULT_EXCLUDE = ['node_modules/**', '**/node_modules/**', 'test/**', 'tests/**', '**/*.test.*', '**/*.spec.*', '**/__tests__/**'];
+
+// A range of a V8 coverage report, in UTF-16 offsets of the script source
+interface V8Range {
+  startOffset: number;
+  endOffset: number;
+  count: number;
+}
+
+interface V8Function {
+  functionName: string;
+  ranges: V8Range[];
+  isBlockCoverage: boolean;
+}
+
+interface V8ScriptCoverage {
+  url: string;
+  functions: V8Function[];
+}
+
+// Source map recorded by Node.js next to the coverage, keyed by script URL
+interface SourceMapCacheEntry {
+  url?: string | null;
+  lineLengths?: number[];
+  data?: SourceMap;
+}
+
+interface SourceMap {
+  sources: string[];
+  sourceRoot?: string;
+  mappings: string;
+}
+
+// A decoded mapping from a generated column to a line of an original source
+interface MappingSegment {
+  column: number;
+  source: number;
+  line: number;
+}
+
+// Coverage of one source file
+export interface FileCoverage {
+  file: string;
+  lines: { covered: number, total: number };
+  branches: { covered: number, total: number };
+  functions: { covered: number, total: number };
+  // Uncovered line numbers, 1-based and sorted
+  uncoveredLines: number[];
+}
+
+// Hit counts collected for a file, before computing percentages
+interface FileHits {
+  lines: Map<number, number>;
+  // Keyed by position so the same function seen by several processes is counted once
+  functions: Map<string, number>;
+  branches: Map<string, number>;
+}
+
+// Base64 digits of source map VLQs
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Decode the mappings of a source map into segments per generated line
+function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  let source = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  for (const lineMappings of mappings.split(';')) {
+    const segments: MappingSegment[] = [];
+    let column = 0;
+    for (const segment of lineMappings.split(',')) {
+      if (!segment) continue;
+      const values: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of segment) {
+        const digit = BASE64.indexOf(char);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+          shift += 5;
+        } else {
+          values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+      column += values[0];
+      if (values.length >= 4) {
+        source += values[1];
+        originalLine += values[2];
+        originalColumn += values[3];
+        segments.push({ column, source, line: originalLine });
+      }
+    }
+    lines.push(segments.sort((a, b) => a.column - b.column));
+  }
+  return lines;
+}
+
+// Offsets at which each line of a script starts
+function lineStarts(lineLengths: number[]): number[] {
+  const starts: number[] = [];
+  let offset = 0;
+  for (const length of lineLengths) {
+    starts.push(offset);
+    offset += length + 1;
+  }
+  return starts;
+}
+
+// Line (0-based) containing an offset
+function lineOfOffset(starts: number[], offset: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * Execution count of every character of a script. Ranges are nested, so they
+ * are applied from the outermost to the innermost, each overriding its parent.
+ */
+function characterCounts(functions: V8Function[], length: number): Float64Array {
+  const counts = new Float64Array(length);
+  const ranges = functions.flatMap(fn => fn.ranges)
+    .sort((a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset);
+  for (const range of ranges) {
+    counts.fill(range.count, range.startOffset, Math.min(range.endOffset, length));
+  }
+  return counts;
+}
+
+// Number of functions enclosing every character of a script
+function functionDepths(functions: V8Function[], length: number): Uint16Array {
+  const depths = new Uint16Array(length);
+  const ranges = functions.map(fn => fn.ranges[0])
+    .sort((a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset);
+  for (const range of ranges) {
+    if (range.startOffset >= length) continue;
+    depths.fill(depths[range.startOffset] + 1, range.startOffset, Math.min(range.endOffset, length));
+  }
+  return depths;
+}
+
+// Read the V8 coverage files written to a NODE_V8_COVERAGE directory
+async function readCoverageDirectory(dir: string): Promise<{ scripts: V8ScriptCoverage[][], sourceMaps: Map<string, SourceMapCacheEntry> }> {
+  const scripts: V8ScriptCoverage[][] = [];
+  const sourceMaps = new Map<string, SourceMapCacheEntry>();
+  for (const name of await fs.readdir(dir)) {
+    if (!name.endsWith('.json')) continue;
+    try {
+      const content = JSON.parse(await fs.readFile(path.join(dir, name), 'utf-8'));
+      scripts.push(content.result ?? []);
+      for (const [url, entry] of Object.entries(content['source-map-cache'] ?? {})) {
+        sourceMaps.set(url, entry as SourceMapCacheEntry);
+      }
+    } catch (error) {
+      // A process killed while writing its coverage leaves a partial file
+    }
+  }
+  return { scripts, sourceMaps };
+}
+
+// Source map referenced by a sourceMappingURL comment of a file on disk, if any
+async function loadSourceMapComment(source: string, file: string): Promise<{ map: SourceMap, url: string } | null> {
+  const match = /\/\/[#@] sourceMappingURL=(\S+)\s*$/.exec(source.slice(-50000));
+  if (!match) return null;
+  try {
+    if (match[1].startsWith('data:')) {
+      const data = match[1].slice(match[1].indexOf(',') + 1);
+      const json = /;base64,/.test(match[1]) ? Buffer.from(data, 'base64').toString('utf-8') : decodeURIComponent(data);
+      return { map: JSON.parse(json), url: pathToFileURL(file).href };
+    }
+    const mapFile = path.resolve(path.dirname(file), match[1]);
+    return { map: JSON.parse(await fs.readFile(mapFile, 'utf-8')), url: pathToFileURL(mapFile).href };
+  } catch (error) {
+    return null;
+  }
+}
+
+// Hits of a file, created on first use
+function hitsFor(hits: Map<string, FileHits>, file: string): FileHits {
+  let fileHits = hits.get(file);
+  if (!fileHits) {
+    fileHits = { lines: new Map(), functions: new Map(), branches: new Map() };
+    hits.set(file, fileHits);
+  }
+  return fileHits;
+}
+
+// Add a count for a key, keeping the sum over all processes
+function addHit(map: Map<string | number, number>, key: string | number, count: number): void {
+  map.set(key, (map.get(key) ?? 0) + count);
+}
+
+// Whether a line holds code rather than whitespace or a comment
+function isCodeLine(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed !== '' && !trimmed.startsWith('//') && !trimmed.startsWith('/*') && !trimmed.startsWith('*');
+}
+
+/**
+ * Collect the hits of one script of one process. Scripts with a source map are
+ * attributed to their original sources, others to the script file itself.
+ */
+async function collectScriptHits(script: V8ScriptCoverage, sourceMaps: Map<string, SourceMapCacheEntry>, hits: Map<string, FileHits>): Promise<void> {
+  const file = fileURLToPath(script.url);
+  const cached = sourceMaps.get(script.url);
+
+  // Without the line lengths recorded by Node.js the source has to be read from disk
+  let source: string | null = null;
+  if (!cached?.lineLengths) {
+    try {
+      source = await fs.readFile(file, 'utf-8');
+    } catch (error) {
+      return;
+    }
+  }
+  const lineLengths = cached?.lineLengths ?? source!.split(/\n/).map(line => line.length);
+  const starts = lineStarts(lineLengths);
+  const length = starts[starts.length - 1] + lineLengths[lineLengths.length - 1];
+  const counts = characterCounts(script.functions, length);
+
+  let map: SourceMap | null = null;
+  let mapUrl = script.url;
+  if (cached?.data) {
+    map = cached.data;
+    mapUrl = cached.url && cached.url.startsWith('file:') ? cached.url : script.url;
+  } else if (source) {
+    const loaded = await loadSourceMapComment(source, file);
+    if (loaded) {
+      map = loaded.map;
+      mapUrl = loaded.url;
+    }
+  }
+
+  if (!map) {
+    const fileHits = hitsFor(hits, file);
+    const sourceLines = source?.split(/\n/);
+    lineLengths.forEach((lineLength, line) => {
+      const text = sourceLines?.[line];
+      if (text !== undefined ? !isCodeLine(text) : lineLength === 0) return;
+      // A line counts as executed when its first character was
+      const indent = text !== undefined ? text.length - text.trimStart().length : 0;
+      addHit(fileHits.lines, line + 1, counts[starts[line] + indent] ?? 0);
+    });
+    for (const fn of script.functions) {
+      const [range, ...blocks] = fn.ranges;
+      // The top-level function of the script is not a function of the source
+      if (range.startOffset !== 0 || fn.functionName !== '') {
+        addHit(fileHits.functions, `${range.startOffset}`, range.count);
+      }
+      if (fn.isBlockCoverage) {
+        for (const block of blocks) addHit(fileHits.branches, `${block.startOffset}-${block.endOffset}`, block.count);
+      }
+    }
+    return;
+  }
+
+  // Resolve the original sources relative to the source map
+  const sources = map.sources.map(sourcePath => {
+    const resolved = new URL((map!.sourceRoot ? map!.sourceRoot.replace(/\/?$/, '/') : '') + sourcePath, mapUrl);
+    return resolved.protocol === 'file:' ? fileURLToPath(resolved) : resolved.href;
+  });
+  const mappings = decodeMappings(map.mappings);
+
+  // Original location of a generated offset: the last segment at or before it on its line
+  const originalPosition = (offset: number): { file: string, line: number } | null => {
+    const line = lineOfOffset(starts, offset);
+    const column = offset - starts[line];
+    const segments = mappings[line] ?? [];
+    let found: MappingSegment | null = null;
+    for (const segment of segments) {
+      if (segment.column > column) break;
+      found = segment;
+    }
+    found ??= segments[0] ?? null;
+    return found ? { file: sources[found.source], line: found.line + 1 } : null;
+  };
+
+  // Each original line counts as executed when the first generated code mapped to it was.
+  // Code moved out of its function, like hoisted exports, is only used when nothing else maps to the line.
+  const depths = functionDepths(script.functions, length);
+  const lineHits = new Map<string, { depth: number, count: number }>();
+  mappings.forEach((segments, line) => {
+    for (const segment of segments) {
+      if (sources[segment.source] === undefined) continue;
+      const offset = starts[line] + segment.column;
+      const key = `${segment.source}:${segment.line}`;
+      const previous = lineHits.get(key);
+      if (!previous || depths[offset] > previous.depth) {
+        lineHits.set(key, { depth: depths[offset] ?? 0, count: counts[offset] ?? 0 });
+      }
+    }
+  });
+  for (const [key, { count }] of lineHits) {
+    const [sourceIndex, line] = key.split(':').map(Number);
+    addHit(hitsFor(hits, sources[sourceIndex]).lines, line + 1, count);
+  }
+
+  for (const fn of script.functions) {
+    const [range, ...blocks] = fn.ranges;
+    if (range.startOffset !== 0 || fn.functionName !== '') {
+      const position = originalPosition(range.startOffset);
+      if (position) addHit(hitsFor(hits, position.file).functions, `${position.line}:${fn.functionName}`, range.count);
+    }
+    if (fn.isBlockCoverage) {
+      for (const block of blocks) {
+        const position = originalPosition(block.startOffset);
+        if (position) addHit(hitsFor(hits, position.file).branches, `${position.line}:${block.startOffset}-${block.endOffset}`, block.count);
+      }
+    }
+  }
+}
+
+// Whether a reported file passes the include and exclude globs, matched against its path relative to cwd
+function isReported(file: string, cwd: string, include: RegExp[], exclude: RegExp[]): boolean {
+  if (!path.isAbsolute(file)) return false;
+  const relative = path.relative(cwd, file).split(path.sep).join('/');
+  if (relative.startsWith('../') || path.isAbsolute(relative)) return false;
+  if (include.length > 0 && !include.some(pattern => pattern.test(relative))) return false;
+  return !exclude.some(pattern => pattern.test(relative));
+}
+
+/**
+ * Compute per-file line, branch and function coverage from the V8 coverage
+ * written to `dir` by all processes of a run. Files are mapped back through
+ * source maps when Node.js recorded one or the file references one. Only files
+ * under `cwd` matching `include` (default: all) and not matching `exclude`
+ * (default: dependencies and test files) are reported.
+ */
+export async function computeCoverage(dir: string, cwd: string, include: string[] = [], exclude: string[] = DEFAULT_EXCLUDE): Promise<FileCoverage[]> {
+  const { scripts, sourceMaps } = await readCoverageDirectory(dir);
+  const includePatterns = include.map(pattern => globToRegExp(pattern.replace(/^\.\//, '')));
+  const excludePatterns = exclude.map(pattern => globToRegExp(pattern.replace(/^\.\//, '')));
+
+  const hits = new Map<string, FileHits>();
+  for (const processScripts of scripts) {
+    for (const script of processScripts) {
+      if (!script.url.startsWith('file:')) continue;
+      // Skip scripts that are neither reported nor possibly mapped to a reported source
+      const file = fileURLToPath(script.url);
+      if (!sourceMaps.has(script.url) && !isReported(file, cwd, includePatterns, excludePatterns)) continue;
+      if (file.split(path.sep).includes('node_modules')) continue;
+      await collectScriptHits(script, sourceMaps, hits);
+    }
+  }
+
+  const report: FileCoverage[] = [];
+  for (const [file, fileHits] of hits) {
+    if (!isReported(file, cwd, includePatterns, excludePatterns)) continue;
+    const count = (map: Map<string | number, number>) => ({
+      covered: Array.from(map.values()).filter(hitCount => hitCount > 0).length,
+      total: map.size
+    });
+    report.push({
+      file,
+      lines: count(fileHits.lines),
+      branches: count(fileHits.branches),
+      functions: count(fileHits.functions),
+      uncoveredLines: Array.from(fileHits.lines.entries())
+        .filter(([, hitCount]) => hitCount === 0)
+        .map(([line]) => line)
+        .sort((a, b) => a - b)
+    });
+  }
+  return report.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+// Compress sorted line numbers into ranges like "3-7, 12"
+export function formatLineRanges(lines: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const start = lines[i];
+    while (i + 1 < lines.length && lines[i + 1] === lines[i] + 1) i++;
+    ranges.push(start === lines[i] ? `${start}` : `${start}-${lines[i]}`);
+  }
+  return ranges.join(', ');
+}
+
+// Percentage of covered items; nothing to cover counts as fully covered
+export function formatPercentage({ covered, total }: { covered: number, total: number }): string {
+  const percentage = total === 0 ? 100 : (covered / total) * 100;
+  return `${percentage.toFixed(1)}% (${covered}/${total})`;
+}
@@ -0,0 +1,172 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { getStateDir } from "./helpers.js";
+
+// Preload that ends the profiled process after MCP_NODE_PROFILE_DURATION milliseconds.
+// process.exit() lets Node.js write the profile, which a kill signal would prevent.
+const DURATION_PRELOAD_SOURCE = `'use strict'
+const duration = Number(process.env.MCP_NODE_PROFILE_DURATION)
+if (duration > 0) {
+  setTimeout(() => process.exit(0), duration).unref()
+}
+`;
+
+// Pseudo-functions V8 uses for time outside JavaScript
+const IDLE_FUNCTIONS = new Set(['(idle)']);
+const GC_FUNCTIONS = new Set(['(garbage collector)']);
+const PROGRAM_FUNCTIONS = new Set(['(program)', '(root)']);
+
+// A node of the call tree of a .cpuprofile
+interface ProfileNode {
+  id: number;
+  callFrame: {
+    functionName: string;
+    url: string;
+    lineNumber: number;
+    columnNumber: number;
+  };
+  children?: number[];
+}
+
+// A V8 CPU profile as written by --cpu-prof
+export interface CpuProfile {
+  nodes: ProfileNode[];
+  startTime: number;
+  endTime: number;
+  samples?: number[];
+  timeDeltas?: number[];
+}
+
+// Time spent in one function, aggregated over all its call sites
+export interface FunctionTime {
+  functionName: string;
+  // file:line:column, or a description for native and built-in code
+  location: string;
+  // Node.js internals and native code, as opposed to the script and its dependencies
+  internal: boolean;
+  selfMs: number;
+  totalMs: number;
+}
+
+// Summary of a CPU profile
+export interface ProfileSummary {
+  durationMs: number;
+  samples: number;
+  idleMs: number;
+  gcMs: number;
+  programMs: number;
+  functions: FunctionTime[];
+}
+
+// Write the duration preload to the state directory and return its path
+export async function ensureDurationPreload(): Promise<string> {
+  const preloadPath = path.join(getStateDir(), 'support', 'profile-duration.cjs');
+  try {
+    if (await fs.readFile(preloadPath, 'utf-8') === DURATION_PRELOAD_SOURCE) {
+      return preloadPath;
+    }
+  } catch (error) {
+    // Not written yet
+  }
+  await fs.mkdir(path.dirname(preloadPath), { recursive: true });
+  await fs.writeFile(preloadPath, DURATION_PRELOAD_SOURCE, 'utf-8');
+  return preloadPath;
+}
+
+// Location of a call frame relative to cwd, with 1-based line and column
+function describeLocation(callFrame: ProfileNode['callFrame'], cwd: string): string {
+  if (!callFrame.url) {
+    return '(native)';
+  }
+  let file = callFrame.url;
+  if (file.startsWith('file:')) {
+    try {
+      file = path.relative(cwd, fileURLToPath(file)) || file;
+    } catch (error) {
+      // Keep the URL
+    }
+  } else if (path.isAbsolute(file)) {
+    file = path.relative(cwd, file) || file;
+  }
+  return `${file}:${callFrame.lineNumber + 1}:${callFrame.columnNumber + 1}`;
+}
+
+/**
+ * Summarize a CPU profile: self and total time per function. Total time of a
+ * recursive function is counted once per call stack, not once per frame.
+ */
+export function summarizeProfile(profile: CpuProfile, cwd: string): ProfileSummary {
+  const nodes = new Map(profile.nodes.map(node => [node.id, node]));
+  const samples = profile.samples ?? [];
+  const deltas = profile.timeDeltas ?? [];
+
+  // Each sample lasts until the next one; the last one gets the average interval
+  const selfTime = new Map<number, number>();
+  const totalDuration = profile.endTime - profile.startTime;
+  const average = samples.length > 0 ? totalDuration / samples.length : 0;
+  samples.forEach((nodeId, i) => {
+    const duration = i + 1 < deltas.length ? deltas[i + 1] : average;
+    selfTime.set(nodeId, (selfTime.get(nodeId) ?? 0) + duration);
+  });
+
+  const summary: ProfileSummary = {
+    durationMs: totalDuration / 1000,
+    samples: samples.length,
+    idleMs: 0,
+    gcMs: 0,
+    programMs: 0,
+    functions: []
+  };
+  const functions = new Map<string, FunctionTime>();
+
+  // Walk the call tree from the root, tracking the functions on the current stack
+  const root = profile.nodes[0];
+  const walk = (node: ProfileNode, onStack: Set<string>): number => {
+    const { functionName, url, lineNumber, columnNumber } = node.callFrame;
+    const name = functionName || '(anonymous)';
+    const key = `${name}|${url}|${lineNumber}|${columnNumber}`;
+    const self = (selfTime.get(node.id) ?? 0) / 1000;
+
+    let total = self;
+    const recursive = onStack.has(key);
+    if (!recursive) onStack.add(key);
+    for (const childId of node.children ?? []) {
+      const child = nodes.get(childId);
+      if (child) total += walk(child, onStack);
+    }
+    if (!recursive) onStack.delete(key);
+
+    if (IDLE_FUNCTIONS.has(functionName)) {
+      summary.idleMs += self;
+    } else if (GC_FUNCTIONS.has(functionName)) {
+      summary.gcMs += self;
+    } else if (PROGRAM_FUNCTIONS.has(functionName)) {
+      summary.programMs += self;
+    } else {
+      let entry = functions.get(key);
+      if (!entry) {
+        entry = {
+          functionName: name,
+          location: describeLocation(node.callFrame, cwd),
+          internal: !url || url.startsWith('node:'),
+          selfMs: 0,
+          totalMs: 0
+        };
+        functions.set(key, entry);
+      }
+      entry.selfMs += self;
+      if (!recursive) entry.totalMs += total;
+    }
+    return total;
+  };
+  if (root) walk(root, new Set());
+
+  summary.functions = Array.from(functions.values());
+  return summary;
+}
+
+// Directory where CPU profiles are kept for opening in DevTools
+export function getProfilesDir(): string {
+  return path.join(getStateDir(), 'profiles');
+}
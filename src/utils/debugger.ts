@@ -0,0 +1,454 @@
+import * as path from "path";
+import { fileURLToPath } from "url";
+import type { Debugger, Runtime } from "node:inspector";
+import { InspectorSession, connectInspector } from "./inspector.js";
+import { serverEvents } from "./servers.js";
+import { LogLine, ServerInfo } from "../types/index.js";
+
+// Time to keep retrying while a freshly started process opens its inspector
+const ATTACH_TIMEOUT = 10000;
+
+// Limits that keep paused-state reports readable
+const MAX_STACK_FRAMES = 20;
+const MAX_SCOPE_VARIABLES = 30;
+// Closure and module scopes are mostly imports and helpers
+const MAX_OUTER_SCOPE_VARIABLES = 10;
+const MAX_VALUE_LENGTH = 200;
+const SOURCE_CONTEXT_LINES = 3;
+
+// A breakpoint set in a debug session
+export interface BreakpointInfo {
+  // Short ID within the session, like bp-1
+  id: string;
+  // ID the inspector assigned
+  cdpId: string;
+  file: string;
+  // 1-based, as given by the user
+  line: number;
+  condition: string | null;
+  // Locations the breakpoint resolved to in loaded scripts, as file:line:column
+  locations: string[];
+}
+
+// Where and why a debugged process is paused
+export interface PauseState {
+  reason: string;
+  hitBreakpoints: string[];
+  callFrames: Debugger.CallFrame[];
+  // Exception or other data of the pause, as a CDP remote object
+  data: Runtime.RemoteObject | undefined;
+}
+
+// A debugger attached to a managed server through the inspector
+export interface DebugSession {
+  id: string;
+  serverId: string;
+  serverInfo: ServerInfo;
+  // Whether the server was started for this session, and is stopped with it
+  launched: boolean;
+  port: number;
+  pid: number;
+  inspector: InspectorSession;
+  // URLs of the parsed scripts, by script ID
+  scripts: Map<string, string>;
+  breakpoints: Map<string, BreakpointInfo>;
+  breakpointCount: number;
+  paused: PauseState | null;
+  // Whether a pause was requested but the program has not run JavaScript since
+  pausePending: boolean;
+  // Why the session can no longer be used, e.g. the program finished
+  ended: string | null;
+  // Execution context of the main program, whose destruction means the program is done
+  mainContextId: number | null;
+  startTime: Date;
+}
+
+// Active debug sessions by ID
+export const debugSessions = new Map<string, DebugSession>();
+
+// Sessions of servers that are gone can no longer be inspected
+serverEvents.on('remove', (serverId: string) => {
+  for (const session of debugSessions.values()) {
+    if (session.serverId === serverId) closeDebugSession(session);
+  }
+});
+
+// Generate a unique debug session ID
+export function generateDebugSessionId(): string {
+  return `debug-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
+}
+
+// Display form of a script URL: a path relative to cwd for files, the URL otherwise
+export function describeScriptUrl(url: string, cwd: string): string {
+  if (!url.startsWith('file:')) {
+    return url || '(anonymous script)';
+  }
+  try {
+    const file = fileURLToPath(url);
+    return path.relative(cwd, file) || file;
+  } catch (error) {
+    return url;
+  }
+}
+
+// Regular expression matching the URLs V8 may use for a file: a plain path or a file:// URL
+function fileUrlRegex(file: string): string {
+  const escaped = file.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return `^(?:file://)?${escaped}$`;
+}
+
+// Connect to the inspector, retrying while the process is starting and still alive
+async function connectWithRetry(port: number, serverInfo: ServerInfo): Promise<InspectorSession> {
+  const deadline = Date.now() + ATTACH_TIMEOUT;
+  for (;;) {
+    try {
+      return await connectInspector(port);
+    } catch (error) {
+      if (serverInfo.exitCode !== null) {
+        throw new Error(`The process exited with code ${serverInfo.exitCode} before the debugger could attach`);
+      }
+      if (Date.now() >= deadline) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+}
+
+/**
+ * Attach a debugger to a managed server whose inspector listens on `port`.
+ * A process started with --inspect-brk waits for the debugger and then pauses
+ * on its first statement; breakpoints can be set before it is let go with
+ * runIfWaitingForDebugger.
+ */
+export async function attachDebugger(serverId: string, serverInfo: ServerInfo, port: number, launched: boolean): Promise<DebugSession> {
+  const inspector = await connectWithRetry(port, serverInfo);
+  const session: DebugSession = {
+    id: generateDebugSessionId(),
+    serverId,
+    serverInfo,
+    launched,
+    port,
+    pid: serverInfo.pid,
+    inspector,
+    scripts: new Map(),
+    breakpoints: new Map(),
+    breakpointCount: 0,
+    paused: null,
+    pausePending: false,
+    ended: null,
+    mainContextId: null,
+    startTime: new Date()
+  };
+
+  inspector.on('Debugger.scriptParsed', ({ scriptId, url }) => {
+    session.scripts.set(scriptId, url);
+  });
+  inspector.on('Debugger.breakpointResolved', ({ breakpointId, location }) => {
+    findBreakpoint(session, breakpointId)?.locations.push(describeLocation(session, location));
+  });
+  inspector.on('Debugger.paused', ({ reason, hitBreakpoints = [], callFrames, data }) => {
+    const hit = hitBreakpoints.map(cdpId => findBreakpoint(session, cdpId)?.id ?? cdpId);
+    // The data of exception and promise rejection pauses is the thrown value
+    session.paused = { reason, hitBreakpoints: hit, callFrames, data: data as Runtime.RemoteObject | undefined };
+    session.pausePending = false;
+  });
+  inspector.on('Debugger.resumed', () => {
+    session.paused = null;
+  });
+  inspector.on('Runtime.executionContextCreated', ({ context }) => {
+    // The protocol leaves auxData open; V8 reports whether the context is the default one
+    const auxData = context.auxData as { isDefault?: boolean } | undefined;
+    if (auxData?.isDefault) session.mainContextId = context.id;
+  });
+  // Node.js waits for the debugger to disconnect before exiting, so let go once the program is done
+  inspector.on('Runtime.executionContextDestroyed', ({ executionContextId }) => {
+    if (executionContextId === session.mainContextId && !session.ended) {
+      session.ended = 'the program finished';
+      session.paused = null;
+      inspector.close();
+    }
+  });
+  inspector.onClose(() => {
+    session.ended ??= 'the inspector connection closed';
+    session.paused = null;
+  });
+
+  await inspector.send('Runtime.enable');
+  await inspector.send('Debugger.enable');
+  debugSessions.set(session.id, session);
+  return session;
+}
+
+// Let a process started with --inspect-brk run; a no-op for processes that are not waiting
+export async function runIfWaiting(session: DebugSession): Promise<void> {
+  await session.inspector.send('Runtime.runIfWaitingForDebugger');
+}
+
+// Location of a CDP location object, as file:line:column with 1-based numbers
+function describeLocation(session: DebugSession, location: Debugger.Location): string {
+  const url = session.scripts.get(location.scriptId) ?? '';
+  return `${describeScriptUrl(url, session.serverInfo.cwd)}:${location.lineNumber + 1}:${(location.columnNumber ?? 0) + 1}`;
+}
+
+// Breakpoint of a session by the ID the inspector assigned
+function findBreakpoint(session: DebugSession, cdpId: string): BreakpointInfo | undefined {
+  return Array.from(session.breakpoints.values()).find(breakpoint => breakpoint.cdpId === cdpId);
+}
+
+// Set a breakpoint on a line of a file, also for scripts that are not loaded yet
+export async function setBreakpoint(session: DebugSession, file: string, line: number, condition?: string): Promise<BreakpointInfo> {
+  const absPath = path.resolve(session.serverInfo.cwd, file);
+  const result = await session.inspector.send('Debugger.setBreakpointByUrl', {
+    urlRegex: fileUrlRegex(absPath),
+    lineNumber: line - 1,
+    condition: condition ?? ''
+  }) as Debugger.SetBreakpointByUrlReturnType;
+  const breakpoint: BreakpointInfo = {
+    id: `bp-${++session.breakpointCount}`,
+    cdpId: result.breakpointId,
+    file: absPath,
+    line,
+    condition: condition ?? null,
+    locations: result.locations.map(location => describeLocation(session, location))
+  };
+  session.breakpoints.set(breakpoint.id, breakpoint);
+  return breakpoint;
+}
+
+export async function removeBreakpoint(session: DebugSession, breakpointId: string): Promise<boolean> {
+  const breakpoint = session.breakpoints.get(breakpointId);
+  if (!breakpoint) {
+    return false;
+  }
+  await session.inspector.send('Debugger.removeBreakpoint', { breakpointId: breakpoint.cdpId });
+  session.breakpoints.delete(breakpointId);
+  return true;
+}
+
+/**
+ * Wait until the process pauses, the program ends, or the timeout expires.
+ * `action` is sent once listening, so a pause it causes immediately is not missed.
+ * Returns the log lines the server wrote meanwhile.
+ */
+export async function waitForPause(session: DebugSession, timeout: number, action?: () => Promise<unknown>): Promise<LogLine[]> {
+  const output: LogLine[] = [];
+  const onLog = (serverInfo: ServerInfo, line: LogLine) => {
+    if (serverInfo === session.serverInfo) output.push(line);
+  };
+  serverEvents.on('log', onLog);
+
+  let onPaused: (() => void) | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const stopped = new Promise<void>(resolve => {
+      onPaused = () => resolve();
+      session.inspector.on('Debugger.paused', onPaused);
+      session.inspector.on('Runtime.executionContextDestroyed', onPaused);
+      session.inspector.onClose(onPaused);
+      timer = setTimeout(resolve, timeout);
+    });
+    if (action) await action();
+    if (!session.paused && !session.ended) await stopped;
+    // Give output written just before the pause a moment to arrive
+    await new Promise(resolve => setTimeout(resolve, 50));
+  } finally {
+    clearTimeout(timer);
+    if (onPaused) {
+      session.inspector.off('Debugger.paused', onPaused);
+      session.inspector.off('Runtime.executionContextDestroyed', onPaused);
+      session.inspector.offClose(onPaused);
+    }
+    serverEvents.off('log', onLog);
+  }
+  return output;
+}
+
+// Short rendering of a CDP remote object, using its preview for objects
+export function formatRemoteObject(value: Runtime.RemoteObject | undefined): string {
+  if (!value) return 'undefined';
+  if (value.unserializableValue !== undefined) return value.unserializableValue;
+  switch (value.type) {
+    case 'undefined':
+      return 'undefined';
+    case 'string':
+      return truncate(JSON.stringify(value.value));
+    case 'number':
+    case 'boolean':
+      return String(value.value);
+    case 'bigint':
+      return value.description ?? `${value.value}n`;
+    case 'symbol':
+      return value.description ?? 'Symbol()';
+    case 'function':
+      return describeFunction(value.description ?? '');
+    case 'object':
+      if (value.subtype === 'null') return 'null';
+      if (value.preview) return truncate(formatPreview(value.preview));
+      return value.description ?? 'Object';
+    default:
+      return value.description ?? String(value.value);
+  }
+}
+
+// Function name from its source, like [Function: add] or [class User]
+function describeFunction(source: string): string {
+  const classMatch = /^class\s+([\w$]+)/.exec(source);
+  if (classMatch) return `[class ${classMatch[1]}]`;
+  const functionMatch = /^(?:async\s+)?function\s*\*?\s*([\w$]+)/.exec(source) ?? /^(?:async\s+)?(?!function\b)([\w$]+)\s*\(/.exec(source);
+  return functionMatch ? `[Function: ${functionMatch[1]}]` : '[Function (anonymous)]';
+}
+
+// Rendering of an object preview, like {id: 1, name: "a"} or [1, 2, 3]
+function formatPreview(preview: Runtime.ObjectPreview): string {
+  const properties = preview.properties.map(property => {
+    const value = property.type === 'string' ? JSON.stringify(property.value) : property.value ?? property.type;
+    return preview.subtype === 'array' ? value : `${property.name}: ${value}`;
+  });
+  if (preview.entries) {
+    const describe = (entry: Runtime.ObjectPreview) => entry.description ?? entry.type;
+    properties.push(...preview.entries.map(entry =>
+      entry.key ? `${describe(entry.key)} => ${describe(entry.value)}` : describe(entry.value)));
+  }
+  if (preview.overflow) properties.push('…');
+  if (preview.subtype === 'array') return `[${properties.join(', ')}]`;
+  const prefix = preview.description && preview.description !== 'Object' ? `${preview.description} ` : '';
+  return `${prefix}{${properties.join(', ')}}`;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+// Source lines around the paused line of a frame, with the paused line marked
+async function describeSource(session: DebugSession, frame: Debugger.CallFrame): Promise<string> {
+  try {
+    const { scriptSource } = await session.inspector.send('Debugger.getScriptSource', { scriptId: frame.location.scriptId }) as Debugger.GetScriptSourceReturnType;
+    const lines = scriptSource.split('\n');
+    const current = frame.location.lineNumber;
+    const first = Math.max(0, current - SOURCE_CONTEXT_LINES);
+    const last = Math.min(lines.length - 1, current + SOURCE_CONTEXT_LINES);
+    const width = String(last + 1).length;
+    let text = '';
+    for (let i = first; i <= last; i++) {
+      text += `${i === current ? '>' : ' '} ${String(i + 1).padStart(width)} | ${lines[i]}\n`;
+    }
+    return text;
+  } catch (error) {
+    return '';
+  }
+}
+
+// Variables of the scopes of a frame, except the global scope
+async function describeScopes(session: DebugSession, frame: Debugger.CallFrame): Promise<string> {
+  let text = '';
+  for (const scope of frame.scopeChain) {
+    if (scope.type === 'global') continue;
+    let properties: Runtime.PropertyDescriptor[] = [];
+    try {
+      const result = await session.inspector.send('Runtime.getProperties', {
+        objectId: scope.object.objectId,
+        ownProperties: true,
+        generatePreview: true
+      }) as Runtime.GetPropertiesReturnType;
+      properties = result.result;
+    } catch (error) {
+      continue;
+    }
+    const name = scope.name ? `${scope.type} (${scope.name})` : scope.type;
+    text += `  ${name[0].toUpperCase()}${name.slice(1)}:\n`;
+    if (scope.type === 'local' && frame.this && frame.this.type !== 'undefined') {
+      text += `    this = ${formatRemoteObject(frame.this)}\n`;
+    }
+    if (properties.length === 0) {
+      text += `    (none)\n`;
+    }
+    const limit = ['local', 'block', 'catch'].includes(scope.type) ? MAX_SCOPE_VARIABLES : MAX_OUTER_SCOPE_VARIABLES;
+    for (const property of properties.slice(0, limit)) {
+      text += `    ${property.name} = ${formatRemoteObject(property.value)}\n`;
+    }
+    if (properties.length > limit) {
+      text += `    … ${properties.length - limit} more\n`;
+    }
+  }
+  return text;
+}
+
+// Report of the state of a session: where it is paused, the call stack, variables and source
+export async function describeDebugState(session: DebugSession, frameIndex = 0): Promise<string> {
+  if (session.ended) {
+    return `Debug session ${session.id} has ended: ${session.ended}.\n`;
+  }
+  const pause = session.paused;
+  if (!pause) {
+    return `Running (not paused).\n`;
+  }
+
+  const frames = pause.callFrames;
+  const frame = frames[Math.min(frameIndex, frames.length - 1)];
+  const cwd = session.serverInfo.cwd;
+  const where = (f: Debugger.CallFrame) => `${f.functionName || '(anonymous)'} at ${describeScriptUrl(f.url || session.scripts.get(f.location.scriptId) || '', cwd)}:${f.location.lineNumber + 1}:${(f.location.columnNumber ?? 0) + 1}`;
+
+  let text = `Paused (${describePauseReason(session, pause)}) in ${where(frames[0])}\n`;
+  if (pause.reason === 'exception' || pause.reason === 'promiseRejection') {
+    text += `Exception: ${formatRemoteObject(pause.data)}\n`;
+  }
+
+  text += `\nCall stack:\n`;
+  frames.slice(0, MAX_STACK_FRAMES).forEach((f, i) => {
+    text += `  ${f === frame ? '>' : ' '}#${i} ${where(f)}\n`;
+  });
+  if (frames.length > MAX_STACK_FRAMES) {
+    text += `   … ${frames.length - MAX_STACK_FRAMES} more frame(s)\n`;
+  }
+
+  const source = await describeSource(session, frame);
+  if (source) {
+    text += `\nSource of frame #${frames.indexOf(frame)}:\n${source}`;
+  }
+  text += `\nScope variables of frame #${frames.indexOf(frame)}:\n${await describeScopes(session, frame)}`;
+  return text;
+}
+
+// Human readable pause reason, naming the breakpoints that were hit
+function describePauseReason(session: DebugSession, pause: PauseState): string {
+  if (pause.hitBreakpoints.length > 0) {
+    const names = pause.hitBreakpoints.map(id => {
+      const breakpoint = session.breakpoints.get(id);
+      return breakpoint ? `${id} at ${path.relative(session.serverInfo.cwd, breakpoint.file) || breakpoint.file}:${breakpoint.line}` : id;
+    });
+    return `breakpoint ${names.join(', ')}`;
+  }
+  switch (pause.reason) {
+    case 'Break on start': return 'on the first statement';
+    case 'exception': return 'exception';
+    case 'promiseRejection': return 'unhandled promise rejection';
+    case 'debugCommand': return 'debugger statement';
+    case 'other': return 'step or pause';
+    default: return pause.reason;
+  }
+}
+
+// Evaluate an expression in a frame of the paused process, or globally when it is running
+export async function evaluateInSession(session: DebugSession, expression: string, frameIndex = 0): Promise<{ value: string, error: boolean }> {
+  const params = { expression, generatePreview: true, includeCommandLineAPI: true, timeout: 5000 };
+  const result = session.paused
+    ? await session.inspector.send('Debugger.evaluateOnCallFrame', {
+      ...params,
+      callFrameId: session.paused.callFrames[Math.min(frameIndex, session.paused.callFrames.length - 1)].callFrameId
+    }) as Debugger.EvaluateOnCallFrameReturnType
+    : await session.inspector.send('Runtime.evaluate', { ...params, awaitPromise: true }) as Runtime.EvaluateReturnType;
+
+  if (result.exceptionDetails) {
+    const exception = result.exceptionDetails.exception;
+    return { value: exception?.description ?? result.exceptionDetails.text, error: true };
+  }
+  return { value: formatRemoteObject(result.result), error: false };
+}
+
+// Detach from the process and forget the session
+export function closeDebugSession(session: DebugSession): void {
+  session.ended ??= 'the debug session was stopped';
+  session.inspector.close();
+  debugSessions.delete(session.id);
+}
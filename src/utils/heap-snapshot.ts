@@ -0,0 +1,341 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { HeapProfiler } from "node:inspector";
+import { getStateDir } from "./helpers.js";
+import { InspectorSession, connectInspector } from "./inspector.js";
+
+// A .heapsnapshot file: flat arrays of node and edge fields described by the meta data
+interface HeapSnapshotData {
+  snapshot: {
+    meta: {
+      node_fields: string[];
+      node_types: [string[], ...unknown[]];
+      edge_fields: string[];
+      edge_types: [string[], ...unknown[]];
+    };
+    node_count: number;
+  };
+  nodes: number[];
+  edges: number[];
+  strings: string[];
+}
+
+// Objects of one constructor (or internal type) in a heap snapshot
+export interface HeapClassSummary {
+  name: string;
+  count: number;
+  // Size of the objects themselves
+  selfSize: number;
+  // Memory freed if all objects of this class were collected
+  retainedSize: number;
+}
+
+// Heap snapshot aggregated by constructor
+export interface HeapSummary {
+  // Objects reachable from the GC roots
+  nodeCount: number;
+  totalSize: number;
+  classes: HeapClassSummary[];
+  // Object IDs by constructor, for telling new objects from old ones in a diff
+  ids: Map<string, Set<number>>;
+}
+
+// Change of one constructor between two snapshots
+export interface HeapClassDiff {
+  name: string;
+  // Objects only in the later snapshot, and objects only in the earlier one
+  added: number;
+  removed: number;
+  countDelta: number;
+  selfSizeDelta: number;
+  retainedSizeDelta: number;
+}
+
+// Directory where heap snapshots are kept for opening in DevTools
+export function getHeapSnapshotsDir(): string {
+  return path.join(getStateDir(), 'heap-snapshots');
+}
+
+// Sessions keeping the heap profiler of a process enabled, by inspector port.
+// V8 forgets object IDs when the profiler is disabled, and diffs rely on them.
+const heapProfilerSessions = new Map<number, { pid: number, session: InspectorSession }>();
+
+// Session with the heap profiler enabled on the process with the given PID
+async function getHeapProfilerSession(port: number, pid: number): Promise<InspectorSession> {
+  const existing = heapProfilerSessions.get(port);
+  if (existing && existing.pid === pid) {
+    return existing.session;
+  }
+  // The port now belongs to a restarted process
+  existing?.session.close();
+
+  const session = await connectInspector(port);
+  session.onClose(() => {
+    if (heapProfilerSessions.get(port)?.session === session) {
+      heapProfilerSessions.delete(port);
+    }
+  });
+  await session.send('HeapProfiler.enable');
+  heapProfilerSessions.set(port, { pid, session });
+  return session;
+}
+
+/**
+ * Take a heap snapshot of the process with the given PID, whose inspector
+ * listens on `port`, and stream it to `file`. Taking a snapshot runs a full
+ * garbage collection and pauses the process until it is written.
+ */
+export async function takeHeapSnapshot(port: number, pid: number, file: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  const session = await getHeapProfilerSession(port, pid);
+  const output = fs.createWriteStream(file);
+  const onChunk = ({ chunk }: HeapProfiler.AddHeapSnapshotChunkEventDataType) => {
+    output.write(chunk);
+  };
+  session.on('HeapProfiler.addHeapSnapshotChunk', onChunk);
+  try {
+    await session.send('HeapProfiler.takeHeapSnapshot', { reportProgress: false }, 0);
+  } finally {
+    session.off('HeapProfiler.addHeapSnapshotChunk', onChunk);
+    await new Promise<void>((resolve, reject) => {
+      output.end();
+      output.on('finish', resolve);
+      output.on('error', reject);
+    });
+  }
+}
+
+// Read a snapshot file written by takeHeapSnapshot or DevTools
+export async function readHeapSnapshot(file: string): Promise<HeapSnapshotData> {
+  return JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+}
+
+// Name objects are grouped under, following the DevTools summary view
+function className(type: string, name: string): string {
+  switch (type) {
+    case 'object':
+    case 'native':
+      return name;
+    case 'hidden':
+      return '(system)';
+    case 'code':
+      return '(compiled code)';
+    case 'string':
+    case 'concatenated string':
+    case 'sliced string':
+      return '(string)';
+    default:
+      return `(${type})`;
+  }
+}
+
+/**
+ * Aggregate a snapshot by constructor. Retained sizes come from the dominator
+ * tree of the objects reachable from the root, ignoring weak references; an
+ * object retained by another object of its own class is not counted twice.
+ */
+export function summarizeHeapSnapshot(data: HeapSnapshotData): HeapSummary {
+  const { meta } = data.snapshot;
+  const nodeFields = meta.node_fields.length;
+  const edgeFields = meta.edge_fields.length;
+  const typeOffset = meta.node_fields.indexOf('type');
+  const nameOffset = meta.node_fields.indexOf('name');
+  const idOffset = meta.node_fields.indexOf('id');
+  const sizeOffset = meta.node_fields.indexOf('self_size');
+  const edgeCountOffset = meta.node_fields.indexOf('edge_count');
+  const edgeTypeOffset = meta.edge_fields.indexOf('type');
+  const edgeToOffset = meta.edge_fields.indexOf('to_node');
+  const weakType = meta.edge_types[0].indexOf('weak');
+  const nodeTypes = meta.node_types[0];
+  const { nodes, edges, strings } = data;
+  const count = nodes.length / nodeFields;
+
+  // First edge of every node; node i's edges end where node i + 1's begin
+  const firstEdge = new Uint32Array(count + 1);
+  for (let i = 0, edge = 0; i < count; i++) {
+    firstEdge[i] = edge;
+    edge += nodes[i * nodeFields + edgeCountOffset] * edgeFields;
+  }
+  firstEdge[count] = edges.length;
+  const targetOf = (edge: number) => edges[edge + edgeToOffset] / nodeFields;
+  const isWeak = (edge: number) => edges[edge + edgeTypeOffset] === weakType;
+
+  // Depth-first post-order numbering of the nodes reachable from the root (node 0)
+  const postOrder = new Int32Array(count).fill(-1);
+  const order: number[] = [];
+  const visited = new Uint8Array(count);
+  const stack: number[] = [0];
+  const nextEdge = new Uint32Array(count);
+  visited[0] = 1;
+  nextEdge[0] = firstEdge[0];
+  while (stack.length > 0) {
+    const node = stack[stack.length - 1];
+    let pushed = false;
+    while (nextEdge[node] < firstEdge[node + 1]) {
+      const edge = nextEdge[node];
+      nextEdge[node] += edgeFields;
+      if (isWeak(edge)) continue;
+      const target = targetOf(edge);
+      if (!visited[target]) {
+        visited[target] = 1;
+        nextEdge[target] = firstEdge[target];
+        stack.push(target);
+        pushed = true;
+        break;
+      }
+    }
+    if (!pushed) {
+      stack.pop();
+      postOrder[node] = order.length;
+      order.push(node);
+    }
+  }
+
+  // Predecessors of every reachable node, by post-order number
+  const reachable = order.length;
+  const predecessorCount = new Uint32Array(reachable + 1);
+  for (const node of order) {
+    for (let edge = firstEdge[node]; edge < firstEdge[node + 1]; edge += edgeFields) {
+      if (!isWeak(edge)) predecessorCount[postOrder[targetOf(edge)] + 1]++;
+    }
+  }
+  for (let i = 0; i < reachable; i++) predecessorCount[i + 1] += predecessorCount[i];
+  const predecessors = new Uint32Array(predecessorCount[reachable]);
+  const filled = predecessorCount.slice(0, reachable);
+  for (const node of order) {
+    for (let edge = firstEdge[node]; edge < firstEdge[node + 1]; edge += edgeFields) {
+      if (!isWeak(edge)) {
+        const target = postOrder[targetOf(edge)];
+        predecessors[filled[target]++] = postOrder[node];
+      }
+    }
+  }
+
+  // Immediate dominators (Cooper, Harvey and Kennedy), by post-order number
+  const rootIndex = reachable - 1;
+  const dominator = new Int32Array(reachable).fill(-1);
+  dominator[rootIndex] = rootIndex;
+  const intersect = (a: number, b: number) => {
+    while (a !== b) {
+      while (a < b) a = dominator[a];
+      while (b < a) b = dominator[b];
+    }
+    return a;
+  };
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = rootIndex - 1; i >= 0; i--) {
+      let newDominator = -1;
+      for (let p = predecessorCount[i]; p < predecessorCount[i + 1]; p++) {
+        const predecessor = predecessors[p];
+        if (dominator[predecessor] === -1) continue;
+        newDominator = newDominator === -1 ? predecessor : intersect(predecessor, newDominator);
+      }
+      if (newDominator !== -1 && dominator[i] !== newDominator) {
+        dominator[i] = newDominator;
+        changed = true;
+      }
+    }
+  }
+
+  // Retained size: own size plus that of everything dominated; dominators come later in post-order
+  const retained = new Float64Array(reachable);
+  for (let i = 0; i < reachable; i++) {
+    retained[i] += nodes[order[i] * nodeFields + sizeOffset];
+    if (i !== rootIndex) retained[dominator[i]] += retained[i];
+  }
+
+  const classOf = (i: number) => {
+    const offset = order[i] * nodeFields;
+    return className(nodeTypes[nodes[offset + typeOffset]], strings[nodes[offset + nameOffset]]);
+  };
+
+  // Walk the dominator tree from the root, counting retained size only for the outermost object of each class
+  const childCount = new Uint32Array(reachable + 1);
+  for (let i = 0; i < rootIndex; i++) childCount[dominator[i] + 1]++;
+  for (let i = 0; i < reachable; i++) childCount[i + 1] += childCount[i];
+  const children = new Uint32Array(Math.max(0, reachable - 1));
+  const childFilled = childCount.slice(0, reachable);
+  for (let i = 0; i < rootIndex; i++) children[childFilled[dominator[i]]++] = i;
+
+  const classes = new Map<string, HeapClassSummary>();
+  const ids = new Map<string, Set<number>>();
+  const onPath = new Map<string, number>();
+  let totalSize = 0;
+  const walk: Array<[number, boolean]> = [[rootIndex, true]];
+  while (walk.length > 0) {
+    const [i, entering] = walk.pop()!;
+    const name = classOf(i);
+    if (!entering) {
+      onPath.set(name, onPath.get(name)! - 1);
+      continue;
+    }
+    const selfSize = nodes[order[i] * nodeFields + sizeOffset];
+    totalSize += selfSize;
+    let summary = classes.get(name);
+    if (!summary) {
+      summary = { name, count: 0, selfSize: 0, retainedSize: 0 };
+      classes.set(name, summary);
+      ids.set(name, new Set());
+    }
+    summary.count++;
+    summary.selfSize += selfSize;
+    ids.get(name)!.add(nodes[order[i] * nodeFields + idOffset]);
+    if (!onPath.get(name)) summary.retainedSize += retained[i];
+    onPath.set(name, (onPath.get(name) ?? 0) + 1);
+
+    walk.push([i, false]);
+    for (let c = childCount[i]; c < childCount[i + 1]; c++) {
+      walk.push([children[c], true]);
+    }
+  }
+
+  // The synthetic root and GC root groups are not objects of the program
+  classes.delete('(synthetic)');
+  ids.delete('(synthetic)');
+
+  return {
+    nodeCount: reachable,
+    totalSize,
+    classes: Array.from(classes.values()).sort((a, b) => b.retainedSize - a.retainedSize),
+    ids
+  };
+}
+
+/**
+ * Compare two summaries of snapshots of the same process. Object IDs are
+ * stable across snapshots of one process, so objects are classified as added
+ * or removed; for different processes only the totals are meaningful.
+ */
+export function diffHeapSummaries(before: HeapSummary, after: HeapSummary): HeapClassDiff[] {
+  const beforeClasses = new Map(before.classes.map(summary => [summary.name, summary]));
+  const afterClasses = new Map(after.classes.map(summary => [summary.name, summary]));
+  const names = new Set([...beforeClasses.keys(), ...afterClasses.keys()]);
+  const diffs: HeapClassDiff[] = [];
+
+  for (const name of names) {
+    const old = beforeClasses.get(name);
+    const current = afterClasses.get(name);
+    const oldIds = before.ids.get(name) ?? new Set<number>();
+    const currentIds = after.ids.get(name) ?? new Set<number>();
+    let added = 0;
+    for (const id of currentIds) {
+      if (!oldIds.has(id)) added++;
+    }
+    let removed = 0;
+    for (const id of oldIds) {
+      if (!currentIds.has(id)) removed++;
+    }
+    diffs.push({
+      name,
+      added,
+      removed,
+      countDelta: (current?.count ?? 0) - (old?.count ?? 0),
+      selfSizeDelta: (current?.selfSize ?? 0) - (old?.selfSize ?? 0),
+      retainedSizeDelta: (current?.retainedSize ?? 0) - (old?.retainedSize ?? 0)
+    });
+  }
+
+  return diffs;
+}
@@ -1,7 +1,9 @@
 import { exec } from "child_process";
 import { promisify } from "util";
+import * as os from "os";
+import * as path from "path";
 import notifier from "node-notifier";
-import { ServerInfo } from "../types/index.js";
+import { CommandResult, ExecOptionsWithInput, ServerInfo } from "../types/index.js";
 
 // Promisify exec
 export const execAsync = promisify(exec);
@@ -22,6 +24,61 @@ export function setSelectedNodeVersion(version: string | null): void {
   _selectedNodeVersion = version;
 }
 
+// Directory where mcp-node keeps its persistent state (audit log, caches, ...)
+export function getStateDir(): string {
+  return process.env.MCP_NODE_STATE_DIR || path.join(os.homedir(), '.mcp-node');
+}
+
+/**
+ * Run a shell command and collect its output, exit code and duration.
+ * Unlike execAsync this never rejects: failures are reported through `error`.
+ * The `input` option is written to the child's standard input.
+ */
+export function runCommand(command: string, options: ExecOptionsWithInput = {}): Promise<CommandResult> {
+  const { input, ...execOptions } = options;
+  const startTime = Date.now();
+
+  return new Promise((resolve) => {
+    const child = exec(command, { ...execOptions, encoding: 'utf8' }, (error, stdout, stderr) => {
+      const execError = error as (Error & { code?: number | string, signal?: NodeJS.Signals | null }) | null;
+      resolve({
+        stdout,
+        stderr,
+        exitCode: execError ? (typeof execError.code === 'number' ? execError.code : null) : 0,
+        signal: execError?.signal ?? null,
+        durationMs: Date.now() - startTime,
+        error: execError ?? undefined
+      });
+    });
+
+    if (input !== undefined && child.stdin) {
+      // Ignore EPIPE if the process exits without reading its input
+      child.stdin.on('error', () => {});
+      child.stdin.end(input);
+    }
+  });
+}
+
+// Quote an argument for the shell commands run with exec
+export function shellQuote(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+// Parse an ISO timestamp or a relative duration such as "30m", "2h" or "1d" (meaning that long ago)
+export function parseTimeBound(value: string): Date {
+  const relative = /^(\d+)\s*(s|m|h|d)$/.exec(value.trim());
+  if (relative) {
+    const unitMs = { s: 1000, m: 60000, h: 3600000, d: 86400000 }[relative[2] as 's' | 'm' | 'h' | 'd'];
+    return new Date(Date.now() - Number(relative[1]) * unitMs);
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid time '${value}'. Use an ISO timestamp or a relative duration like 30m, 2h or 1d`);
+  }
+  return date;
+}
+
 // Generate a unique ID for servers
 export function generateServerId(): string {
   return `server-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
@@ -33,7 +90,7 @@ export function generateServerId(): string {
 export async function askPermission(action: string): Promise<boolean> {
   // Skip notification if DISABLE_NOTIFICATIONS is set
   if (process.env.DISABLE_NOTIFICATIONS === 'true') {
-    console.log(`Auto-allowing action (notifications disabled): ${action}`);
+    console.error(`Auto-allowing action (notifications disabled): ${action}`);
     return true;
   }
   
@@ -57,3 +114,36 @@ export async function askPermission(action: string): Promise<boolean> {
     });
   });
 }
+
+/**
+ * Convert a glob pattern to a regular expression.
+ * In path mode `*` and `?` stop at `/` and `**` spans directories; otherwise `*` matches anything.
+ */
+export function globToRegExp(pattern: string, pathMode = true): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pathMode && pattern[i + 1] === '*') {
+        // `**/` also matches zero directories, and a trailing `/**` matches the directory itself
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += pathMode ? '[^/]*' : '.*';
+      }
+    } else if (char === '?') {
+      source += pathMode ? '[^/]' : '.';
+    } else if (char === '/' && pathMode && pattern.slice(i, i + 3) === '/**' && i + 3 === pattern.length) {
+      source += '(?:/.*)?';
+      i += 2;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,165 @@
+import * as net from "net";
+import type { Debugger, HeapProfiler, Runtime } from "node:inspector";
+import WebSocket from "ws";
+
+// Time to wait for the inspector to accept a connection or answer a command
+const INSPECTOR_TIMEOUT = 10000;
+
+// Parameters of the inspector events that mcp-node listens for
+export interface InspectorEvents {
+  'Debugger.scriptParsed': Debugger.ScriptParsedEventDataType;
+  'Debugger.breakpointResolved': Debugger.BreakpointResolvedEventDataType;
+  'Debugger.paused': Debugger.PausedEventDataType;
+  'Debugger.resumed': undefined;
+  'Runtime.executionContextCreated': Runtime.ExecutionContextCreatedEventDataType;
+  'Runtime.executionContextDestroyed': Runtime.ExecutionContextDestroyedEventDataType;
+  'HeapProfiler.addHeapSnapshotChunk': HeapProfiler.AddHeapSnapshotChunkEventDataType;
+}
+
+type InspectorListener<E extends keyof InspectorEvents> = (params: InspectorEvents[E]) => void;
+
+// A connection to the inspector of a Node.js process, speaking the Chrome DevTools Protocol
+export interface InspectorSession {
+  // Send a command and resolve with its result, typed by the caller from the protocol types of node:inspector
+  send(method: string, params?: Record<string, unknown>, timeout?: number): Promise<unknown>;
+  // Listen for an event, like Debugger.paused
+  on<E extends keyof InspectorEvents>(event: E, listener: InspectorListener<E>): void;
+  off<E extends keyof InspectorEvents>(event: E, listener: InspectorListener<E>): void;
+  // Listen for the connection closing, e.g. because the process exited
+  onClose(listener: () => void): void;
+  offClose(listener: () => void): void;
+  close(): void;
+}
+
+// Find a free TCP port on the loopback interface, for starting a process with --inspect
+export function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      server.close(() => {
+        if (address && typeof address === 'object') resolve(address.port);
+        else reject(new Error('Could not determine a free port'));
+      });
+    });
+  });
+}
+
+// WebSocket URL of the inspector listening on a port, from its /json/list endpoint
+export async function getInspectorUrl(port: number, host = '127.0.0.1'): Promise<string> {
+  let response;
+  try {
+    response = await fetch(`http://${host}:${port}/json/list`, { signal: AbortSignal.timeout(INSPECTOR_TIMEOUT) });
+  } catch (error) {
+    throw new Error(`No inspector is listening on ${host}:${port}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const targets = await response.json() as Array<{ webSocketDebuggerUrl?: string }>;
+  const target = targets.find(entry => entry.webSocketDebuggerUrl);
+  if (!target) {
+    throw new Error(`The inspector on ${host}:${port} has no debugging target; is another debugger attached?`);
+  }
+  return target.webSocketDebuggerUrl!;
+}
+
+/**
+ * Connect to the inspector listening on a port. Sessions should be closed when
+ * done: a process with attached sessions waits for them before exiting.
+ */
+export async function connectInspector(port: number, host = '127.0.0.1'): Promise<InspectorSession> {
+  const url = await getInspectorUrl(port, host);
+  const socket = new WebSocket(url, { perMessageDeflate: false, maxPayload: 0 });
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.terminate();
+      reject(new Error(`Timed out connecting to the inspector at ${url}`));
+    }, INSPECTOR_TIMEOUT);
+    socket.once('open', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    socket.once('error', (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Could not connect to the inspector at ${url}: ${error.message}`));
+    });
+  });
+
+  let nextId = 1;
+  const pending = new Map<number, { resolve: (result: unknown) => void, reject: (error: Error) => void, timer: NodeJS.Timeout | null }>();
+  const listeners = new Map<string, Set<(params: unknown) => void>>();
+  const closeListeners = new Set<() => void>();
+
+  socket.on('message', (data) => {
+    let message: { id?: number, method?: string, params?: unknown, result?: unknown, error?: { message: string } };
+    try {
+      message = JSON.parse(data.toString());
+    } catch (error) {
+      return;
+    }
+    if (message.id !== undefined) {
+      const request = pending.get(message.id);
+      if (!request) return;
+      pending.delete(message.id);
+      if (request.timer) clearTimeout(request.timer);
+      if (message.error) request.reject(new Error(message.error.message));
+      else request.resolve(message.result);
+    } else if (message.method) {
+      for (const listener of listeners.get(message.method) ?? []) {
+        listener(message.params);
+      }
+    }
+  });
+
+  socket.on('error', () => {
+    // Reported to pending commands by the close handler
+  });
+
+  socket.on('close', () => {
+    for (const request of pending.values()) {
+      if (request.timer) clearTimeout(request.timer);
+      request.reject(new Error('The inspector connection was closed'));
+    }
+    pending.clear();
+    for (const listener of closeListeners) listener();
+  });
+
+  return {
+    send(method, params = {}, timeout = INSPECTOR_TIMEOUT) {
+      return new Promise((resolve, reject) => {
+        if (socket.readyState !== WebSocket.OPEN) {
+          reject(new Error('The inspector connection is closed'));
+          return;
+        }
+        const id = nextId++;
+        // A timeout of 0 waits indefinitely, e.g. for heap snapshots of large heaps
+        const timer = timeout > 0
+          ? setTimeout(() => {
+            pending.delete(id);
+            reject(new Error(`Timed out waiting for ${method}`));
+          }, timeout)
+          : null;
+        pending.set(id, { resolve, reject, timer });
+        socket.send(JSON.stringify({ id, method, params }));
+      });
+    },
+    on(event, listener) {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      // Events are dispatched by name, so each listener receives the parameters of its event
+      listeners.get(event)!.add(listener as (params: unknown) => void);
+    },
+    off(event, listener) {
+      listeners.get(event)?.delete(listener as (params: unknown) => void);
+    },
+    onClose(listener) {
+      closeListeners.add(listener);
+    },
+    offClose(listener) {
+      closeListeners.delete(listener);
+    },
+    close() {
+      socket.close();
+    }
+  };
+}
@@ -0,0 +1,170 @@
+// Numeric levels used by pino and bunyan, and the names they are shown with
+const LEVELS: Record<string, number> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  warning: 40,
+  error: 50,
+  fatal: 60,
+  critical: 60
+};
+
+// Keys shown in the line header rather than as extra fields, or not worth repeating on every line
+const HEADER_KEYS = new Set(['level', 'severity', 'time', 'msg', 'message', 'v', 'pid', 'hostname']);
+
+// Keys pino and common serializers use for errors
+const ERROR_KEYS = ['err', 'error'];
+
+// A parsed JSON log line
+export type JsonLogRecord = Record<string, unknown>;
+
+// Comparison against a log level, e.g. ">= warn"
+export interface LevelFilter {
+  operator: '>=' | '>' | '<=' | '<' | '=';
+  level: number;
+}
+
+// Test of a field of a JSON log line: equality, or a regular expression written as /pattern/flags
+export interface FieldFilter {
+  path: string[];
+  test: (value: unknown) => boolean;
+}
+
+/**
+ * Parse a line of newline-delimited JSON logging (pino, bunyan and similar).
+ * Returns null for lines that are not a JSON object.
+ */
+export function parseJsonLog(text: string): JsonLogRecord | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) return null;
+  try {
+    const record = JSON.parse(trimmed);
+    return record && typeof record === 'object' && !Array.isArray(record) ? record : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Numeric level of a level name or number, or null if it is unknown
+function levelValue(level: unknown): number | null {
+  if (typeof level === 'number') return level;
+  if (typeof level !== 'string') return null;
+  if (/^\d+$/.test(level)) return Number(level);
+  return LEVELS[level.toLowerCase()] ?? null;
+}
+
+// Level of a JSON log line as a number, if it has a known one
+export function getLogLevel(record: JsonLogRecord): number | null {
+  return levelValue(record.level ?? record.severity);
+}
+
+// Name of a numeric level, or the number itself for custom levels
+function levelName(level: number): string {
+  const name = Object.keys(LEVELS).find(key => LEVELS[key] === level);
+  return (name ?? String(level)).toUpperCase();
+}
+
+/**
+ * Parse a level filter such as ">= warn", "<30" or "error". A bare level means
+ * that level or more severe.
+ */
+export function parseLevelFilter(expression: string): LevelFilter {
+  const match = /^\s*(>=|<=|==|=|>|<)?\s*(\w+)\s*$/.exec(expression);
+  const level = match ? levelValue(match[2]) : null;
+  if (!match || level === null) {
+    throw new Error(`Invalid level filter '${expression}'. Use a level name or number with an optional operator, like ">= warn" or "error"`);
+  }
+  const operator = (match[1] === '==' ? '=' : match[1] ?? '>=') as LevelFilter['operator'];
+  return { operator, level };
+}
+
+// Whether a log level passes a level filter
+export function matchesLevel(level: number | null, filter: LevelFilter): boolean {
+  if (level === null) return false;
+  switch (filter.operator) {
+    case '>=': return level >= filter.level;
+    case '>': return level > filter.level;
+    case '<=': return level <= filter.level;
+    case '<': return level < filter.level;
+    case '=': return level === filter.level;
+  }
+}
+
+/**
+ * Build filters for fields of JSON log lines. Keys may be dotted paths such as
+ * "req.method". Values match by string equality, or as a regular expression
+ * when written as /pattern/flags. The g and y flags are ignored.
+ */
+export function parseFieldFilters(fields: Record<string, string>): FieldFilter[] {
+  return Object.entries(fields).map(([key, expected]) => {
+    const regex = /^\/(.*)\/([a-z]*)$/s.exec(expected);
+    let test: (value: unknown) => boolean;
+    if (regex) {
+      let pattern: RegExp;
+      try {
+        // The filter is tested against many lines, so stateful flags would skip matches
+        pattern = new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+      } catch (error) {
+        throw new Error(`Invalid regular expression for field '${key}': ${error instanceof Error ? error.message : String(error)}`);
+      }
+      test = value => value !== undefined && pattern.test(typeof value === 'string' ? value : JSON.stringify(value));
+    } else {
+      test = value => value !== undefined && (typeof value === 'string' ? value : JSON.stringify(value)) === expected;
+    }
+    return { path: key.split('.'), test };
+  });
+}
+
+// Value at a dotted path of a JSON log line
+function getField(record: JsonLogRecord, path: string[]): unknown {
+  let value: unknown = record;
+  for (const key of path) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+// Whether a JSON log line passes all field filters
+export function matchesFields(record: JsonLogRecord, filters: FieldFilter[]): boolean {
+  return filters.every(filter => filter.test(getField(record, filter.path)));
+}
+
+// Show an extra field compactly: strings as is unless they contain spaces, everything else as JSON
+function formatValue(value: unknown): string {
+  if (typeof value === 'string' && value !== '' && !/[\s"=]/.test(value)) return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Render a JSON log line readably: level, message and the remaining fields as
+ * key=value pairs. Error objects are expanded to their stack trace on the
+ * following lines.
+ */
+export function formatJsonLog(record: JsonLogRecord): string {
+  const level = getLogLevel(record);
+  const message = record.msg ?? record.message;
+  let text = level !== null ? levelName(level).padEnd(5) : 'LOG  ';
+  if (message !== undefined) {
+    text += ` ${typeof message === 'string' ? message : JSON.stringify(message)}`;
+  }
+
+  const stacks: string[] = [];
+  for (const [key, value] of Object.entries(record)) {
+    if (HEADER_KEYS.has(key)) continue;
+    if (ERROR_KEYS.includes(key) && value && typeof value === 'object') {
+      const error = value as Record<string, unknown>;
+      if (typeof error.stack === 'string') {
+        stacks.push(`${key}: ${error.stack.split('\n').join('\n  ')}`);
+        // The stack starts with the type and message; show any other error properties as usual
+        const rest = Object.fromEntries(Object.entries(error).filter(([name]) => !['stack', 'type', 'message'].includes(name)));
+        if (Object.keys(rest).length > 0) text += ` ${key}=${formatValue(rest)}`;
+        continue;
+      }
+    }
+    text += ` ${key}=${formatValue(value)}`;
+  }
+
+  return stacks.length > 0 ? `${text}\n  ${stacks.join('\n  ')}` : text;
+}
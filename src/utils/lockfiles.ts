@@ -0,0 +1,563 @@
+import * as fs from "fs";
+import * as path from "path";
+import { loadWorkspace, findWorkspaceRoot } from "./workspaces.js";
+
+export type DependencyType = 'prod' | 'dev' | 'optional' | 'peer';
+
+// package.json fields declaring dependencies
+export type DependencyField = 'dependencies' | 'devDependencies' | 'optionalDependencies' | 'peerDependencies';
+
+// The fields of a package.json the dependency tools read
+export interface PackageManifest extends Partial<Record<DependencyField, Record<string, string>>> {
+  name?: string;
+  version?: string;
+}
+
+// A dependency declared by a package and what it resolved to
+export interface LockedDependency {
+  name: string;
+  // Range as declared, e.g. ^4.17.0, or null when the lockfile does not record it
+  range: string | null;
+  type: DependencyType;
+  // ID of the package it resolved to, or null when it is missing
+  id: string | null;
+}
+
+// A package in the dependency graph
+export interface LockedPackage {
+  // Unique key, e.g. node_modules/a/node_modules/b or a@1.0.0
+  id: string;
+  name: string;
+  version: string;
+  // Directory relative to the project root, when the lockfile records one
+  location: string | null;
+  // Whether it is the root package or a workspace package
+  importer: boolean;
+  dependencies: LockedDependency[];
+}
+
+// Everything installed for a project, as recorded by its lockfile or found in node_modules
+export interface DependencyGraph {
+  format: 'package-lock.json' | 'npm-shrinkwrap.json' | 'pnpm-lock.yaml' | 'yarn.lock' | 'node_modules';
+  // Lockfile or node_modules directory the graph was read from
+  source: string;
+  // Directory containing the lockfile; importer directories are relative to it
+  root: string;
+  // Root package ('') and workspace packages by directory
+  importers: Map<string, LockedPackage>;
+  // All packages by ID, including the importers
+  packages: Map<string, LockedPackage>;
+}
+
+// Lockfiles in the order they are checked, like package manager detection does
+const LOCKFILES: Array<DependencyGraph['format']> = ['pnpm-lock.yaml', 'yarn.lock', 'npm-shrinkwrap.json', 'package-lock.json'];
+
+// package.json fields declaring dependencies; later fields win for names declared twice
+const DEPENDENCY_FIELDS: Array<[DependencyField, DependencyType]> = [
+  ['devDependencies', 'dev'],
+  ['peerDependencies', 'peer'],
+  ['dependencies', 'prod'],
+  ['optionalDependencies', 'optional']
+];
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.promises.access(file);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Read a package.json; throws when it is missing or is not a JSON object
+export async function readManifest(file: string): Promise<PackageManifest> {
+  const manifest = JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+  if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+    throw new Error(`${file} is not a JSON object`);
+  }
+  return manifest;
+}
+
+// Dependencies declared in a package.json or lockfile entry, sorted by name
+function declaredDependencies(manifest: PackageManifest | undefined, includeDev: boolean): Array<{ name: string, range: string, type: DependencyType }> {
+  const declared = new Map<string, { name: string, range: string, type: DependencyType }>();
+  for (const [field, type] of DEPENDENCY_FIELDS) {
+    if (type === 'dev' && !includeDev) continue;
+    for (const [name, range] of Object.entries(manifest?.[field] ?? {})) {
+      declared.set(name, { name, range: String(range), type });
+    }
+  }
+  return Array.from(declared.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Package name and version of a key like @scope/name@1.0.0
+function splitNameVersion(key: string): [string, string] {
+  const at = key.indexOf('@', 1);
+  return at === -1 ? [key, ''] : [key.slice(0, at), key.slice(at + 1)];
+}
+
+// Package name of a location like node_modules/@scope/name
+function nameFromLocation(location: string): string {
+  const match = /(?:^|\/)node_modules\/((?:@[^/]+\/)?[^/]+)$/.exec(location);
+  return match ? match[1] : path.posix.basename(location);
+}
+
+/**
+ * Find the lockfile of a package directory, looking in the directory and its
+ * parents up to the project root (the directory with .git), so packages of a
+ * workspace use the lockfile of the workspace root.
+ */
+export async function findLockfile(dir: string): Promise<{ file: string, format: DependencyGraph['format'] } | null> {
+  let current = path.resolve(dir);
+  while (true) {
+    for (const format of LOCKFILES) {
+      const file = path.join(current, format);
+      if (await exists(file)) {
+        return { file, format };
+      }
+    }
+    const parent = path.dirname(current);
+    if (parent === current || await exists(path.join(current, '.git'))) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+// npm lockfiles (package-lock.json and npm-shrinkwrap.json)
+
+// An entry of the `packages` section of a v2/v3 lockfile, keyed by location
+interface NpmLockEntry extends PackageManifest {
+  // Links point at the location in `resolved`, e.g. workspace packages
+  link?: boolean;
+  resolved?: string;
+}
+
+// An entry of the nested `dependencies` of a v1 lockfile
+interface NpmLockV1Entry {
+  version?: string;
+  requires?: Record<string, string>;
+  dependencies?: Record<string, NpmLockV1Entry>;
+}
+
+interface NpmLockfile {
+  packages?: Record<string, NpmLockEntry>;
+  dependencies?: Record<string, NpmLockV1Entry>;
+}
+
+// The lockfile v2/v3 `packages` section, rebuilt from the nested `dependencies` of a v1 lockfile
+function flattenLockfileV1(dependencies: Record<string, NpmLockV1Entry> | undefined, parent: string, entries: Record<string, NpmLockEntry>): void {
+  for (const [name, entry] of Object.entries(dependencies ?? {})) {
+    const location = `${parent ? `${parent}/` : ''}node_modules/${name}`;
+    entries[location] = { name, version: entry.version, dependencies: entry.requires };
+    flattenLockfileV1(entry.dependencies, location, entries);
+  }
+}
+
+function readNpmLockfile(lock: NpmLockfile, rootManifest: PackageManifest): Record<string, NpmLockEntry> {
+  if (lock.packages) return lock.packages;
+  const entries: Record<string, NpmLockEntry> = { '': rootManifest };
+  flattenLockfileV1(lock.dependencies, '', entries);
+  return entries;
+}
+
+function buildNpmGraph(entries: Record<string, NpmLockEntry>): Pick<DependencyGraph, 'importers' | 'packages'> {
+  const packages = new Map<string, LockedPackage>();
+  const importers = new Map<string, LockedPackage>();
+
+  // Locations of links, like node_modules/my-lib -> packages/my-lib
+  const follow = (location: string): string => entries[location]?.link ? entries[location].resolved ?? location : location;
+
+  // Node's module resolution over the locations of the lockfile
+  const resolve = (from: string, name: string): string | null => {
+    let dir = from;
+    while (true) {
+      const candidate = `${dir ? `${dir}/` : ''}node_modules/${name}`;
+      if (entries[candidate]) return follow(candidate);
+      if (dir === '') return null;
+      dir = dir.includes('/') ? dir.slice(0, dir.lastIndexOf('/')) : '';
+    }
+  };
+
+  const linked = new Set(Object.values(entries).filter(entry => entry.link).map(entry => entry.resolved));
+  for (const [location, entry] of Object.entries(entries)) {
+    if (entry.link) continue;
+    const importer = location === '' || (linked.has(location) && !location.includes('node_modules/'));
+    const pkg: LockedPackage = {
+      id: location,
+      name: entry.name ?? (location === '' ? '(root)' : nameFromLocation(location)),
+      version: entry.version ?? '',
+      location,
+      importer,
+      dependencies: declaredDependencies(entry, importer).map(dependency => ({ ...dependency, id: resolve(location, dependency.name) }))
+    };
+    packages.set(location, pkg);
+    if (importer) importers.set(location, pkg);
+  }
+  return { importers, packages };
+}
+
+// Minimal YAML for pnpm-lock.yaml and yarn.lock: nested block mappings and lists of scalars
+
+export type YamlValue = string | string[] | YamlMapping;
+
+export interface YamlMapping {
+  [key: string]: YamlValue;
+}
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+// A value that should be a mapping, or an empty one when it is not
+function asMapping(value: YamlValue | undefined): YamlMapping {
+  return typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+// A value that should be a scalar, or undefined when it is not
+function asScalar(value: YamlValue | undefined): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+// The dependency fields of a lockfile entry as a package.json, for declaredDependencies
+function toManifest(entry: YamlMapping): PackageManifest {
+  const manifest: PackageManifest = {};
+  for (const [field] of DEPENDENCY_FIELDS) {
+    const ranges = Object.entries(asMapping(entry[field])).filter((pair): pair is [string, string] => typeof pair[1] === 'string');
+    if (ranges.length > 0) manifest[field] = Object.fromEntries(ranges);
+  }
+  return manifest;
+}
+
+function unquote(text: string): string {
+  if (/^"(?:[^"\\]|\\.)*"$/.test(text)) {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      return text.slice(1, -1);
+    }
+  }
+  if (/^'.*'$/.test(text)) return text.slice(1, -1).replace(/''/g, "'");
+  return text;
+}
+
+// Key and value of a line like `key: value`, `key:`, or yarn v1's `key "value"`
+function splitEntry(text: string): [string, string] {
+  if (text.endsWith(':')) {
+    const key = text.slice(0, -1);
+    // Headers listing several quoted keys are kept as written
+    return [/^("[^"]*"|'[^']*')$/.test(key) ? unquote(key) : key, ''];
+  }
+  const quoted = /^("(?:[^"\\]|\\.)*"|'[^']*')(:?)\s*(.*)$/.exec(text);
+  if (quoted) return [unquote(quoted[1]), unquote(quoted[3])];
+  const colon = text.indexOf(': ');
+  if (colon !== -1) return [text.slice(0, colon), unquote(text.slice(colon + 2).trim())];
+  const space = text.indexOf(' ');
+  return space === -1 ? [text, ''] : [text.slice(0, space), unquote(text.slice(space + 1).trim())];
+}
+
+function parseYamlBlock(lines: YamlLine[], start: number, indent: number): [YamlValue, number] {
+  let i = start;
+  if (lines[i].text.startsWith('- ') || lines[i].text === '-') {
+    const items: string[] = [];
+    while (i < lines.length && lines[i].indent >= indent) {
+      if (lines[i].indent === indent && lines[i].text.startsWith('-')) {
+        items.push(unquote(lines[i].text.slice(1).trim()));
+      }
+      i++;
+    }
+    return [items, i];
+  }
+
+  const object: YamlMapping = {};
+  while (i < lines.length && lines[i].indent >= indent) {
+    if (lines[i].indent > indent) {
+      // Continuation of a multi-line value
+      i++;
+      continue;
+    }
+    const [key, value] = splitEntry(lines[i].text);
+    i++;
+    if (value === '' && i < lines.length && lines[i].indent > indent) {
+      [object[key], i] = parseYamlBlock(lines, i, lines[i].indent);
+    } else {
+      object[key] = value;
+    }
+  }
+  return [object, i];
+}
+
+// Parse the subset of YAML used by pnpm-lock.yaml and yarn.lock files
+export function parseLockfileYaml(content: string): YamlMapping {
+  const lines: YamlLine[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const text = line.trim();
+    if (!text || text.startsWith('#') || text === '---') continue;
+    lines.push({ indent: line.length - line.trimStart().length, text });
+  }
+  return lines.length === 0 ? {} : asMapping(parseYamlBlock(lines, 0, lines[0].indent)[0]);
+}
+
+// pnpm-lock.yaml
+
+function buildPnpmGraph(lock: YamlMapping): Pick<DependencyGraph, 'importers' | 'packages'> {
+  const lockfileVersion = parseFloat(asScalar(lock.lockfileVersion) ?? '0');
+  const packages = new Map<string, LockedPackage>();
+  const importers = new Map<string, LockedPackage>();
+
+  // Keys are /name/1.0.0 (v5), /name@1.0.0 (v6) or name@1.0.0 (v9), with peers as _peer@1 or (peer@1)
+  const normalizeKey = (key: string): string => {
+    const stripped = key.replace(/^\//, '');
+    if (lockfileVersion >= 6) return stripped;
+    const slash = stripped.lastIndexOf('/');
+    return `${stripped.slice(0, slash)}@${stripped.slice(slash + 1)}`;
+  };
+  const importerId = (dir: string) => `workspace:${dir || '.'}`;
+
+  // ID of the package a resolved version like 1.0.0(peer@1), link:../lib or /alias@1.0.0 refers to
+  const resolveVersion = (name: string, version: string, fromDir: string): string => {
+    if (version.startsWith('link:')) {
+      return importerId(path.posix.normalize(path.posix.join(fromDir, version.slice(5))).replace(/^\.$/, ''));
+    }
+    if (version.startsWith('/')) return normalizeKey(version);
+    if (lockfileVersion >= 9 && /^@?[^@(]+@/.test(version) && !/^\d/.test(version)) return version;
+    return `${name}@${version}`;
+  };
+
+  const entries = asMapping(lock.snapshots ?? lock.packages);
+  for (const [key, entry] of Object.entries(entries)) {
+    const id = normalizeKey(key);
+    const [name, versionWithPeers] = splitNameVersion(id);
+    const dependencies: LockedDependency[] = [];
+    for (const [field, type] of [['dependencies', 'prod'], ['optionalDependencies', 'optional']] as const) {
+      for (const [dependency, version] of Object.entries(asMapping(asMapping(entry)[field]))) {
+        dependencies.push({ name: dependency, range: null, type, id: resolveVersion(dependency, asScalar(version) ?? '', '') });
+      }
+    }
+    packages.set(id, {
+      id,
+      name,
+      version: versionWithPeers.replace(/[(_].*$/, ''),
+      location: null,
+      importer: false,
+      dependencies: dependencies.sort((a, b) => a.name.localeCompare(b.name))
+    });
+  }
+
+  // Lockfiles before v5.3 describe the root package at the top level
+  const lockImporters = lock.importers !== undefined ? asMapping(lock.importers) : { '.': lock };
+  for (const [key, value] of Object.entries(lockImporters)) {
+    const dir = key === '.' ? '' : key;
+    const importer = asMapping(value);
+    const dependencies: LockedDependency[] = [];
+    for (const [field, type] of [['dependencies', 'prod'], ['devDependencies', 'dev'], ['optionalDependencies', 'optional']] as const) {
+      for (const [name, resolved] of Object.entries(asMapping(importer[field]))) {
+        // v6 and later record { specifier, version }, earlier versions the version and a separate specifiers map
+        const details = asMapping(resolved);
+        const version = asScalar(resolved) ?? asScalar(details.version) ?? '';
+        const range = typeof resolved === 'string' ? asScalar(asMapping(importer.specifiers)[name]) : asScalar(details.specifier);
+        dependencies.push({ name, range: range ?? null, type, id: resolveVersion(name, version, dir) });
+      }
+    }
+    const pkg: LockedPackage = {
+      id: importerId(dir),
+      name: dir || '(root)',
+      version: '',
+      location: dir,
+      importer: true,
+      dependencies: dependencies.sort((a, b) => a.name.localeCompare(b.name))
+    };
+    packages.set(pkg.id, pkg);
+    importers.set(dir, pkg);
+  }
+
+  // Mark dependencies on packages missing from the lockfile
+  for (const pkg of packages.values()) {
+    for (const dependency of pkg.dependencies) {
+      if (dependency.id && !packages.has(dependency.id)) dependency.id = null;
+    }
+  }
+  return { importers, packages };
+}
+
+// yarn.lock, both the v1 format and the YAML format of yarn 2 and later
+
+async function buildYarnGraph(lock: YamlMapping, root: string): Promise<Pick<DependencyGraph, 'importers' | 'packages'>> {
+  const berry = lock.__metadata !== undefined;
+  const packages = new Map<string, LockedPackage>();
+  const importers = new Map<string, LockedPackage>();
+  // Package IDs by descriptor, e.g. lodash@^4.17.0 (v1) or lodash@npm:^4.17.0
+  const descriptors = new Map<string, string>();
+  const importerId = (dir: string) => `workspace:${dir || '.'}`;
+
+  // Descriptor of a dependency, adding the npm: protocol yarn 2 uses for plain ranges
+  const descriptor = (name: string, range: string) =>
+    berry && !/^[a-z]+:/.test(range) ? `${name}@npm:${range}` : `${name}@${range}`;
+
+  const entries: Array<[string[], YamlMapping]> = Object.entries(lock)
+    .filter(([key]) => key !== '__metadata')
+    .map(([key, entry]) => [key.split(/,\s*/).map(unquote), asMapping(entry)]);
+
+  for (const [keys, entry] of entries) {
+    // yarn 2 records what the descriptors resolved to, e.g. lib@workspace:packages/lib for lib@workspace:^
+    const [name, reference] = splitNameVersion(asScalar(entry.resolution) ?? keys[0]);
+    const workspaceDir = reference.startsWith('workspace:') ? reference.slice('workspace:'.length).replace(/^\.$/, '') : null;
+    const version = asScalar(entry.version) ?? '';
+    const id = workspaceDir !== null ? importerId(workspaceDir) : `${name}@${version}`;
+    for (const key of keys) descriptors.set(key, id);
+    if (packages.has(id)) continue;
+    packages.set(id, {
+      id,
+      name: workspaceDir === '' ? '(root)' : name,
+      version: workspaceDir !== null ? '' : version,
+      location: workspaceDir,
+      importer: workspaceDir !== null,
+      dependencies: declaredDependencies(toManifest(entry), false).map(dependency => ({ ...dependency, id: null }))
+    });
+  }
+
+  // yarn 1 does not record workspaces; read the root and workspace package.json files instead
+  if (!berry) {
+    const dirs = [''];
+    if (await findWorkspaceRoot(root) === root) {
+      dirs.push(...(await loadWorkspace(root)).packages.map(pkg => pkg.relativeDir));
+    }
+    for (const dir of dirs) {
+      try {
+        const manifest = await readManifest(path.join(root, dir, 'package.json'));
+        const id = importerId(dir);
+        packages.set(id, {
+          id,
+          name: manifest.name ?? (dir || '(root)'),
+          version: manifest.version ?? '',
+          location: dir,
+          importer: true,
+          dependencies: declaredDependencies(manifest, true).map(dependency => ({ ...dependency, id: null }))
+        });
+      } catch (error) {
+        // Packages without a readable package.json are left out
+      }
+    }
+  }
+
+  for (const pkg of packages.values()) {
+    if (pkg.importer) importers.set(pkg.location!, pkg);
+  }
+  // Workspace packages are depended on by name, with workspace:^ or, in yarn 1, a plain range
+  const workspaces = new Map(Array.from(importers.values()).map(pkg => [pkg.name, pkg.id]));
+  for (const pkg of packages.values()) {
+    for (const dependency of pkg.dependencies) {
+      dependency.id = descriptors.get(descriptor(dependency.name, dependency.range!)) ??
+        (!berry || dependency.range!.startsWith('workspace:') ? workspaces.get(dependency.name) : undefined) ?? null;
+    }
+  }
+  return { importers, packages };
+}
+
+// node_modules, for projects without a lockfile
+
+async function buildNodeModulesGraph(root: string): Promise<Pick<DependencyGraph, 'importers' | 'packages'>> {
+  const packages = new Map<string, LockedPackage>();
+  const queue: Array<{ pkg: LockedPackage, dir: string, manifest: PackageManifest }> = [];
+
+  const addPackage = (dir: string, manifest: PackageManifest, importer: boolean): LockedPackage => {
+    const location = path.relative(root, dir).split(path.sep).join('/');
+    const pkg: LockedPackage = {
+      id: location,
+      name: importer ? manifest.name ?? '(root)' : manifest.name ?? nameFromLocation(location),
+      version: manifest.version ?? '',
+      location,
+      importer,
+      dependencies: []
+    };
+    packages.set(location, pkg);
+    queue.push({ pkg, dir, manifest });
+    return pkg;
+  };
+
+  // Node's module resolution, following symlinks like those of pnpm's layout
+  const resolve = async (from: string, name: string): Promise<string | null> => {
+    let dir = from;
+    while (true) {
+      const candidate = path.join(dir, 'node_modules', name);
+      if (await exists(path.join(candidate, 'package.json'))) {
+        return fs.promises.realpath(candidate);
+      }
+      const parent = path.dirname(dir);
+      if (dir === root || parent === dir) return null;
+      dir = parent;
+    }
+  };
+
+  const rootPackage = addPackage(root, await readManifest(path.join(root, 'package.json')), true);
+  while (queue.length > 0) {
+    const { pkg, dir, manifest } = queue.shift()!;
+    for (const dependency of declaredDependencies(manifest, pkg.importer)) {
+      const resolved = await resolve(dir, dependency.name);
+      let id: string | null = null;
+      if (resolved) {
+        id = path.relative(root, resolved).split(path.sep).join('/');
+        if (!packages.has(id)) {
+          try {
+            addPackage(resolved, await readManifest(path.join(resolved, 'package.json')), false);
+          } catch (error) {
+            id = null;
+          }
+        }
+      }
+      pkg.dependencies.push({ ...dependency, id });
+    }
+  }
+  return { importers: new Map([['', rootPackage]]), packages };
+}
+
+/**
+ * Read the dependency graph of a package directory from the lockfile of its
+ * project (package-lock.json, npm-shrinkwrap.json, pnpm-lock.yaml or
+ * yarn.lock), or from node_modules when there is no lockfile. Works offline.
+ */
+export async function readDependencyGraph(dir: string): Promise<DependencyGraph> {
+  const absDir = path.resolve(dir);
+  const lockfile = await findLockfile(absDir);
+
+  if (!lockfile) {
+    if (!await exists(path.join(absDir, 'node_modules'))) {
+      throw new Error(`No lockfile (package-lock.json, npm-shrinkwrap.json, pnpm-lock.yaml or yarn.lock) or node_modules found for ${absDir}`);
+    }
+    return { format: 'node_modules', source: path.join(absDir, 'node_modules'), root: absDir, ...await buildNodeModulesGraph(absDir) };
+  }
+
+  const root = path.dirname(lockfile.file);
+  const content = await fs.promises.readFile(lockfile.file, 'utf-8');
+  let graph: Pick<DependencyGraph, 'importers' | 'packages'>;
+  switch (lockfile.format) {
+    case 'pnpm-lock.yaml':
+      graph = buildPnpmGraph(parseLockfileYaml(content));
+      break;
+    case 'yarn.lock':
+      graph = await buildYarnGraph(parseLockfileYaml(content), root);
+      break;
+    default: {
+      let rootManifest: PackageManifest = {};
+      try {
+        rootManifest = await readManifest(path.join(root, 'package.json'));
+      } catch (error) {
+        // Lockfiles v2 and later describe the root package themselves
+      }
+      graph = buildNpmGraph(readNpmLockfile(JSON.parse(content) as NpmLockfile, rootManifest));
+    }
+  }
+
+  // Name importers after their package.json, which pnpm and yarn lockfiles do not record
+  for (const [dir, importer] of graph.importers) {
+    try {
+      const manifest = await readManifest(path.join(root, dir, 'package.json'));
+      importer.name = manifest.name ?? importer.name;
+      importer.version = manifest.version ?? importer.version;
+    } catch (error) {
+      // Keep the name from the lockfile
+    }
+  }
+  return { format: lockfile.format, source: lockfile.file, root, ...graph };
+}
@@ -0,0 +1,314 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { getStateDir } from "./helpers.js";
+import { LogLine, LogStream, ServerInfo } from "../types/index.js";
+
+// Number of most recent log lines kept in memory per server
+const MAX_MEMORY_LINES = 1000;
+
+// A log file is rotated once it grows beyond this size
+const MAX_LOG_FILE_SIZE = 10 * 1024 * 1024;
+
+// Number of log files kept per server, including the current one
+const MAX_LOG_FILES = 5;
+
+// Output without a newline is split into lines of at most this many characters
+const MAX_LINE_LENGTH = 64 * 1024;
+
+// A line of a log file: "<seq> <ISO time> [<stream>] <text as a JSON string>"
+const LOG_LINE_PATTERN = /^(\d+) (\S+) \[(stdout|stderr|mcp-node)\] ("(?:[^"\\]|\\.)*")$/;
+
+// Line terminators JSON.stringify leaves unescaped, which would split a record when it is read back
+const UNESCAPED_TERMINATORS = /[\u0085\u2028\u2029]/g;
+
+// Location of the log file of a server
+export function getServerLogPath(serverId: string): string {
+  return path.join(getStateDir(), 'logs', `${serverId}.log`);
+}
+
+// Path of a log file generation: 0 is the current file, higher numbers are older
+function rotatedPath(logFile: string, generation: number): string {
+  return generation === 0 ? logFile : `${logFile}.${generation}`;
+}
+
+// Encode the text of a record so that it stays on one line of the log file
+function encodeLogText(text: string): string {
+  return JSON.stringify(text).replace(UNESCAPED_TERMINATORS, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
+
+// Parse a line of a log file; lines in an unknown format are skipped
+function parseLogLine(line: string): LogLine | null {
+  const match = LOG_LINE_PATTERN.exec(line);
+  if (!match) return null;
+  let text: string;
+  try {
+    text = JSON.parse(match[4]);
+  } catch (error) {
+    return null;
+  }
+  return { seq: Number(match[1]), time: new Date(match[2]), stream: match[3] as LogStream, text };
+}
+
+// Open the log file of a server for appending
+export function openLogFile(serverInfo: ServerInfo): void {
+  try {
+    fs.mkdirSync(path.dirname(serverInfo.logFile), { recursive: true });
+    serverInfo.logFd = fs.openSync(serverInfo.logFile, 'a');
+    serverInfo.logSize = fs.fstatSync(serverInfo.logFd).size;
+  } catch (error) {
+    serverInfo.logFd = null;
+    appendLogLine(serverInfo, 'mcp-node', `Unable to open log file ${serverInfo.logFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Close the log file of a server
+export function closeLogFile(serverInfo: ServerInfo): void {
+  if (serverInfo.logFd === null) return;
+  try {
+    fs.closeSync(serverInfo.logFd);
+  } catch (error) {
+    // Already closed
+  }
+  serverInfo.logFd = null;
+}
+
+// Delete a log file and its rotated generations, synchronously so this also works right before mcp-node exits
+export function removeLogFiles(logFile: string): void {
+  for (let generation = 0; generation < MAX_LOG_FILES; generation++) {
+    try {
+      fs.rmSync(rotatedPath(logFile, generation), { force: true });
+    } catch (error) {
+      // Leftover log files are harmless
+    }
+  }
+}
+
+// Start a new log file, shifting the older generations and dropping the oldest one
+function rotateLogFile(serverInfo: ServerInfo): void {
+  closeLogFile(serverInfo);
+  for (let generation = MAX_LOG_FILES - 1; generation > 0; generation--) {
+    try {
+      fs.renameSync(rotatedPath(serverInfo.logFile, generation - 1), rotatedPath(serverInfo.logFile, generation));
+    } catch (error) {
+      // Missing generations are fine
+    }
+  }
+  openLogFile(serverInfo);
+}
+
+/**
+ * Record a complete line of output: keep it in the in-memory tail and append it
+ * to the log file, rotating the file when it grows too large.
+ */
+export function appendLogLine(serverInfo: ServerInfo, stream: LogStream, text: string, time = new Date()): LogLine {
+  const line: LogLine = { seq: serverInfo.lineCount++, time, stream, text };
+
+  serverInfo.logs.push(line);
+  if (serverInfo.logs.length > MAX_MEMORY_LINES) {
+    serverInfo.logs.shift(); // Remove oldest line if exceeding limit
+  }
+
+  if (serverInfo.logFd !== null) {
+    const record = `${line.seq} ${time.toISOString()} [${stream}] ${encodeLogText(text)}\n`;
+    try {
+      fs.writeSync(serverInfo.logFd, record);
+      serverInfo.logSize += Buffer.byteLength(record);
+    } catch (error) {
+      // A full disk must not take the server down with it
+    }
+    if (serverInfo.logSize >= MAX_LOG_FILE_SIZE) {
+      rotateLogFile(serverInfo);
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Split a chunk of process output into lines. The text after the last newline
+ * is kept until the line is completed by a later chunk or flushed.
+ */
+export function appendOutput(serverInfo: ServerInfo, stream: 'stdout' | 'stderr', chunk: string): LogLine[] {
+  const time = new Date();
+  const parts = (serverInfo.partialLines[stream] + chunk).split('\n');
+  let partial = parts.pop()!;
+
+  const lines = parts.map(text => appendLogLine(serverInfo, stream, text.replace(/\r$/, ''), time));
+  while (partial.length > MAX_LINE_LENGTH) {
+    lines.push(appendLogLine(serverInfo, stream, partial.slice(0, MAX_LINE_LENGTH), time));
+    partial = partial.slice(MAX_LINE_LENGTH);
+  }
+  serverInfo.partialLines[stream] = partial;
+  return lines;
+}
+
+// Record the incomplete last line of a stream, e.g. once the stream has ended
+export function flushPartialLine(serverInfo: ServerInfo, stream: 'stdout' | 'stderr'): LogLine[] {
+  const partial = serverInfo.partialLines[stream];
+  if (!partial) return [];
+  serverInfo.partialLines[stream] = '';
+  return [appendLogLine(serverInfo, stream, partial.replace(/\r$/, ''))];
+}
+
+/**
+ * Load the last lines and the line count of an existing log file, so a server
+ * adopted from a previous mcp-node session continues its log history.
+ */
+export function loadLogState(logFile: string): { logs: LogLine[], lineCount: number } {
+  // Right after a rotation the current file is empty and the last lines are in the previous generation
+  for (let generation = 0; generation < MAX_LOG_FILES; generation++) {
+    let content: string;
+    try {
+      content = fs.readFileSync(rotatedPath(logFile, generation), 'utf-8');
+    } catch (error) {
+      continue;
+    }
+
+    const logs: LogLine[] = [];
+    for (const text of content.split('\n')) {
+      const line = parseLogLine(text);
+      if (line) logs.push(line);
+    }
+    if (logs.length > 0) {
+      return { logs: logs.slice(-MAX_MEMORY_LINES), lineCount: logs[logs.length - 1].seq + 1 };
+    }
+  }
+  return { logs: [], lineCount: 0 };
+}
+
+// Parsed lines of a log file; the file is closed as soon as the caller stops reading
+async function* readLogFile(file: string): AsyncGenerator<LogLine> {
+  const input = fs.createReadStream(file, 'utf-8');
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  try {
+    for await (const text of lines) {
+      const line = parseLogLine(text);
+      if (line) yield line;
+    }
+  } catch (error) {
+    // Missing file, or the file was rotated away while we were reading it
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+// Seq of the first line of a log file, or null if it has none
+async function firstSeq(file: string): Promise<number | null> {
+  for await (const line of readLogFile(file)) {
+    return line.seq;
+  }
+  return null;
+}
+
+// Log file generations from oldest to newest, with the seq of their first line
+async function listLogFiles(serverInfo: ServerInfo): Promise<Array<{ file: string, first: number }>> {
+  const files: Array<{ file: string, first: number }> = [];
+  for (let generation = MAX_LOG_FILES - 1; generation >= 0; generation--) {
+    const file = rotatedPath(serverInfo.logFile, generation);
+    const first = await firstSeq(file);
+    if (first !== null) files.push({ file, first });
+  }
+  return files;
+}
+
+/**
+ * Read the log history of a server from its log files, oldest first, starting
+ * at line `fromSeq`. Lines rotated away are no longer available. Without a log
+ * file only the in-memory tail can be read.
+ */
+export async function* readLogHistory(serverInfo: ServerInfo, fromSeq = 0): AsyncGenerator<LogLine> {
+  if (serverInfo.logFd === null) {
+    yield* serverInfo.logs.filter(line => line.seq >= fromSeq);
+    return;
+  }
+
+  // Skip the files that end before the requested line
+  const files = await listLogFiles(serverInfo);
+  let start = 0;
+  while (start + 1 < files.length && files[start + 1].first <= fromSeq) start++;
+
+  // A rotation while reading renames the files; never yield a line twice
+  let nextSeq = fromSeq;
+  for (const { file } of files.slice(start)) {
+    for await (const line of readLogFile(file)) {
+      if (line.seq < nextSeq) continue;
+      nextSeq = line.seq + 1;
+      yield line;
+    }
+  }
+}
+
+// Filters and paging supported by queryLogs
+export interface LogQuery {
+  // Return lines starting at this line number
+  offset?: number;
+  since?: Date;
+  until?: Date;
+  // Maximum number of lines to return
+  limit: number;
+  match?: (line: LogLine) => boolean;
+}
+
+// A page of log lines
+export interface LogPage {
+  lines: LogLine[];
+  // Seq of the first line after this page that matches, or null if there is none
+  nextOffset: number | null;
+  // Seq of the oldest line still available
+  firstAvailable: number;
+}
+
+/**
+ * Page through the log history of a server. With an offset or time range, lines
+ * are returned from the start of the range forward; otherwise the last `limit`
+ * matching lines are returned.
+ */
+export async function queryLogs(serverInfo: ServerInfo, query: LogQuery): Promise<LogPage> {
+  const matches = (line: LogLine) =>
+    (!query.since || line.time >= query.since) &&
+    (!query.until || line.time <= query.until) &&
+    (!query.match || query.match(line));
+
+  let firstAvailable = serverInfo.logs.length > 0 ? serverInfo.logs[0].seq : serverInfo.lineCount;
+  if (serverInfo.logFd !== null) {
+    const files = await listLogFiles(serverInfo);
+    if (files.length > 0) firstAvailable = Math.min(firstAvailable, files[0].first);
+  }
+
+  const lines: LogLine[] = [];
+  let nextOffset: number | null = null;
+
+  if (query.offset !== undefined || query.since || query.until) {
+    for await (const line of readLogHistory(serverInfo, query.offset ?? 0)) {
+      if (query.until && line.time > query.until) break;
+      if (!matches(line)) continue;
+      if (lines.length === query.limit) {
+        nextOffset = line.seq;
+        break;
+      }
+      lines.push(line);
+    }
+    return { lines, nextOffset, firstAvailable };
+  }
+
+  // The in-memory tail is enough when it holds the whole history or enough matching lines
+  const memoryMatches = serverInfo.logs.filter(matches);
+  if (memoryMatches.length >= query.limit || serverInfo.logs.length === 0 || serverInfo.logs[0].seq <= firstAvailable) {
+    return { lines: memoryMatches.slice(-query.limit), nextOffset: null, firstAvailable };
+  }
+
+  for await (const line of readLogHistory(serverInfo)) {
+    if (!matches(line)) continue;
+    lines.push(line);
+    if (lines.length > query.limit) lines.shift();
+  }
+  return { lines, nextOffset: null, firstAvailable };
+}
+
+// Render a log line as "[stream] text", optionally prefixed with its line number and time
+export function formatLogLine(line: LogLine, details = false): string {
+  const text = `[${line.stream}] ${line.text}`;
+  return details ? `#${line.seq} ${line.time.toISOString()} ${text}` : text;
+}
@@ -0,0 +1,225 @@
+import * as fs from "fs";
+import { runningServers } from "./helpers.js";
+import { listProcessTree } from "./ports.js";
+import { ResourceSample, ServerInfo } from "../types/index.js";
+
+// Default interval between resource samples
+const DEFAULT_METRICS_INTERVAL = 5000;
+
+// Number of samples kept per server, e.g. 30 minutes at the default interval
+const MAX_METRICS_SAMPLES = 360;
+
+// Clock ticks per second of the CPU times in /proc/<pid>/stat (USER_HZ, 100 on all mainstream Linux platforms)
+const CLOCK_TICKS = 100;
+
+// Memory growth is only flagged with at least this many samples of the same process
+const MIN_GROWTH_SAMPLES = 5;
+
+// Memory growth is flagged when RSS grows by at least this much and this fraction of its starting value
+const MIN_GROWTH_BYTES = 10 * 1024 * 1024;
+const MIN_GROWTH_RATIO = 0.2;
+
+let _metricsInterval: number | null = null;
+let samplingTimer: NodeJS.Timeout | null = null;
+
+// CPU time of the process seen by the previous sample of each server, to compute CPU usage over the interval
+const previousCpu = new WeakMap<ServerInfo, { pid: number, ticks: number, time: number }>();
+
+// Get the interval between resource samples in milliseconds; 0 disables sampling
+export function getMetricsInterval(): number {
+  if (_metricsInterval === null) {
+    const configured = Number(process.env.MCP_NODE_METRICS_INTERVAL);
+    _metricsInterval = process.env.MCP_NODE_METRICS_INTERVAL && Number.isFinite(configured) && configured >= 0
+      ? configured
+      : DEFAULT_METRICS_INTERVAL;
+  }
+  return _metricsInterval;
+}
+
+// Override the sampling interval, e.g. from the --metrics-interval command line option
+export function setMetricsInterval(interval: number): void {
+  if (!Number.isFinite(interval) || interval < 0) {
+    throw new Error(`Invalid metrics interval: ${interval}`);
+  }
+  _metricsInterval = interval;
+}
+
+// Whether resource usage can be sampled on this platform
+export function isMetricsSupported(): boolean {
+  return fs.existsSync('/proc/self/stat');
+}
+
+// Value in kB of a field of /proc/<pid>/status or smaps_rollup, in bytes
+function readKbField(content: string, field: string): number | null {
+  const match = new RegExp(`^${field}:\\s+(\\d+) kB`, 'm').exec(content);
+  return match ? Number(match[1]) * 1024 : null;
+}
+
+/**
+ * Sample the resource usage of a server process from /proc. Returns null when
+ * the process is gone or /proc is not available.
+ */
+export async function sampleProcess(serverInfo: ServerInfo): Promise<ResourceSample | null> {
+  const pid = serverInfo.pid;
+  if (!pid) return null;
+
+  let stat: string;
+  let status: string;
+  try {
+    stat = await fs.promises.readFile(`/proc/${pid}/stat`, 'utf-8');
+    status = await fs.promises.readFile(`/proc/${pid}/status`, 'utf-8');
+  } catch (error) {
+    return null;
+  }
+  const now = Date.now();
+
+  // utime and stime are fields 14 and 15; parse after the command name, which may contain spaces
+  const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+  const ticks = Number(fields[11]) + Number(fields[12]);
+  const previous = previousCpu.get(serverInfo);
+  const cpuPercent = previous && previous.pid === pid && now > previous.time
+    ? Math.max(0, ((ticks - previous.ticks) / CLOCK_TICKS) / ((now - previous.time) / 1000) * 100)
+    : null;
+  previousCpu.set(serverInfo, { pid, ticks, time: now });
+
+  let anonymousBytes: number | null = null;
+  try {
+    anonymousBytes = readKbField(await fs.promises.readFile(`/proc/${pid}/smaps_rollup`, 'utf-8'), 'Anonymous');
+  } catch (error) {
+    // smaps_rollup needs Linux 4.14
+  }
+
+  let openFds = 0;
+  try {
+    openFds = (await fs.promises.readdir(`/proc/${pid}/fd`)).length;
+  } catch (error) {
+    // The process exited while we were sampling
+  }
+
+  return {
+    time: new Date(now),
+    pid,
+    cpuPercent,
+    rssBytes: readKbField(status, 'VmRSS') ?? 0,
+    anonymousBytes,
+    openFds,
+    childCount: (await listProcessTree(pid)).length - 1
+  };
+}
+
+// Take a sample of a running server and add it to its time series
+export async function recordSample(serverInfo: ServerInfo): Promise<ResourceSample | null> {
+  if (serverInfo.exitCode !== null) return null;
+  const sample = await sampleProcess(serverInfo);
+  if (!sample) return null;
+
+  serverInfo.metrics.push(sample);
+  if (serverInfo.metrics.length > MAX_METRICS_SAMPLES) {
+    serverInfo.metrics.shift(); // Remove oldest sample if exceeding limit
+  }
+  return sample;
+}
+
+/**
+ * Start sampling the resource usage of all running managed servers at the
+ * configured interval. Does nothing when sampling is disabled or /proc is missing.
+ */
+export function startMetricsSampling(): void {
+  const interval = getMetricsInterval();
+  if (samplingTimer || interval === 0 || !isMetricsSupported()) return;
+
+  let sampling = false;
+  samplingTimer = setInterval(async () => {
+    // Skip a tick rather than pile up samples when /proc is slow
+    if (sampling) return;
+    sampling = true;
+    try {
+      for (const serverInfo of runningServers.values()) {
+        await recordSample(serverInfo);
+      }
+    } finally {
+      sampling = false;
+    }
+  }, interval);
+  samplingTimer.unref();
+}
+
+// Stop sampling resource usage
+export function stopMetricsSampling(): void {
+  if (samplingTimer) {
+    clearInterval(samplingTimer);
+    samplingTimer = null;
+  }
+}
+
+// Memory trend of the current process of a server
+export interface MemoryTrend {
+  samples: number;
+  durationMs: number;
+  startRss: number;
+  endRss: number;
+  // Least-squares slope of RSS in bytes per minute
+  rssPerMinute: number;
+  startAnonymous: number | null;
+  endAnonymous: number | null;
+  // Whether RSS grew steadily enough to suggest a leak
+  growing: boolean;
+}
+
+// Average of a list of numbers
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Analyse the memory usage of the current server process over its samples.
+ * Growth is flagged when RSS rose by at least 10 MB and 20% between the first
+ * and last quarter of the samples, and most intervals did not shrink.
+ */
+export function analyzeMemoryTrend(samples: ResourceSample[]): MemoryTrend | null {
+  const current = samples.filter(sample => sample.pid === samples[samples.length - 1]?.pid);
+  if (current.length < 2) return null;
+
+  const first = current[0];
+  const last = current[current.length - 1];
+  const start = first.time.getTime();
+  const minutes = current.map(sample => (sample.time.getTime() - start) / 60000);
+  const meanX = average(minutes);
+  const meanY = average(current.map(sample => sample.rssBytes));
+  const covariance = current.reduce((sum, sample, i) => sum + (minutes[i] - meanX) * (sample.rssBytes - meanY), 0);
+  const variance = minutes.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+
+  const quarter = Math.max(1, Math.floor(current.length / 4));
+  const startRss = average(current.slice(0, quarter).map(sample => sample.rssBytes));
+  const endRss = average(current.slice(-quarter).map(sample => sample.rssBytes));
+  const nonShrinking = current.slice(1).filter((sample, i) => sample.rssBytes >= current[i].rssBytes).length;
+
+  const growth = endRss - startRss;
+  const growing = current.length >= MIN_GROWTH_SAMPLES &&
+    growth >= MIN_GROWTH_BYTES &&
+    growth >= startRss * MIN_GROWTH_RATIO &&
+    nonShrinking >= (current.length - 1) * 0.6;
+
+  return {
+    samples: current.length,
+    durationMs: last.time.getTime() - start,
+    startRss: first.rssBytes,
+    endRss: last.rssBytes,
+    rssPerMinute: variance > 0 ? covariance / variance : 0,
+    startAnonymous: first.anonymousBytes,
+    endAnonymous: last.anonymousBytes,
+    growing
+  };
+}
+
+// Render a byte count in MB
+export function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// One-line summary of a resource sample
+export function describeSample(sample: ResourceSample): string {
+  const cpu = sample.cpuPercent !== null ? `${sample.cpuPercent.toFixed(1)}%` : 'n/a';
+  const anonymous = sample.anonymousBytes !== null ? formatMegabytes(sample.anonymousBytes) : 'n/a';
+  return `CPU ${cpu}, RSS ${formatMegabytes(sample.rssBytes)}, anon memory ${anonymous}, ${sample.openFds} open fds, ${sample.childCount} child process(es)`;
+}
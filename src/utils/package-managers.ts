@@ -0,0 +1,161 @@
+import * as fs from "fs";
+import * as path from "path";
+import { NodeRuntime } from "./version-managers.js";
+
+export type PackageManagerName = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+// The package manager a project uses, and how that was determined
+export interface PackageManager {
+  name: PackageManagerName;
+  // Version from package.json#packageManager, e.g. 8.15.4
+  version: string | null;
+  // Where the choice comes from, e.g. packageManager in /project/package.json
+  source: string;
+  // Whether corepack provides the version given in package.json#packageManager
+  corepack: boolean;
+}
+
+// The command line to start a package manager with
+export interface PackageManagerCommand {
+  // Executable and leading arguments, e.g. [.../bin/corepack, pnpm]
+  argv: string[];
+  // How the executable was found, for reporting
+  via: string;
+}
+
+// Lockfiles in the order they are checked, for directories with more than one
+const LOCKFILES: Array<[string, PackageManagerName]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm']
+];
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.promises.access(file);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+async function isExecutable(file: string): Promise<boolean> {
+  try {
+    await fs.promises.access(file, fs.constants.X_OK);
+    return (await fs.promises.stat(file)).isFile();
+  } catch (error) {
+    return false;
+  }
+}
+
+// Parse a packageManager field like pnpm@8.15.4+sha512.abc
+function parsePackageManagerField(value: unknown): { name: PackageManagerName, version: string | null } | null {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(npm|pnpm|yarn|bun)(?:@([^+\s]+))?/);
+  return match ? { name: match[1] as PackageManagerName, version: match[2] ?? null } : null;
+}
+
+/**
+ * Detect the package manager of the package in `dir` from
+ * package.json#packageManager or the lockfile present, looking in the
+ * directory and its parents up to the project root (the directory with .git),
+ * so packages of a workspace use the manager of the workspace root. Falls
+ * back to npm.
+ */
+export async function detectPackageManager(dir: string): Promise<PackageManager> {
+  let current = path.resolve(dir);
+  while (true) {
+    const packageFile = path.join(current, 'package.json');
+    try {
+      const field = parsePackageManagerField(JSON.parse(await fs.promises.readFile(packageFile, 'utf-8')).packageManager);
+      if (field) {
+        return { ...field, source: `packageManager in ${packageFile}`, corepack: field.name !== 'bun' };
+      }
+    } catch (error) {
+      // No package.json, or an invalid one, here
+    }
+
+    for (const [lockfile, name] of LOCKFILES) {
+      const file = path.join(current, lockfile);
+      if (await exists(file)) {
+        return { name, version: null, source: file, corepack: false };
+      }
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current || await exists(path.join(current, '.git'))) {
+      return { name: 'npm', version: null, source: 'default (no packageManager field or lockfile found)', corepack: false };
+    }
+    current = parent;
+  }
+}
+
+// First executable with this name in the directories of a PATH
+async function findOnPath(name: string, envPath: string | undefined): Promise<string | null> {
+  for (const dir of (envPath || '').split(path.delimiter)) {
+    if (dir && await isExecutable(path.join(dir, name))) {
+      return path.join(dir, name);
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the executable to run a package manager with the given Node.js
+ * runtime. npm is the runtime's own. pnpm and yarn pinned by
+ * package.json#packageManager run through corepack, which fetches the pinned
+ * version; otherwise an installed binary is preferred, with corepack as the
+ * fallback. Throws when the package manager is not available.
+ */
+export async function getPackageManagerCommand(packageManager: PackageManager, runtime: NodeRuntime): Promise<PackageManagerCommand> {
+  if (packageManager.name === 'npm') {
+    return { argv: [runtime.npm], via: runtime.installation ? `npm of Node.js ${runtime.installation.version}` : 'npm on the PATH' };
+  }
+
+  const corepack = packageManager.name !== 'bun' ? await findOnPath('corepack', runtime.env.PATH) : null;
+  if (packageManager.corepack && corepack) {
+    return { argv: [corepack, packageManager.name], via: `corepack (${corepack})` };
+  }
+
+  const binary = await findOnPath(packageManager.name, runtime.env.PATH);
+  if (binary) {
+    return { argv: [binary], via: binary };
+  }
+  if (corepack) {
+    return { argv: [corepack, packageManager.name], via: `corepack (${corepack})` };
+  }
+  throw new Error(
+    `${packageManager.name} is used by this project (${packageManager.source}) but is not installed` +
+    (packageManager.name === 'bun' ? '. Install bun from https://bun.sh.' : `. Install it, or enable it with corepack (\`corepack enable ${packageManager.name}\`).`)
+  );
+}
+
+// Environment for running a package manager: corepack must not wait for a download prompt nobody can answer
+export function packageManagerEnv(runtime: NodeRuntime): NodeJS.ProcessEnv {
+  return { ...runtime.env, COREPACK_ENABLE_DOWNLOAD_PROMPT: '0' };
+}
+
+// Arguments to run a package.json script; only npm needs `--` before the script's arguments
+export function runScriptArgs(packageManager: PackageManager, scriptName: string, args: string[]): string[] {
+  if (packageManager.name === 'npm') {
+    return args.length > 0 ? ['run', scriptName, '--', ...args] : ['run', scriptName];
+  }
+  return ['run', scriptName, ...args];
+}
+
+// Arguments to install all dependencies, or to add one
+export function installArgs(packageManager: PackageManager, dependency?: string): string[] {
+  if (!dependency) {
+    return ['install'];
+  }
+  return packageManager.name === 'npm' ? ['install', dependency] : ['add', dependency];
+}
+
+// One line for tool responses saying which package manager ran and why
+export function describePackageManager(packageManager: PackageManager, command: PackageManagerCommand): string {
+  const version = packageManager.version ? ` ${packageManager.version}` : '';
+  return `Package manager: ${packageManager.name}${version} via ${command.via}, from ${packageManager.source}`;
+}
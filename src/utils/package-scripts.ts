@@ -0,0 +1,135 @@
+import { globToRegExp } from "./helpers.js";
+
+// A package.json script and how it relates to the other scripts
+export interface ScriptInfo {
+  name: string;
+  command: string;
+  // Scripts npm runs before and after this one, e.g. prebuild and postbuild
+  pre: string | null;
+  post: string | null;
+  // Script or npm lifecycle event this script is a pre or post hook of
+  hookOf: string | null;
+  // Scripts this script runs, e.g. with `npm run lint` or `run-s build:*`
+  invokes: string[];
+  // Scripts that run this one
+  invokedBy: string[];
+}
+
+// npm commands that run pre and post hooks without a script of the same name
+const LIFECYCLE_EVENTS = new Set(['install', 'publish', 'pack', 'version']);
+
+// npm commands that are shorthands for running the script of the same name
+const SCRIPT_COMMANDS = new Map([['test', 'test'], ['t', 'test'], ['tst', 'test'], ['start', 'start'], ['stop', 'stop'], ['restart', 'restart']]);
+
+const PACKAGE_MANAGERS = new Set(['npm', 'pnpm', 'yarn', 'bun']);
+
+// Commands that set environment variables for the command that follows
+const ENV_WRAPPERS = new Set(['env', 'cross-env']);
+
+// Runners that take script names and patterns as arguments
+const SCRIPT_RUNNERS = new Set(['npm-run-all', 'npm-run-all2', 'run-s', 'run-p']);
+
+// Split a command line into words, keeping quoted words together and control operators apart
+function tokenize(command: string): Array<{ word: string, quoted: boolean }> {
+  const tokens: Array<{ word: string, quoted: boolean }> = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"|'([^']*)'|(&&|\|\||[;&|])|([^\s"';&|]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(command)) !== null) {
+    if (match[1] !== undefined || match[2] !== undefined) {
+      tokens.push({ word: match[1] ?? match[2], quoted: true });
+    } else {
+      tokens.push({ word: match[3] ?? match[4], quoted: false });
+    }
+  }
+  return tokens;
+}
+
+// Script names matching an npm-run-all pattern, where `*` stops at `:` and `**` does not
+function matchScripts(pattern: string, names: string[]): string[] {
+  const regexp = globToRegExp(pattern.replace(/:/g, '/'));
+  return names.filter(name => regexp.test(name.replace(/:/g, '/')));
+}
+
+// Scripts a command runs, among the given script names
+function findInvokedScripts(command: string, names: string[]): string[] {
+  const invoked: string[] = [];
+  let words: string[] = [];
+
+  const flush = () => {
+    // Skip variable assignments and wrappers like cross-env NODE_ENV=production
+    const start = words.findIndex(word => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word) && !ENV_WRAPPERS.has(word));
+    const [executable, ...args] = start === -1 ? [] : words.slice(start);
+    words = [];
+    if (executable === undefined) return;
+    const positional = args.filter(arg => !arg.startsWith('-'));
+
+    if (PACKAGE_MANAGERS.has(executable)) {
+      const [subcommand, script] = positional;
+      if (subcommand === 'run' || subcommand === 'run-script' || subcommand === 'rs') {
+        if (script !== undefined) invoked.push(script);
+      } else if (executable === 'npm' && SCRIPT_COMMANDS.has(subcommand)) {
+        invoked.push(SCRIPT_COMMANDS.get(subcommand)!);
+      } else if (executable !== 'npm' && subcommand !== undefined && names.includes(subcommand)) {
+        // yarn, pnpm and bun run scripts given directly, like `yarn build`
+        invoked.push(subcommand);
+      }
+    } else if (SCRIPT_RUNNERS.has(executable)) {
+      for (const arg of positional) {
+        invoked.push(...matchScripts(arg, names));
+      }
+    }
+  };
+
+  for (const token of tokenize(command)) {
+    if (token.quoted) {
+      // Commands given to runners like concurrently, e.g. "npm run watch" or npm:build:*
+      const prefixed = /^(?:npm|pnpm|yarn|bun):(.+)$/.exec(token.word);
+      if (prefixed) {
+        invoked.push(...matchScripts(prefixed[1], names));
+      } else if (/\s/.test(token.word)) {
+        invoked.push(...findInvokedScripts(token.word, names));
+      }
+      words.push(token.word);
+    } else if (['&&', '||', ';', '&', '|'].includes(token.word)) {
+      flush();
+    } else {
+      const prefixed = /^(?:npm|pnpm|yarn|bun):(.+)$/.exec(token.word);
+      if (prefixed) {
+        invoked.push(...matchScripts(prefixed[1], names));
+      }
+      words.push(token.word);
+    }
+  }
+  flush();
+  return invoked;
+}
+
+/**
+ * Describe the scripts of a package.json: their pre and post hooks, and
+ * which scripts run other scripts through the package manager or runners
+ * like npm-run-all and concurrently.
+ */
+export function analyzeScripts(scripts: Record<string, string>): ScriptInfo[] {
+  const names = Object.keys(scripts);
+  const infos = names.map(name => {
+    const base = /^(?:pre|post)(.+)$/.exec(name)?.[1];
+    const invokes = Array.from(new Set(findInvokedScripts(String(scripts[name]), names)))
+      .filter(invoked => invoked !== name && names.includes(invoked));
+    return {
+      name,
+      command: String(scripts[name]),
+      pre: names.includes(`pre${name}`) ? `pre${name}` : null,
+      post: names.includes(`post${name}`) ? `post${name}` : null,
+      hookOf: base !== undefined && (names.includes(base) || LIFECYCLE_EVENTS.has(base)) ? base : null,
+      invokes,
+      invokedBy: [] as string[]
+    };
+  });
+
+  for (const info of infos) {
+    for (const invoked of info.invokes) {
+      infos.find(other => other.name === invoked)!.invokedBy.push(info.name);
+    }
+  }
+  return infos;
+}
@@ -0,0 +1,163 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { z } from "zod";
+import { askPermission, globToRegExp } from "./helpers.js";
+import { PermissionDecision, PermissionPolicy, PermissionRequest, PermissionRule } from "../types/index.js";
+
+// Schema used to validate policy files
+const patternSchema = z.union([z.string(), z.array(z.string())]);
+const policySchema = z.object({
+  default: z.enum(['allow', 'deny', 'ask']).default('ask'),
+  rules: z.array(z.object({
+    name: z.string().optional(),
+    action: z.enum(['allow', 'deny', 'ask']),
+    tool: patternSchema.optional(),
+    command: patternSchema.optional(),
+    scriptPath: patternSchema.optional(),
+    cwd: patternSchema.optional(),
+    scriptName: patternSchema.optional(),
+    packageName: patternSchema.optional()
+  }).strict()).default([])
+});
+
+// Request fields that hold file system paths and are matched as path globs
+const pathFields = new Set(['scriptPath', 'cwd']);
+
+// Request fields a rule can match on
+const matchFields = ['tool', 'command', 'scriptPath', 'cwd', 'scriptName', 'packageName'] as const;
+
+// Policy used when no policy file is configured: ask for everything
+const defaultPolicy: PermissionPolicy = { default: 'ask', rules: [] };
+
+// Currently loaded policy (private)
+let _policy: PermissionPolicy = defaultPolicy;
+let _policyPath: string | null = null;
+let _policyMtime = 0;
+
+// Read and validate a policy file
+function readPolicyFile(policyPath: string): PermissionPolicy {
+  const content = fs.readFileSync(policyPath, 'utf-8');
+  const result = policySchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid permission policy ${policyPath}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load the permission policy from a JSON file.
+ * Falls back to the MCP_NODE_POLICY environment variable; without either every action asks.
+ */
+export function loadPermissionPolicy(policyPath: string | undefined = process.env.MCP_NODE_POLICY): void {
+  if (!policyPath) {
+    _policy = defaultPolicy;
+    _policyPath = null;
+    return;
+  }
+
+  const absPath = path.resolve(expandHome(policyPath));
+  _policy = readPolicyFile(absPath);
+  _policyPath = absPath;
+  _policyMtime = fs.statSync(absPath).mtimeMs;
+  console.error(`Loaded permission policy from ${absPath} (${_policy.rules.length} rule(s), default: ${_policy.default})`);
+}
+
+// Pick up edits to the policy file without restarting the server
+function refreshPolicy(): void {
+  if (!_policyPath) return;
+  try {
+    const mtime = fs.statSync(_policyPath).mtimeMs;
+    if (mtime !== _policyMtime) {
+      _policy = readPolicyFile(_policyPath);
+      _policyMtime = mtime;
+      console.error(`Reloaded permission policy from ${_policyPath}`);
+    }
+  } catch (error) {
+    // Keep the last valid policy if the file is missing or broken
+    console.error(`Error reloading permission policy: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Expand a leading ~ to the home directory
+function expandHome(value: string): string {
+  return value === '~' || value.startsWith('~/') ? path.join(os.homedir(), value.slice(1)) : value;
+}
+
+// Check a single value against one pattern; a leading ! negates the pattern
+function matchesPattern(value: string, pattern: string, pathMode: boolean): boolean {
+  const negated = pattern.startsWith('!');
+  const body = negated ? pattern.slice(1) : pattern;
+  const matched = globToRegExp(pathMode ? expandHome(body) : body, pathMode).test(value);
+  return negated ? !matched : matched;
+}
+
+// Check whether every field set on a rule matches the request
+function ruleMatches(rule: PermissionRule, request: PermissionRequest): boolean {
+  return matchFields.every(field => {
+    const patterns = rule[field];
+    if (patterns === undefined) return true;
+
+    const value = request[field];
+    if (value === undefined) return false;
+
+    const list = Array.isArray(patterns) ? patterns : [patterns];
+    const pathMode = pathFields.has(field);
+    const positive = list.filter(pattern => !pattern.startsWith('!'));
+    const negative = list.filter(pattern => pattern.startsWith('!'));
+
+    // Any positive pattern may match, and no negated pattern may exclude the value
+    return (positive.length === 0 || positive.some(pattern => matchesPattern(value, pattern, pathMode))) &&
+      negative.every(pattern => matchesPattern(value, pattern, pathMode));
+  });
+}
+
+// Strip a version or tag from an install spec, e.g. `@types/node@22` -> `@types/node`
+export function packageNameFromSpec(spec: string): string {
+  const versionIndex = spec.indexOf('@', spec.startsWith('@') ? 1 : 0);
+  return versionIndex > 0 ? spec.slice(0, versionIndex) : spec;
+}
+
+/**
+ * Evaluate a request against the permission policy and prompt the user when a rule says `ask`.
+ * The first matching rule wins; without a match the policy default applies.
+ */
+export async function checkPermission(request: PermissionRequest): Promise<PermissionDecision> {
+  refreshPolicy();
+
+  const index = _policy.rules.findIndex(rule => ruleMatches(rule, request));
+  const rule = index >= 0 ? _policy.rules[index] : null;
+  const action = rule ? rule.action : _policy.default;
+  const source = rule ? `rule "${rule.name || `rules[${index}]`}"` : 'default policy';
+
+  if (action === 'allow' || action === 'deny') {
+    return { allowed: action === 'allow', action, source, prompted: false };
+  }
+
+  const allowed = await askPermission(request.message);
+  return { allowed, action, source, prompted: true };
+}
+
+// Describe a decision for inclusion in a tool response
+export function describePermission(decision: PermissionDecision): string {
+  if (decision.prompted) {
+    return `Permission: ${decision.allowed ? 'approved' : 'denied'} by user (${decision.source} requires confirmation)`;
+  }
+  return `Permission: ${decision.allowed ? 'allowed' : 'denied'} by ${decision.source}`;
+}
+
+// Build the error response returned when a request is not permitted
+export function permissionDeniedResponse(decision: PermissionDecision) {
+  return {
+    isError: true,
+    content: [{
+      type: "text" as const,
+      text: decision.prompted
+        ? `Permission denied by user (${decision.source} requires confirmation)`
+        : `Permission denied by ${decision.source}`
+    }]
+  };
+}
@@ -0,0 +1,256 @@
+import * as fs from "fs";
+import { execAsync } from "./helpers.js";
+
+// A socket a managed server (or one of its child processes) is listening on
+export interface ListeningPort {
+  protocol: 'tcp' | 'udp';
+  family: 4 | 6;
+  address: string;
+  port: number;
+  pid: number;
+}
+
+// Socket states in /proc/net/*: TCP LISTEN, and unconnected ("closed") for bound UDP sockets
+const TCP_LISTEN = '0A';
+const UDP_UNCONNECTED = '07';
+
+// Interval between polls while waiting for a server to bind its ports
+const PORT_POLL_INTERVAL = 100;
+
+// Decode an address from /proc/net/*: hex words in host (little-endian) byte order
+function decodeProcAddress(hex: string): string {
+  const bytes: number[] = [];
+  for (let word = 0; word < hex.length; word += 8) {
+    const value = hex.slice(word, word + 8);
+    for (let i = 6; i >= 0; i -= 2) {
+      bytes.push(parseInt(value.slice(i, i + 2), 16));
+    }
+  }
+
+  if (bytes.length === 4) {
+    return bytes.join('.');
+  }
+
+  // IPv4-mapped IPv6 addresses are shown as plain IPv4
+  if (bytes.slice(0, 10).every(byte => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff) {
+    return bytes.slice(12).join('.');
+  }
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  }
+  // Compress the longest run of zero groups
+  const address = groups.join(':');
+  const zeroRuns = address.match(/(^|:)0(:0)+(:|$)/g);
+  if (!zeroRuns) return address;
+  const longest = zeroRuns.reduce((a, b) => (b.length > a.length ? b : a));
+  return address.replace(longest, '::');
+}
+
+// PIDs of a process and all its descendants, read from /proc/*/stat
+export async function listProcessTree(rootPid: number): Promise<number[]> {
+  const children = new Map<number, number[]>();
+  for (const entry of await fs.promises.readdir('/proc')) {
+    if (!/^\d+$/.test(entry)) continue;
+    try {
+      const stat = await fs.promises.readFile(`/proc/${entry}/stat`, 'utf-8');
+      // The command name may contain spaces and parentheses, so parse after the last ')'
+      const ppid = Number(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[1]);
+      if (!children.has(ppid)) children.set(ppid, []);
+      children.get(ppid)!.push(Number(entry));
+    } catch (error) {
+      // The process exited while we were scanning
+    }
+  }
+
+  const pids = [rootPid];
+  for (let i = 0; i < pids.length; i++) {
+    pids.push(...(children.get(pids[i]) ?? []));
+  }
+  return pids;
+}
+
+// Inodes of the sockets a process holds open
+async function listSocketInodes(pid: number): Promise<string[]> {
+  const inodes: string[] = [];
+  let fds: string[];
+  try {
+    fds = await fs.promises.readdir(`/proc/${pid}/fd`);
+  } catch (error) {
+    return inodes;
+  }
+
+  for (const fd of fds) {
+    try {
+      const match = /^socket:\[(\d+)\]$/.exec(await fs.promises.readlink(`/proc/${pid}/fd/${fd}`));
+      if (match) inodes.push(match[1]);
+    } catch (error) {
+      // The descriptor was closed while we were scanning
+    }
+  }
+  return inodes;
+}
+
+// Listening sockets from a /proc/net table, keyed by inode
+async function readSocketTable(file: string, protocol: 'tcp' | 'udp', family: 4 | 6): Promise<Map<string, Omit<ListeningPort, 'pid'>>> {
+  const sockets = new Map<string, Omit<ListeningPort, 'pid'>>();
+  let content: string;
+  try {
+    content = await fs.promises.readFile(file, 'utf-8');
+  } catch (error) {
+    return sockets;
+  }
+
+  for (const line of content.split('\n').slice(1)) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 10) continue;
+    const [localAddress, localPort] = fields[1].split(':');
+    const remotePort = fields[2].split(':')[1];
+    const state = fields[3];
+    const inode = fields[9];
+
+    const listening = protocol === 'tcp'
+      ? state === TCP_LISTEN
+      : state === UDP_UNCONNECTED && parseInt(remotePort, 16) === 0;
+    if (!listening) continue;
+
+    sockets.set(inode, { protocol, family, address: decodeProcAddress(localAddress), port: parseInt(localPort, 16) });
+  }
+  return sockets;
+}
+
+// Listening ports of a process tree on Linux, by matching socket inodes against /proc/net/*
+async function getListeningPortsFromProc(rootPid: number): Promise<ListeningPort[]> {
+  const tables = await Promise.all([
+    readSocketTable('/proc/net/tcp', 'tcp', 4),
+    readSocketTable('/proc/net/tcp6', 'tcp', 6),
+    readSocketTable('/proc/net/udp', 'udp', 4),
+    readSocketTable('/proc/net/udp6', 'udp', 6)
+  ]);
+
+  const ports: ListeningPort[] = [];
+  for (const pid of await listProcessTree(rootPid)) {
+    for (const inode of await listSocketInodes(pid)) {
+      const socket = tables.map(table => table.get(inode)).find(Boolean);
+      if (socket) ports.push({ ...socket, pid });
+    }
+  }
+  return ports;
+}
+
+// Listening ports of a process tree on other platforms (e.g. macOS), using ps and lsof
+async function getListeningPortsFromLsof(rootPid: number): Promise<ListeningPort[]> {
+  const { stdout: psOutput } = await execAsync('ps -A -o pid= -o ppid=');
+  const children = new Map<number, number[]>();
+  for (const line of psOutput.split('\n')) {
+    const [pid, ppid] = line.trim().split(/\s+/).map(Number);
+    if (!pid) continue;
+    if (!children.has(ppid)) children.set(ppid, []);
+    children.get(ppid)!.push(pid);
+  }
+  const pids = [rootPid];
+  for (let i = 0; i < pids.length; i++) {
+    pids.push(...(children.get(pids[i]) ?? []));
+  }
+
+  // lsof exits with 1 when nothing matches
+  let lsofOutput = '';
+  try {
+    ({ stdout: lsofOutput } = await execAsync(`lsof -nP -a -p ${pids.join(',')} -iTCP -sTCP:LISTEN -iUDP -F pPtn`));
+  } catch (error) {
+    lsofOutput = (error as { stdout?: string }).stdout ?? '';
+  }
+
+  // Field output: p<pid>, then P<protocol>/t<type>/n<name> per file
+  const ports: ListeningPort[] = [];
+  let pid = 0;
+  let family: 4 | 6 = 4;
+  let protocol: 'tcp' | 'udp' = 'tcp';
+  for (const line of lsofOutput.split('\n')) {
+    const value = line.slice(1);
+    if (line.startsWith('p')) pid = Number(value);
+    else if (line.startsWith('t')) family = value === 'IPv6' ? 6 : 4;
+    else if (line.startsWith('P')) protocol = value === 'UDP' ? 'udp' : 'tcp';
+    else if (line.startsWith('n') && !value.includes('->')) {
+      const separator = value.lastIndexOf(':');
+      const address = value.slice(0, separator).replace(/^\[|\]$/g, '');
+      const port = Number(value.slice(separator + 1));
+      if (port) ports.push({ protocol, family, address: address === '*' ? (family === 6 ? '::' : '0.0.0.0') : address, port, pid });
+    }
+  }
+  return ports;
+}
+
+/**
+ * Detect the TCP and UDP ports a process and its descendants are listening on.
+ * Reads /proc on Linux and falls back to lsof elsewhere; returns an empty list
+ * when neither is available.
+ */
+export async function getListeningPorts(pid: number): Promise<ListeningPort[]> {
+  if (!pid) return [];
+
+  let ports: ListeningPort[];
+  try {
+    ports = fs.existsSync('/proc/net/tcp')
+      ? await getListeningPortsFromProc(pid)
+      : await getListeningPortsFromLsof(pid);
+  } catch (error) {
+    return [];
+  }
+
+  // Sockets shared with child processes (e.g. cluster workers) are reported once, for the process closest to the server
+  const seen = new Set<string>();
+  return ports
+    .filter(port => {
+      const key = `${port.protocol}/${port.family}/${port.address}/${port.port}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.protocol.localeCompare(b.protocol) || a.port - b.port || a.family - b.family);
+}
+
+/**
+ * Poll until the process listens on at least one port, it exits, or the timeout expires.
+ * Used when a server was started without readiness conditions and may still be binding.
+ */
+export async function waitForListeningPorts(pid: number, timeout: number, isRunning: () => boolean): Promise<ListeningPort[]> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const ports = await getListeningPorts(pid);
+    if (ports.length > 0 || !isRunning() || Date.now() >= deadline) {
+      return ports;
+    }
+    await new Promise(resolve => setTimeout(resolve, PORT_POLL_INTERVAL));
+  }
+}
+
+// Host to use when connecting to a listening socket: wildcard addresses mean any local address
+export function connectHost(port: ListeningPort): string {
+  if (port.address === '0.0.0.0') return '127.0.0.1';
+  if (port.address === '::') return 'localhost';
+  return port.family === 6 ? `[${port.address}]` : port.address;
+}
+
+// Whether a socket is the Node.js inspector of a server started with --inspect, rather than one of its own ports
+export function isInspectorPort(port: ListeningPort, inspectPort: number | null): boolean {
+  return port.protocol === 'tcp' && port.port === inspectPort;
+}
+
+// One line per port, with a URL for TCP ports other than the inspector
+export function describePorts(ports: ListeningPort[], inspectPort: number | null = null): string {
+  if (ports.length === 0) {
+    return 'Listening ports: none detected';
+  }
+  const lines = ports.map(port => {
+    const address = port.family === 6 ? `[${port.address}]:${port.port}` : `${port.address}:${port.port}`;
+    let note = '';
+    if (isInspectorPort(port, inspectPort)) {
+      note = ' (Node.js inspector)';
+    } else if (port.protocol === 'tcp') {
+      note = ` (http://${connectHost(port)}:${port.port})`;
+    }
+    return `  - ${port.protocol}${port.family === 6 ? '6' : ''} ${address}${note}, PID ${port.pid}`;
+  });
+  return `Listening ports:\n${lines.join('\n')}`;
+}
@@ -0,0 +1,113 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// A Node.js version pinned by a project
+export interface ProjectNodeVersion {
+  // Version, alias or range as written, e.g. 20, lts/iron or >=18 <21
+  spec: string;
+  // Absolute path of the file it was read from
+  file: string;
+  // Where in the file, e.g. .nvmrc or package.json#engines.node
+  source: string;
+}
+
+async function readFileIfExists(file: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(file, 'utf-8');
+  } catch (error) {
+    return null;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.promises.access(file);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// First version in an .nvmrc or .node-version file, skipping comments and blank lines
+function parseVersionFile(content: string): string | null {
+  for (const line of content.split('\n')) {
+    const version = line.replace(/#.*/, '').trim();
+    if (version) return version;
+  }
+  return null;
+}
+
+// Volta's node pin, following `extends` to the configuration it inherits from
+async function readVoltaNode(file: string, seen = new Set<string>()): Promise<ProjectNodeVersion | null> {
+  if (seen.has(file)) return null;
+  seen.add(file);
+  const content = await readFileIfExists(file);
+  if (content === null) return null;
+  let volta: { node?: unknown, extends?: unknown } | undefined;
+  try {
+    volta = JSON.parse(content).volta;
+  } catch (error) {
+    return null;
+  }
+  if (!volta) return null;
+  if (typeof volta.node === 'string' && volta.node.trim()) {
+    return { spec: volta.node.trim(), file, source: 'package.json#volta.node' };
+  }
+  if (typeof volta.extends === 'string') {
+    return readVoltaNode(path.resolve(path.dirname(file), volta.extends), seen);
+  }
+  return null;
+}
+
+// The version pinned in one directory, preferring .nvmrc, then .node-version, volta and engines
+async function findVersionInDirectory(dir: string): Promise<ProjectNodeVersion | null> {
+  for (const name of ['.nvmrc', '.node-version']) {
+    const file = path.join(dir, name);
+    const content = await readFileIfExists(file);
+    const spec = content === null ? null : parseVersionFile(content);
+    if (spec) {
+      return { spec, file, source: name };
+    }
+  }
+
+  const packageFile = path.join(dir, 'package.json');
+  const volta = await readVoltaNode(packageFile);
+  if (volta) return volta;
+
+  const content = await readFileIfExists(packageFile);
+  if (content !== null) {
+    try {
+      const engine = JSON.parse(content).engines?.node;
+      if (typeof engine === 'string' && engine.trim()) {
+        return { spec: engine.trim(), file: packageFile, source: 'package.json#engines.node' };
+      }
+    } catch (error) {
+      // An invalid package.json pins nothing
+    }
+  }
+  return null;
+}
+
+// Where a pin comes from, e.g. /project/.nvmrc or engines.node in /project/package.json
+export function describeProjectVersion(pinned: ProjectNodeVersion): string {
+  return pinned.source.startsWith('package.json#') ? `${pinned.source.slice('package.json#'.length)} in ${pinned.file}` : pinned.file;
+}
+
+/**
+ * Find the Node.js version pinned for a directory by .nvmrc, .node-version,
+ * package.json#volta.node or package.json#engines.node, looking in the
+ * directory and its parents up to the project root (the directory with .git).
+ * The nearest directory pinning a version wins.
+ */
+export async function findProjectNodeVersion(dir: string): Promise<ProjectNodeVersion | null> {
+  let current = path.resolve(dir);
+  while (true) {
+    const found = await findVersionInDirectory(current);
+    if (found) return found;
+    const parent = path.dirname(current);
+    if (parent === current || await exists(path.join(current, '.git'))) {
+      return null;
+    }
+    current = parent;
+  }
+}
@@ -0,0 +1,160 @@
+import * as net from "net";
+import { ServerInfo } from "../types/index.js";
+
+// Conditions that must all hold before a server counts as ready
+export interface ReadinessConditions {
+  port?: number;
+  host?: string;
+  url?: string;
+  logPattern?: RegExp;
+  timeout: number;
+}
+
+// Outcome of waiting for a server to become ready
+export type ReadinessResult =
+  | { status: 'ready', elapsedMs: number, satisfied: string[] }
+  | { status: 'crashed', elapsedMs: number, exitCode: number | null, signal: NodeJS.Signals | null, error?: string }
+  | { status: 'timed-out', elapsedMs: number, satisfied: string[], pending: string[] };
+
+// Interval between port and URL probes
+const POLL_INTERVAL = 250;
+
+// Check whether a TCP connection to host:port can be established
+function probePort(port: number, host: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ port, host });
+    const finish = (result: boolean) => {
+      socket.removeAllListeners();
+      socket.destroy();
+      resolve(result);
+    };
+    socket.setTimeout(POLL_INTERVAL * 4, () => finish(false));
+    socket.once('connect', () => finish(true));
+    socket.once('error', () => finish(false));
+  });
+}
+
+// Check whether a URL answers with a 2xx status
+async function probeUrl(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(POLL_INTERVAL * 8) });
+    // Drain the body so the connection can be released
+    await response.arrayBuffer();
+    return response.ok;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Whether the server has any readiness condition configured
+export function hasReadinessConditions(conditions: Partial<ReadinessConditions>): boolean {
+  return conditions.port !== undefined || conditions.url !== undefined || conditions.logPattern !== undefined;
+}
+
+/**
+ * Wait until every configured condition holds, the server process exits, or the timeout expires.
+ * Log lines are matched as they arrive; ports and URLs are polled.
+ */
+export function waitForReadiness(serverInfo: ServerInfo, conditions: ReadinessConditions): Promise<ReadinessResult> {
+  const startTime = Date.now();
+  const host = conditions.host || '127.0.0.1';
+  const serverProcess = serverInfo.process;
+  if (!serverProcess) {
+    return Promise.reject(new Error('Readiness can only be awaited for servers started in this session'));
+  }
+
+  // Label and state of every configured condition
+  const pending = new Map<string, boolean>();
+  const portLabel = `port ${host}:${conditions.port} accepting connections`;
+  const urlLabel = `${conditions.url} returning 2xx`;
+  const logLabel = `log line matching /${conditions.logPattern?.source}/`;
+  if (conditions.port !== undefined) pending.set(portLabel, false);
+  if (conditions.url !== undefined) pending.set(urlLabel, false);
+  if (conditions.logPattern !== undefined) pending.set(logLabel, false);
+
+  return new Promise((resolve) => {
+    let settled = false;
+    let pollTimer: NodeJS.Timeout | null = null;
+    let partialLine = '';
+
+    const labels = (done: boolean) => Array.from(pending.entries())
+      .filter(([, satisfied]) => satisfied === done)
+      .map(([label]) => label);
+
+    const finish = (result: ReadinessResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutTimer);
+      if (pollTimer) clearTimeout(pollTimer);
+      serverProcess.stdout?.removeListener('data', onOutput);
+      serverProcess.stderr?.removeListener('data', onOutput);
+      serverProcess.removeListener('close', onExit);
+      serverProcess.removeListener('error', onError);
+      resolve(result);
+    };
+
+    const satisfy = (label: string) => {
+      pending.set(label, true);
+      if (labels(false).length === 0) {
+        finish({ status: 'ready', elapsedMs: Date.now() - startTime, satisfied: labels(true) });
+      }
+    };
+
+    // Match complete lines (and the current partial line) against the log pattern
+    const onOutput = (data: Buffer) => {
+      if (!conditions.logPattern || pending.get(logLabel)) return;
+      const lines = (partialLine + data.toString()).split(/\r?\n/);
+      partialLine = lines.pop() || '';
+      if (lines.some(line => conditions.logPattern!.test(line)) || conditions.logPattern.test(partialLine)) {
+        satisfy(logLabel);
+      }
+    };
+
+    const onExit = (code: number | null, signal: NodeJS.Signals | null) => {
+      finish({ status: 'crashed', elapsedMs: Date.now() - startTime, exitCode: code, signal });
+    };
+
+    const onError = (error: Error) => {
+      finish({ status: 'crashed', elapsedMs: Date.now() - startTime, exitCode: null, signal: null, error: error.message });
+    };
+
+    // Probe ports and URLs until they succeed
+    const poll = async () => {
+      if (conditions.port !== undefined && !pending.get(portLabel) && await probePort(conditions.port, host)) {
+        satisfy(portLabel);
+      }
+      if (conditions.url !== undefined && !pending.get(urlLabel) && await probeUrl(conditions.url)) {
+        satisfy(urlLabel);
+      }
+      if (!settled) {
+        pollTimer = setTimeout(poll, POLL_INTERVAL);
+      }
+    };
+
+    const timeoutTimer = setTimeout(() => {
+      finish({ status: 'timed-out', elapsedMs: Date.now() - startTime, satisfied: labels(true), pending: labels(false) });
+    }, conditions.timeout);
+
+    // The process may already be gone by the time we start waiting
+    if (serverInfo.exitCode !== null) {
+      onExit(serverInfo.exitCode, null);
+      return;
+    }
+
+    // Wait for 'close' rather than 'exit' so all output has been captured
+    serverProcess.once('close', onExit);
+    serverProcess.once('error', onError);
+    serverProcess.stdout?.on('data', onOutput);
+    serverProcess.stderr?.on('data', onOutput);
+
+    // Output captured before we started listening counts too
+    const capturedLines = serverInfo.logs.filter(line => line.stream !== 'mcp-node').map(line => line.text);
+    if (conditions.logPattern && capturedLines.some(line => conditions.logPattern!.test(line))) {
+      satisfy(logLabel);
+    }
+
+    if (!settled && (conditions.port !== undefined || conditions.url !== undefined)) {
+      poll();
+    }
+  });
+}
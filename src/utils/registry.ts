@@ -0,0 +1,86 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getStateDir } from "./helpers.js";
+import { PersistedServer } from "../types/index.js";
+
+// Get the location of the persisted server registry
+export function getRegistryPath(): string {
+  return path.join(getStateDir(), 'servers.json');
+}
+
+// Whether a process with the given PID exists (EPERM means it exists but belongs to someone else)
+export function isProcessAlive(pid: number): boolean {
+  if (!pid) return false;
+  try {
+    process.kill(pid, 0);
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+
+  // A zombie still answers signals until its parent reaps it
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    return stat.slice(stat.lastIndexOf(')') + 2, stat.lastIndexOf(')') + 3) !== 'Z';
+  } catch (error) {
+    return true;
+  }
+}
+
+/**
+ * Read the persisted server registry. A missing or corrupt file counts as empty,
+ * since the registry only helps recover servers and must never block startup.
+ */
+export function readServerRegistry(): PersistedServer[] {
+  try {
+    const content = JSON.parse(fs.readFileSync(getRegistryPath(), 'utf-8'));
+    return Array.isArray(content?.servers) ? content.servers : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Replace the entries owned by this mcp-node process with `servers`, and drop
+ * the entries in `staleIds`. Entries owned by other mcp-node processes sharing
+ * the state directory are kept, also when their owner has exited, so that the
+ * next session can still recover its servers.
+ * The file is written synchronously and atomically so it stays consistent even
+ * when mcp-node exits right after an update.
+ */
+export function writeServerRegistry(servers: PersistedServer[], staleIds: string[] = []): void {
+  const registryPath = getRegistryPath();
+  const ownIds = new Set(servers.map(server => server.serverId));
+  const dropped = new Set(staleIds);
+  const others = readServerRegistry().filter(server =>
+    server.ownerPid !== process.pid && !ownIds.has(server.serverId) && !dropped.has(server.serverId));
+
+  try {
+    fs.mkdirSync(path.dirname(registryPath), { recursive: true });
+    const tempPath = `${registryPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ servers: [...others, ...servers] }, null, 2) + '\n', 'utf-8');
+    fs.renameSync(tempPath, registryPath);
+  } catch (error) {
+    console.error(`Failed to write server registry ${registryPath}:`, error);
+  }
+}
+
+/**
+ * Whether a recorded PID still runs the recorded server rather than an unrelated
+ * process that reused the PID. Compares the command line where /proc is available.
+ */
+export function isSameProcess(server: PersistedServer): boolean {
+  if (!isProcessAlive(server.pid)) return false;
+
+  let cmdline: string;
+  try {
+    cmdline = fs.readFileSync(`/proc/${server.pid}/cmdline`, 'utf-8');
+  } catch (error) {
+    // No /proc (e.g. macOS): trust the PID
+    return true;
+  }
+
+  // argv[0] depends on how the binary was resolved, so only the arguments are compared
+  const args = cmdline.split('\0').slice(1, -1);
+  const expected = server.launch.args;
+  return args.length === expected.length && args.every((arg, index) => arg === expected[index]);
+}
@@ -0,0 +1,703 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { spawn, ChildProcessByStdio } from "child_process";
+import { EventEmitter } from "events";
+import { Readable } from "stream";
+import { runningServers, globToRegExp } from "./helpers.js";
+import { isProcessAlive, isSameProcess, readServerRegistry, writeServerRegistry } from "./registry.js";
+import { appendLogLine, appendOutput, closeLogFile, flushPartialLine, getServerLogPath, loadLogState, openLogFile, removeLogFiles } from "./logs.js";
+import { LogLine, LogStream, PersistedServer, RestartPolicy, ServerInfo, ServerLaunchConfig } from "../types/index.js";
+
+// Upper bound for the exponential restart backoff
+const MAX_RESTART_DELAY = 30000;
+
+// A server that stays up this long is considered stable and its backoff is reset
+const STABLE_UPTIME = 30000;
+
+// How long exited servers are kept in runningServers so their info can still be retrieved
+const EXITED_SERVER_RETENTION = 3600000;
+
+// Delay used to coalesce bursts of file changes into a single restart
+const WATCH_DEBOUNCE = 300;
+
+// Directories that never trigger watch restarts
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+// How often adopted processes are checked for their exit
+const ADOPTED_POLL_INTERVAL = 1000;
+
+// Servers left behind by a previous mcp-node session that have not been adopted or killed
+const orphanedServers = new Map<string, PersistedServer>();
+
+// What to do with live servers of a previous mcp-node session on startup
+export type OrphanMode = 'adopt' | 'report';
+
+/**
+ * Events of managed servers:
+ * - 'start' (serverInfo): a server process was started, restarted or adopted
+ * - 'log' (serverInfo, line): a log line was captured
+ * - 'exit' (serverInfo): the server process exited
+ * - 'remove' (serverId): the server was removed from runningServers
+ */
+export const serverEvents = new EventEmitter();
+// Every in-flight request and resource subscription listens, so there is no sensible limit
+serverEvents.setMaxListeners(0);
+
+// Child process of a managed server: no stdin, piped stdout and stderr
+type ServerProcess = ChildProcessByStdio<null, Readable, Readable>;
+
+// Options for starting a managed server
+export interface ManagedServerOptions {
+  serverId: string;
+  name: string;
+  command: string;
+  cwd: string;
+  launch: ServerLaunchConfig;
+  restartPolicy?: RestartPolicy;
+  maxRestarts?: number;
+  restartDelay?: number;
+  watch?: string[];
+  // Port the launch arguments enable the inspector on
+  inspectPort?: number;
+}
+
+// Record a log line and tell listeners about it
+function pushLog(serverInfo: ServerInfo, stream: LogStream, text: string): void {
+  serverEvents.emit('log', serverInfo, appendLogLine(serverInfo, stream, text));
+}
+
+// Tell listeners about the lines recorded from process output
+function captureOutput(serverInfo: ServerInfo, lines: LogLine[]): void {
+  for (const line of lines) {
+    serverEvents.emit('log', serverInfo, line);
+  }
+}
+
+// Close the log file of a server and delete it
+function removeLogFile(serverInfo: ServerInfo): void {
+  closeLogFile(serverInfo);
+  removeLogFiles(serverInfo.logFile);
+}
+
+// Registry record of a managed server
+function toPersistedServer(serverId: string, serverInfo: ServerInfo): PersistedServer {
+  return {
+    serverId,
+    ownerPid: process.pid,
+    pid: serverInfo.pid,
+    name: serverInfo.name,
+    command: serverInfo.command,
+    cwd: serverInfo.cwd,
+    startTime: serverInfo.startTime.toISOString(),
+    logFile: serverInfo.logFile,
+    launch: { file: serverInfo.launch.file, args: serverInfo.launch.args },
+    restartPolicy: serverInfo.restartPolicy,
+    maxRestarts: serverInfo.maxRestarts,
+    restartDelay: serverInfo.restartDelay,
+    watchPatterns: serverInfo.watchPatterns,
+    inspectPort: serverInfo.inspectPort
+  };
+}
+
+// Write the live servers and unresolved orphans of this session to the server registry, dropping stale entries
+function persistServers(staleIds: string[] = []): void {
+  const servers = Array.from(runningServers.entries())
+    .filter(([, serverInfo]) => serverInfo.exitCode === null && serverInfo.pid > 0)
+    .map(([serverId, serverInfo]) => toPersistedServer(serverId, serverInfo));
+  writeServerRegistry([...servers, ...orphanedServers.values()], staleIds);
+}
+
+// Convert a signal to the exit code a shell would report (128 + signal number)
+function signalExitCode(signal: NodeJS.Signals): number {
+  return 128 + (os.constants.signals[signal] ?? 0);
+}
+
+// Remove an exited server from the registry after the retention period, unless it was restarted since
+function scheduleCleanup(serverId: string, serverInfo: ServerInfo): void {
+  const exitedProcess = serverInfo.process;
+  setTimeout(() => {
+    if (runningServers.get(serverId) === serverInfo && serverInfo.process === exitedProcess && serverInfo.exitCode !== null) {
+      closeWatchers(serverInfo);
+      removeLogFile(serverInfo);
+      runningServers.delete(serverId);
+      serverEvents.emit('remove', serverId);
+    }
+  }, EXITED_SERVER_RETENTION);
+}
+
+// Decide whether and when to restart a server that just exited
+function handleExit(serverId: string, serverInfo: ServerInfo, code: number | null, signal: NodeJS.Signals | null): void {
+  serverInfo.exitCode = code ?? (signal ? signalExitCode(signal) : -1);
+  serverInfo.signal = signal;
+  if (serverInfo.exitPoller) {
+    clearInterval(serverInfo.exitPoller);
+    serverInfo.exitPoller = null;
+  }
+  persistServers();
+  serverEvents.emit('exit', serverInfo);
+
+  // A restart for a file change spawns the new process itself
+  if (serverInfo.stopRequested || serverInfo.restartingForChange) {
+    scheduleCleanup(serverId, serverInfo);
+    return;
+  }
+
+  const failed = code !== 0;
+  const shouldRestart = serverInfo.restartPolicy === 'always' ||
+    (serverInfo.restartPolicy === 'on-failure' && failed);
+  if (!shouldRestart) {
+    scheduleCleanup(serverId, serverInfo);
+    return;
+  }
+
+  // A server that ran stably before exiting starts its backoff from scratch
+  if (Date.now() - serverInfo.startTime.getTime() >= STABLE_UPTIME) {
+    serverInfo.consecutiveRestarts = 0;
+  }
+
+  if (serverInfo.consecutiveRestarts >= serverInfo.maxRestarts) {
+    pushLog(serverInfo, 'mcp-node', `Server exited with code ${serverInfo.exitCode}; giving up after ${serverInfo.consecutiveRestarts} consecutive restart(s)`);
+    scheduleCleanup(serverId, serverInfo);
+    return;
+  }
+
+  const delayMs = Math.min(serverInfo.restartDelay * 2 ** serverInfo.consecutiveRestarts, MAX_RESTART_DELAY);
+  serverInfo.consecutiveRestarts++;
+  serverInfo.restartCount++;
+  serverInfo.restartHistory.push({
+    time: new Date(),
+    reason: failed ? 'crash' : 'exit',
+    exitCode: serverInfo.exitCode,
+    signal,
+    delayMs
+  });
+  pushLog(serverInfo, 'mcp-node', `Server exited with code ${serverInfo.exitCode}; restarting in ${delayMs}ms (attempt ${serverInfo.consecutiveRestarts}/${serverInfo.maxRestarts})`);
+
+  serverInfo.nextRestartAt = new Date(Date.now() + delayMs);
+  serverInfo.restartTimer = setTimeout(() => {
+    serverInfo.restartTimer = null;
+    serverInfo.nextRestartAt = null;
+    if (!serverInfo.stopRequested && runningServers.get(serverId) === serverInfo) {
+      spawnServerProcess(serverId, serverInfo);
+    }
+  }, delayMs);
+}
+
+// Spawn a server process from its launch configuration
+function launchProcess(launch: ServerLaunchConfig, cwd: string): ServerProcess {
+  return spawn(
+    launch.file,
+    launch.args,
+    {
+      cwd,
+      env: launch.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: false // Not fully detaching so we can still manage the process
+    }
+  );
+}
+
+// Spawn (or respawn) the process of a managed server
+function spawnServerProcess(serverId: string, serverInfo: ServerInfo): void {
+  attachProcess(serverId, serverInfo, launchProcess(serverInfo.launch, serverInfo.cwd));
+}
+
+// Make a freshly spawned process the current process of a server and capture its output
+function attachProcess(serverId: string, serverInfo: ServerInfo, serverProcess: ServerProcess): void {
+  serverInfo.process = serverProcess;
+  serverInfo.pid = serverProcess.pid || 0; // Default to 0 if pid is undefined
+  serverInfo.startTime = new Date();
+  serverInfo.exitCode = null;
+  serverInfo.signal = null;
+  serverInfo.adopted = false;
+  persistServers();
+  serverEvents.emit('start', serverInfo);
+
+  // Capture output line by line; a last line without newline is recorded when the stream ends
+  serverProcess.stdout.setEncoding('utf-8');
+  serverProcess.stderr.setEncoding('utf-8');
+  serverProcess.stdout.on('data', (data: string) => captureOutput(serverInfo, appendOutput(serverInfo, 'stdout', data)));
+  serverProcess.stderr.on('data', (data: string) => captureOutput(serverInfo, appendOutput(serverInfo, 'stderr', data)));
+  serverProcess.stdout.on('end', () => captureOutput(serverInfo, flushPartialLine(serverInfo, 'stdout')));
+  serverProcess.stderr.on('end', () => captureOutput(serverInfo, flushPartialLine(serverInfo, 'stderr')));
+
+  // Report spawn failures through the logs instead of crashing the MCP server
+  serverProcess.on('error', (error) => {
+    pushLog(serverInfo, 'mcp-node', `Failed to start server: ${error.message}`);
+    if (serverInfo.process === serverProcess && serverInfo.exitCode === null) {
+      serverInfo.exitCode = -1;
+    }
+  });
+
+  serverProcess.on('exit', (code, signal) => {
+    // Ignore late events from a process that has already been replaced
+    if (serverInfo.process === serverProcess) {
+      handleExit(serverId, serverInfo, code, signal);
+    }
+  });
+}
+
+/**
+ * Start a managed server and register it in runningServers.
+ * The server is restarted according to its restart policy and, when watch
+ * patterns are given, whenever a matching file changes.
+ */
+export function startManagedServer(options: ManagedServerOptions): ServerInfo {
+  const serverProcess = launchProcess(options.launch, options.cwd);
+  const serverInfo: ServerInfo = {
+    process: serverProcess,
+    name: options.name,
+    command: options.command,
+    cwd: options.cwd,
+    pid: serverProcess.pid || 0,
+    startTime: new Date(),
+    logs: [],
+    exitCode: null,
+    signal: null,
+    launch: options.launch,
+    restartPolicy: options.restartPolicy ?? 'never',
+    maxRestarts: options.maxRestarts ?? 5,
+    restartDelay: options.restartDelay ?? 1000,
+    restartCount: 0,
+    consecutiveRestarts: 0,
+    restartHistory: [],
+    restartTimer: null,
+    nextRestartAt: null,
+    stopRequested: false,
+    restartingForChange: false,
+    watchPatterns: options.watch ?? [],
+    watchers: [],
+    adopted: false,
+    exitPoller: null,
+    logFile: getServerLogPath(options.serverId),
+    logFd: null,
+    logSize: 0,
+    lineCount: 0,
+    partialLines: { stdout: '', stderr: '' },
+    metrics: [],
+    inspectPort: options.inspectPort ?? null
+  };
+
+  runningServers.set(options.serverId, serverInfo);
+  openLogFile(serverInfo);
+  attachProcess(options.serverId, serverInfo, serverProcess);
+
+  if (serverInfo.watchPatterns.length > 0) {
+    startWatching(options.serverId, serverInfo);
+  }
+
+  return serverInfo;
+}
+
+// Outcome of stopping a server process
+export interface StopResult {
+  exited: boolean;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+// Send a signal to a PID and poll until the process is gone or the timeout expires
+function signalAndPoll(pid: number, signal: NodeJS.Signals, timeout: number): Promise<boolean> {
+  try {
+    process.kill(pid, signal);
+  } catch (error) {
+    // Already gone
+  }
+
+  const deadline = Date.now() + timeout;
+  return new Promise((resolve) => {
+    const check = () => {
+      if (!isProcessAlive(pid)) {
+        resolve(true);
+      } else if (Date.now() >= deadline) {
+        resolve(false);
+      } else {
+        setTimeout(check, 100);
+      }
+    };
+    check();
+  });
+}
+
+// Send a signal to the current process of a server and wait for it to exit
+function killAndWait(serverId: string, serverInfo: ServerInfo, signal: NodeJS.Signals, timeout: number): Promise<StopResult> {
+  const serverProcess = serverInfo.process;
+
+  // If the process has already exited
+  if (serverInfo.exitCode !== null) {
+    return Promise.resolve({ exited: true, exitCode: serverInfo.exitCode, signal: serverInfo.signal });
+  }
+
+  // Adopted processes are not our children: signal the PID and poll for its exit
+  if (!serverProcess) {
+    return signalAndPoll(serverInfo.pid, signal, timeout).then((exited) => {
+      if (!exited) return { exited: false, exitCode: null, signal: null };
+      if (serverInfo.exitCode === null) {
+        handleExit(serverId, serverInfo, null, signal);
+      }
+      return { exited: true, exitCode: serverInfo.exitCode, signal: serverInfo.signal };
+    });
+  }
+
+  return new Promise((resolve) => {
+
+    const timer = setTimeout(() => {
+      serverProcess.removeListener('exit', onExit);
+      resolve({ exited: false, exitCode: null, signal: null });
+    }, timeout);
+
+    const onExit = (code: number | null, exitSignal: NodeJS.Signals | null) => {
+      clearTimeout(timer);
+      resolve({ exited: true, exitCode: code ?? (exitSignal ? signalExitCode(exitSignal) : -1), signal: exitSignal });
+    };
+
+    serverProcess.once('exit', onExit);
+    serverProcess.kill(signal);
+  });
+}
+
+/**
+ * Stop a managed server on purpose: cancels pending restarts and file watching,
+ * then sends SIGTERM (or SIGKILL when forced) and waits up to `timeout` ms.
+ */
+export function stopManagedServer(serverId: string, force = false, timeout = 5000): Promise<StopResult> {
+  const serverInfo = runningServers.get(serverId);
+  if (!serverInfo) {
+    return Promise.reject(new Error(`Server with ID ${serverId} not found`));
+  }
+
+  serverInfo.stopRequested = true;
+  closeWatchers(serverInfo);
+  if (serverInfo.restartTimer) {
+    clearTimeout(serverInfo.restartTimer);
+    serverInfo.restartTimer = null;
+    serverInfo.nextRestartAt = null;
+  }
+
+  // Nothing left to kill, but the exit handler kept the entry around for a restart
+  if (serverInfo.exitCode !== null) {
+    scheduleCleanup(serverId, serverInfo);
+  }
+
+  return killAndWait(serverId, serverInfo, force ? 'SIGKILL' : 'SIGTERM', timeout);
+}
+
+/**
+ * Stop every managed server that is still running.
+ * Sends SIGTERM first and escalates to SIGKILL for servers that don't exit within the timeout.
+ * Log files of stopped servers are removed, as no later session can refer to them.
+ */
+export async function stopAllServers(timeout = 5000): Promise<void> {
+  await Promise.all(Array.from(runningServers.entries()).map(async ([serverId, serverInfo]) => {
+    let result = await stopManagedServer(serverId, false, timeout);
+    if (!result.exited) {
+      result = await killAndWait(serverId, serverInfo, 'SIGKILL', timeout);
+    }
+    if (result.exited) {
+      removeLogFile(serverInfo);
+    }
+  }));
+}
+
+// Re-register a live server of a previous mcp-node session, keeping its ID, settings and logs
+function adoptServer(entry: PersistedServer): ServerInfo {
+  const { logs, lineCount } = loadLogState(entry.logFile);
+  const serverInfo: ServerInfo = {
+    process: null,
+    name: entry.name,
+    command: entry.command,
+    cwd: entry.cwd,
+    pid: entry.pid,
+    startTime: new Date(entry.startTime),
+    logs,
+    exitCode: null,
+    signal: null,
+    // Restarts reuse the current environment, which is what the server was started with
+    launch: { file: entry.launch.file, args: entry.launch.args, env: { ...process.env } },
+    restartPolicy: entry.restartPolicy,
+    maxRestarts: entry.maxRestarts,
+    restartDelay: entry.restartDelay,
+    restartCount: 0,
+    consecutiveRestarts: 0,
+    restartHistory: [],
+    restartTimer: null,
+    nextRestartAt: null,
+    stopRequested: false,
+    restartingForChange: false,
+    watchPatterns: entry.watchPatterns,
+    watchers: [],
+    adopted: true,
+    exitPoller: null,
+    logFile: entry.logFile,
+    logFd: null,
+    logSize: 0,
+    lineCount,
+    partialLines: { stdout: '', stderr: '' },
+    metrics: [],
+    inspectPort: entry.inspectPort ?? null
+  };
+
+  runningServers.set(entry.serverId, serverInfo);
+  openLogFile(serverInfo);
+  pushLog(serverInfo, 'mcp-node', `Adopted PID ${entry.pid} from a previous mcp-node session; its output is no longer captured`);
+  serverEvents.emit('start', serverInfo);
+
+  // The exit of a process we did not spawn can only be noticed by polling
+  serverInfo.exitPoller = setInterval(() => {
+    if (!isProcessAlive(serverInfo.pid) && serverInfo.exitCode === null && !serverInfo.process) {
+      handleExit(entry.serverId, serverInfo, null, null);
+    }
+  }, ADOPTED_POLL_INTERVAL);
+  serverInfo.exitPoller.unref();
+
+  if (serverInfo.watchPatterns.length > 0) {
+    startWatching(entry.serverId, serverInfo);
+  }
+
+  return serverInfo;
+}
+
+/**
+ * Recover the servers of previous mcp-node sessions from the server registry.
+ * Servers whose owning mcp-node process is gone but that are still running are
+ * adopted or reported as orphans depending on `mode`; entries of processes that
+ * no longer run are dropped. Servers of other live mcp-node processes are left alone.
+ */
+export function restoreServers(mode: OrphanMode): { adopted: string[], orphaned: string[] } {
+  const adopted: string[] = [];
+  const orphaned: string[] = [];
+  const stale: string[] = [];
+
+  for (const entry of readServerRegistry()) {
+    // At startup this process owns nothing yet, so an entry with our PID is from a previous session
+    if (entry.ownerPid !== process.pid && isProcessAlive(entry.ownerPid)) continue;
+    if (runningServers.has(entry.serverId) || orphanedServers.has(entry.serverId)) continue;
+
+    if (!isSameProcess(entry)) {
+      removeLogFiles(entry.logFile);
+      stale.push(entry.serverId);
+      continue;
+    }
+
+    if (mode === 'adopt') {
+      adoptServer(entry);
+      adopted.push(entry.serverId);
+    } else {
+      orphanedServers.set(entry.serverId, { ...entry, ownerPid: process.pid });
+      orphaned.push(entry.serverId);
+    }
+  }
+
+  persistServers(stale);
+  return { adopted, orphaned };
+}
+
+// Orphaned servers that are still running; entries whose process has exited are forgotten
+export function getOrphanedServers(): PersistedServer[] {
+  let changed = false;
+  for (const [serverId, entry] of orphanedServers) {
+    if (!isSameProcess(entry)) {
+      orphanedServers.delete(serverId);
+      removeLogFiles(entry.logFile);
+      changed = true;
+    }
+  }
+  if (changed) persistServers();
+  return Array.from(orphanedServers.values());
+}
+
+// Take over an orphaned server so it can be managed like a server started in this session
+export function adoptOrphanedServer(serverId: string): ServerInfo {
+  const entry = orphanedServers.get(serverId);
+  if (!entry) {
+    throw new Error(`Orphaned server with ID ${serverId} not found`);
+  }
+
+  orphanedServers.delete(serverId);
+  if (!isSameProcess(entry)) {
+    persistServers();
+    throw new Error(`Orphaned server ${serverId} (PID ${entry.pid}) is no longer running`);
+  }
+
+  const serverInfo = adoptServer(entry);
+  persistServers();
+  return serverInfo;
+}
+
+/**
+ * Terminate an orphaned server with SIGTERM (or SIGKILL when forced) and wait up to `timeout` ms.
+ * The orphan is forgotten once its process is gone.
+ */
+export async function killOrphanedServer(serverId: string, force = false, timeout = 5000): Promise<boolean> {
+  const entry = orphanedServers.get(serverId);
+  if (!entry) {
+    throw new Error(`Orphaned server with ID ${serverId} not found`);
+  }
+
+  const exited = !isSameProcess(entry) || await signalAndPoll(entry.pid, force ? 'SIGKILL' : 'SIGTERM', timeout);
+  if (exited) {
+    orphanedServers.delete(serverId);
+    removeLogFiles(entry.logFile);
+    persistServers();
+  }
+  return exited;
+}
+
+// Close all file watchers of a server
+function closeWatchers(serverInfo: ServerInfo): void {
+  for (const watcher of serverInfo.watchers) {
+    watcher.close();
+  }
+  serverInfo.watchers = [];
+}
+
+// Directory to watch for a glob: the part of the pattern before the first wildcard
+function watchBaseDir(cwd: string, pattern: string): string {
+  const segments = pattern.split('/');
+  const firstWildcard = segments.findIndex(segment => /[*?]/.test(segment));
+  const staticSegments = firstWildcard === -1 ? segments.slice(0, -1) : segments.slice(0, firstWildcard);
+  return path.resolve(cwd, staticSegments.join('/') || '.');
+}
+
+// List a directory and its subdirectories, skipping ignored ones
+function listDirectories(dir: string): string[] {
+  const directories = [dir];
+  try {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name)) {
+        directories.push(...listDirectories(path.join(dir, entry.name)));
+      }
+    }
+  } catch (error) {
+    // Unreadable directories are simply not watched
+  }
+  return directories;
+}
+
+// Restart a server because watched files changed
+async function restartForChange(serverId: string, serverInfo: ServerInfo, changedFile: string): Promise<void> {
+  if (serverInfo.stopRequested || serverInfo.restartingForChange || runningServers.get(serverId) !== serverInfo) return;
+
+  if (serverInfo.restartTimer) {
+    clearTimeout(serverInfo.restartTimer);
+    serverInfo.restartTimer = null;
+    serverInfo.nextRestartAt = null;
+  }
+
+  const previousExitCode = serverInfo.exitCode;
+  pushLog(serverInfo, 'mcp-node', `${changedFile} changed; restarting server`);
+
+  // Keep the exit handler from scheduling its own restart while we replace the process
+  serverInfo.restartingForChange = true;
+  let result: StopResult;
+  try {
+    result = await killAndWait(serverId, serverInfo, 'SIGTERM', 5000);
+    if (!result.exited) {
+      await killAndWait(serverId, serverInfo, 'SIGKILL', 5000);
+    }
+  } finally {
+    serverInfo.restartingForChange = false;
+  }
+
+  // The server may have been stopped while we were waiting
+  if (serverInfo.stopRequested || runningServers.get(serverId) !== serverInfo || serverInfo.watchers.length === 0) return;
+
+  serverInfo.restartCount++;
+  serverInfo.consecutiveRestarts = 0;
+  serverInfo.restartHistory.push({
+    time: new Date(),
+    reason: 'watch',
+    exitCode: previousExitCode ?? result.exitCode,
+    signal: result.signal,
+    delayMs: 0,
+    changedFile
+  });
+  spawnServerProcess(serverId, serverInfo);
+}
+
+// Watch the files matching the server's watch patterns and restart it on changes
+function startWatching(serverId: string, serverInfo: ServerInfo): void {
+  const matchers = serverInfo.watchPatterns.map(pattern => globToRegExp(pattern));
+  const baseDirs = Array.from(new Set(serverInfo.watchPatterns.map(pattern => watchBaseDir(serverInfo.cwd, pattern))));
+  let debounceTimer: NodeJS.Timeout | null = null;
+
+  const onChange = (dir: string, filename: string | Buffer | null) => {
+    if (!filename) return;
+    const absPath = path.join(dir, filename.toString());
+    const relPath = path.relative(serverInfo.cwd, absPath);
+    if (relPath.split(path.sep).some(segment => IGNORED_DIRECTORIES.has(segment))) return;
+    if (!matchers.some(matcher => matcher.test(relPath) || matcher.test(absPath))) return;
+
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      restartForChange(serverId, serverInfo, relPath).catch((error) => {
+        pushLog(serverInfo, 'mcp-node', `Failed to restart server after file change: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, WATCH_DEBOUNCE);
+  };
+
+  for (const baseDir of baseDirs) {
+    try {
+      serverInfo.watchers.push(fs.watch(baseDir, { recursive: true }, (_event, filename) => onChange(baseDir, filename)));
+    } catch (error) {
+      // Recursive watching is not available everywhere (e.g. Linux before Node.js 20): watch each directory instead
+      for (const dir of listDirectories(baseDir)) {
+        try {
+          serverInfo.watchers.push(fs.watch(dir, (_event, filename) => onChange(dir, filename)));
+        } catch (watchError) {
+          pushLog(serverInfo, 'mcp-node', `Unable to watch ${dir}: ${watchError instanceof Error ? watchError.message : String(watchError)}`);
+        }
+      }
+    }
+  }
+}
+
+// Human readable status of a managed server
+export function describeServerStatus(serverInfo: ServerInfo): string {
+  if (serverInfo.exitCode === null) {
+    return 'Running';
+  }
+
+  let exit = serverInfo.signal
+    ? `Killed by ${serverInfo.signal}`
+    : `Exited with code ${serverInfo.exitCode}`;
+  if (serverInfo.adopted && !serverInfo.signal) {
+    exit = 'Exited (exit code unknown for adopted servers)';
+  }
+
+  if (serverInfo.restartTimer && serverInfo.nextRestartAt) {
+    const remaining = Math.max(0, serverInfo.nextRestartAt.getTime() - Date.now());
+    return `${exit}, restarting in ${remaining}ms`;
+  }
+  if (serverInfo.restartPolicy !== 'never' && !serverInfo.stopRequested &&
+      serverInfo.consecutiveRestarts >= serverInfo.maxRestarts && serverInfo.maxRestarts > 0) {
+    return `${exit} (crash loop: gave up after ${serverInfo.consecutiveRestarts} consecutive restarts)`;
+  }
+  return exit;
+}
+
+// Restart policy, counters and recent restart history of a managed server
+export function describeRestarts(serverInfo: ServerInfo, historyLimit = 5): string {
+  let text = `Restart policy: ${serverInfo.restartPolicy}`;
+  if (serverInfo.restartPolicy !== 'never') {
+    text += ` (max ${serverInfo.maxRestarts} consecutive, base delay ${serverInfo.restartDelay}ms)`;
+  }
+  text += `\nRestarts: ${serverInfo.restartCount} total, ${serverInfo.consecutiveRestarts} consecutive\n`;
+  if (serverInfo.watchPatterns.length > 0) {
+    text += `Watching: ${serverInfo.watchPatterns.join(', ')}${serverInfo.watchers.length === 0 ? ' (stopped)' : ''}\n`;
+  }
+
+  const history = serverInfo.restartHistory.slice(-historyLimit);
+  if (history.length > 0) {
+    text += `Restart history (last ${history.length}):\n`;
+    text += history.map(event => {
+      const cause = event.reason === 'watch'
+        ? `${event.changedFile} changed`
+        : event.signal ? `killed by ${event.signal}` : `exited with code ${event.exitCode}`;
+      return `  - ${event.time.toLocaleString()}: ${event.reason} (${cause}), restarted after ${event.delayMs}ms`;
+    }).join('\n') + '\n';
+  }
+  return text;
+}
@@ -0,0 +1,343 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { createHash } from "crypto";
+import { getStateDir, globToRegExp } from "./helpers.js";
+
+// Reporter for the Node.js test runner that writes one JSON event per line.
+// Errors are flattened because they do not survive JSON.stringify.
+const REPORTER_SOURCE = `import { inspect } from 'node:util';
+
+function serializeError(error) {
+  if (!error || typeof error !== 'object') return { message: String(error) };
+  const serialized = { name: error.name, message: error.message, code: error.code, stack: error.stack };
+  if (error.code === 'ERR_ASSERTION') {
+    serialized.operator = error.operator;
+    serialized.generatedMessage = error.generatedMessage;
+    serialized.actual = inspect(error.actual, { depth: 6 });
+    serialized.expected = inspect(error.expected, { depth: 6 });
+  }
+  return serialized;
+}
+
+export default async function * reporter (source) {
+  for await (const event of source) {
+    if (event.type === 'test:enqueue' || event.type === 'test:dequeue' || event.type === 'test:complete') continue;
+    const data = { ...event.data };
+    if (data.details && data.details.error) {
+      const error = data.details.error;
+      data.details = {
+        ...data.details,
+        error: { message: error.message, failureType: error.failureType, cause: serializeError(error.cause ?? error) }
+      };
+    }
+    yield JSON.stringify({ type: event.type, data }) + '\\n';
+  }
+}
+`;
+
+// Directories never searched when expanding test file globs
+const IGNORED_DIRS = new Set(['node_modules', '.git']);
+
+// Output of a test file kept for the report, per file
+const MAX_FILE_OUTPUT = 4000;
+
+// An error thrown by a failing test, as serialized by the reporter
+export interface TestError {
+  name?: string;
+  message?: string;
+  code?: string;
+  stack?: string;
+  operator?: string;
+  generatedMessage?: boolean;
+  actual?: string;
+  expected?: string;
+}
+
+// A failed test
+export interface TestFailure {
+  name: string;
+  // Names of the enclosing suites and tests, outermost first
+  ancestors: string[];
+  file: string | null;
+  // Location of the test definition
+  line: number | null;
+  // Location the error was thrown from, if it is in user code
+  location: string | null;
+  failureType: string | null;
+  durationMs: number | null;
+  error: TestError;
+}
+
+// Outcome of a test run
+export interface TestRunSummary {
+  tests: number;
+  suites: number;
+  passed: number;
+  failed: number;
+  cancelled: number;
+  skipped: number;
+  todo: number;
+  durationMs: number | null;
+  failures: TestFailure[];
+  // Output written by test files that had failures, by file
+  output: Map<string, string>;
+}
+
+// Failures of the previous run of a project, for rerunning them
+export interface LastTestRun {
+  cwd: string;
+  time: string;
+  failures: Array<{ name: string, ancestors: string[], file: string | null }>;
+}
+
+/**
+ * Write the JSON reporter to the state directory, so the test runner of any
+ * Node.js version can load it, and return its path.
+ */
+export async function ensureTestReporter(): Promise<string> {
+  const reporterPath = path.join(getStateDir(), 'support', 'test-reporter.mjs');
+  try {
+    if (await fs.readFile(reporterPath, 'utf-8') === REPORTER_SOURCE) {
+      return reporterPath;
+    }
+  } catch (error) {
+    // Not written yet
+  }
+  await fs.mkdir(path.dirname(reporterPath), { recursive: true });
+  await fs.writeFile(reporterPath, REPORTER_SOURCE, 'utf-8');
+  return reporterPath;
+}
+
+// All files below a directory, as paths relative to it with forward slashes
+async function listFiles(root: string, dir = ''): Promise<string[]> {
+  const files: string[] = [];
+  let entries;
+  try {
+    entries = await fs.readdir(path.join(root, dir), { withFileTypes: true });
+  } catch (error) {
+    return files;
+  }
+  for (const entry of entries) {
+    const relative = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.has(entry.name)) files.push(...await listFiles(root, relative));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+/**
+ * Expand test file arguments relative to `cwd`. Plain paths are kept as they
+ * are; glob patterns are matched against the files of the project, since older
+ * Node.js versions do not expand them.
+ */
+export async function expandTestFiles(cwd: string, patterns: string[]): Promise<string[]> {
+  const files: string[] = [];
+  let projectFiles: string[] | null = null;
+  for (const pattern of patterns) {
+    if (!/[*?]/.test(pattern)) {
+      files.push(pattern);
+      continue;
+    }
+    projectFiles ??= await listFiles(cwd);
+    const matcher = globToRegExp(pattern.replace(/^\.\//, ''));
+    files.push(...projectFiles.filter(file => matcher.test(file)));
+  }
+  return Array.from(new Set(files));
+}
+
+// Regular expression matching exactly the given test name
+export function exactNamePattern(name: string): string {
+  return `^${name.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}$`;
+}
+
+// First stack frame outside Node.js internals and dependencies, as file:line:column
+function findUserFrame(stack: string | undefined): string | null {
+  if (!stack) return null;
+  for (const line of stack.split('\n').slice(1)) {
+    const match = /at (?:.*\()?((?:file:\/\/)?\/[^()]+?:\d+:\d+)\)?\s*$/.exec(line.trim());
+    if (match && !match[1].includes('node_modules') && !match[1].startsWith('node:')) {
+      return match[1].replace(/^file:\/\//, '');
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse the output of the JSON reporter into a summary. Only tests that failed
+ * themselves are reported as failures, not the suites and files containing them.
+ */
+export function parseTestEvents(content: string): TestRunSummary {
+  const summary: TestRunSummary = {
+    tests: 0,
+    suites: 0,
+    passed: 0,
+    failed: 0,
+    cancelled: 0,
+    skipped: 0,
+    todo: 0,
+    durationMs: null,
+    failures: [],
+    output: new Map()
+  };
+  // Names of the tests currently running, by file and nesting level
+  const running = new Map<string, string[]>();
+  const output = new Map<string, string>();
+  const counted = { tests: 0, passed: 0, failed: 0, skipped: 0, todo: 0 };
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    let event: { type: string, data: Record<string, any> };
+    try {
+      event = JSON.parse(line);
+    } catch (error) {
+      continue;
+    }
+    const data = event.data ?? {};
+    const file: string = data.file ?? '';
+
+    switch (event.type) {
+      case 'test:start': {
+        const names = running.get(file) ?? [];
+        names.length = data.nesting;
+        names[data.nesting] = data.name;
+        running.set(file, names);
+        break;
+      }
+      case 'test:pass':
+      case 'test:fail': {
+        if (data.details?.type === 'suite') break;
+        const failed = event.type === 'test:fail';
+        const error = data.details?.error;
+        // Suites and files fail when their subtests do; those subtests are reported on their own
+        if (failed && error?.failureType === 'subtestsFailed') break;
+
+        counted.tests++;
+        if (data.todo !== undefined && data.todo !== false) counted.todo++;
+        else if (data.skip !== undefined && data.skip !== false) counted.skipped++;
+        else if (failed) counted.failed++;
+        else counted.passed++;
+
+        if (failed && (data.todo === undefined || data.todo === false)) {
+          const cause: TestError = error?.cause ?? { message: error?.message };
+          summary.failures.push({
+            name: data.name,
+            ancestors: (running.get(file) ?? []).slice(0, data.nesting),
+            file: data.file ?? null,
+            line: data.line ?? null,
+            location: findUserFrame(cause.stack),
+            failureType: error?.failureType ?? null,
+            durationMs: data.details?.duration_ms ?? null,
+            error: cause
+          });
+        }
+        break;
+      }
+      case 'test:stdout':
+      case 'test:stderr': {
+        const previous = output.get(file) ?? '';
+        if (previous.length < MAX_FILE_OUTPUT) {
+          output.set(file, (previous + data.message).slice(0, MAX_FILE_OUTPUT));
+        }
+        break;
+      }
+      case 'test:diagnostic': {
+        // The final diagnostics of the run hold its totals, e.g. "pass 3"
+        const match = /^(tests|suites|pass|fail|cancelled|skipped|todo|duration_ms) ([\d.]+)$/.exec(data.message ?? '');
+        if (!match || data.nesting !== 0) break;
+        const value = Number(match[2]);
+        switch (match[1]) {
+          case 'tests': summary.tests = value; break;
+          case 'suites': summary.suites = value; break;
+          case 'pass': summary.passed = value; break;
+          case 'fail': summary.failed = value; break;
+          case 'cancelled': summary.cancelled = value; break;
+          case 'skipped': summary.skipped = value; break;
+          case 'todo': summary.todo = value; break;
+          case 'duration_ms': summary.durationMs = value; break;
+        }
+        break;
+      }
+    }
+  }
+
+  // Without final diagnostics (e.g. the run was killed) fall back to what we counted
+  if (summary.durationMs === null) {
+    summary.tests = counted.tests;
+    summary.passed = counted.passed;
+    summary.failed = counted.failed;
+    summary.skipped = counted.skipped;
+    summary.todo = counted.todo;
+  }
+
+  const failedFiles = new Set(summary.failures.map(failure => failure.file ?? ''));
+  for (const [file, text] of output) {
+    if (failedFiles.has(file) && text.trim()) summary.output.set(file, text);
+  }
+  return summary;
+}
+
+// Location of the last-run record of a project
+function lastRunPath(cwd: string): string {
+  const hash = createHash('sha1').update(cwd).digest('hex').slice(0, 16);
+  return path.join(getStateDir(), 'test-runs', `${hash}.json`);
+}
+
+// Failures of the previous run in a project, or null if it has not been run
+export async function readLastTestRun(cwd: string): Promise<LastTestRun | null> {
+  try {
+    return JSON.parse(await fs.readFile(lastRunPath(cwd), 'utf-8'));
+  } catch (error) {
+    return null;
+  }
+}
+
+// Remember the failures of a run so they can be rerun later
+export async function writeLastTestRun(cwd: string, summary: TestRunSummary): Promise<void> {
+  const record: LastTestRun = {
+    cwd,
+    time: new Date().toISOString(),
+    failures: summary.failures.map(failure => ({ name: failure.name, ancestors: failure.ancestors, file: failure.file }))
+  };
+  try {
+    await fs.mkdir(path.dirname(lastRunPath(cwd)), { recursive: true });
+    await fs.writeFile(lastRunPath(cwd), JSON.stringify(record, null, 2) + '\n', 'utf-8');
+  } catch (error) {
+    console.error(`Failed to record test run in ${lastRunPath(cwd)}:`, error);
+  }
+}
+
+// Render a failure with its location, assertion details and stack
+export function formatTestFailure(failure: TestFailure, cwd: string): string {
+  const relative = (file: string) => path.relative(cwd, file) || file;
+  const name = [...failure.ancestors, failure.name].join(' > ');
+  const definedAt = failure.file ? `${relative(failure.file)}${failure.line ? `:${failure.line}` : ''}` : 'unknown file';
+  let text = `✖ ${name}\n`;
+  text += `  at ${failure.location ? relative(failure.location) : definedAt}`;
+  if (failure.location) text += ` (test defined at ${definedAt})`;
+  text += '\n';
+  if (failure.failureType && failure.failureType !== 'testCodeFailure') {
+    text += `  Failure type: ${failure.failureType}\n`;
+  }
+
+  const { error } = failure;
+  const message = error.message ?? '';
+  text += `  ${error.name ?? 'Error'}${error.code ? ` [${error.code}]` : ''}: ${message.split('\n').join('\n  ')}\n`;
+  // Assertion messages of deep comparisons already contain a diff
+  if (error.actual !== undefined && !/\+ actual - expected/.test(message)) {
+    text += `  Expected${error.operator ? ` (${error.operator})` : ''}: ${error.expected?.split('\n').join('\n  ')}\n`;
+    text += `  Actual: ${error.actual.split('\n').join('\n  ')}\n`;
+  }
+
+  if (error.stack) {
+    const frames = error.stack.split('\n')
+      .filter(line => /^\s+at /.test(line) && !/\(node:|at node:/.test(line))
+      .slice(0, 8);
+    if (frames.length > 0) {
+      text += `  Stack:\n${frames.map(frame => `    ${frame.trim()}`).join('\n')}\n`;
+    }
+  }
+  return text;
+}
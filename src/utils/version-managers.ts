@@ -0,0 +1,492 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getSelectedNodeVersion } from "./helpers.js";
+import { describeProjectVersion, findProjectNodeVersion } from "./project-version.js";
+
+const execFileAsync = promisify(execFile);
+
+// A Node.js installation managed by one of the supported version managers
+export interface NodeInstallation {
+  // Normalized version, e.g. v20.11.1
+  version: string;
+  // Name of the version manager that installed it
+  manager: string;
+  // Absolute path of the directory with the node, npm and npx binaries
+  binDir: string;
+  // Absolute path of the node binary
+  node: string;
+}
+
+// Binaries and environment to run Node.js commands with
+export interface NodeRuntime {
+  // The installation in use, or null for whatever `node` is on the PATH
+  installation: NodeInstallation | null;
+  node: string;
+  npm: string;
+  npx: string;
+  // Environment with the installation's binaries first on the PATH, so scripts spawning `node` get the same version
+  env: NodeJS.ProcessEnv;
+  // Why this version is used, e.g. pinned to 20 by /project/.nvmrc
+  reason: string;
+}
+
+// A version manager found on this machine
+export interface DetectedVersionManager {
+  name: string;
+  // Directory the manager keeps its installations in
+  root: string;
+}
+
+interface VersionManager {
+  name: string;
+  // Directory of the manager's installations, or null when it is not installed
+  findRoot(): Promise<string | null>;
+  listInstallations(root: string): Promise<NodeInstallation[]>;
+  // Map an alias like `default` or `lts/*` to a version, if the manager supports aliases
+  resolveAlias?(root: string, alias: string): Promise<string | null>;
+}
+
+async function isDirectory(dir: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(dir)).isDirectory();
+  } catch (error) {
+    return false;
+  }
+}
+
+async function isExecutable(file: string): Promise<boolean> {
+  try {
+    await fs.promises.access(file, fs.constants.X_OK);
+    return (await fs.promises.stat(file)).isFile();
+  } catch (error) {
+    return false;
+  }
+}
+
+// First of the candidate directories that exists
+async function firstDirectory(candidates: Array<string | undefined>): Promise<string | null> {
+  for (const candidate of candidates) {
+    if (candidate && await isDirectory(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+// Normalize a version like 20.11.1 or node-v20.11.1-linux-x64 to v20.11.1
+function parseVersion(text: string): string | null {
+  const match = text.match(/v?(\d+\.\d+\.\d+)/);
+  return match ? `v${match[1]}` : null;
+}
+
+// Version reported by a node binary
+async function queryVersion(node: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync(node, ['--version'], { timeout: 10000 });
+    return parseVersion(stdout.trim());
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Installations in the subdirectories of `dir`, where each subdirectory is
+ * named after its version and keeps its binaries in `binPath` below it.
+ */
+async function scanVersionDirs(manager: string, dir: string, binPath: string): Promise<NodeInstallation[]> {
+  let entries: string[];
+  try {
+    entries = await fs.promises.readdir(dir);
+  } catch (error) {
+    return [];
+  }
+  const installations: NodeInstallation[] = [];
+  for (const entry of entries) {
+    const binDir = path.join(dir, entry, binPath);
+    const node = path.join(binDir, 'node');
+    if (!await isExecutable(node)) continue;
+    const version = parseVersion(entry) ?? await queryVersion(node);
+    if (version) {
+      installations.push({ version, manager, binDir, node });
+    }
+  }
+  return installations;
+}
+
+// Read nvm's alias files, which may point at other aliases (default -> lts/* -> lts/iron -> v20.11.1)
+async function readNvmAlias(root: string, alias: string, seen = new Set<string>()): Promise<string | null> {
+  if (seen.has(alias)) return null;
+  seen.add(alias);
+  let target: string;
+  try {
+    target = (await fs.promises.readFile(path.join(root, 'alias', alias), 'utf-8')).trim();
+  } catch (error) {
+    return null;
+  }
+  return await readNvmAlias(root, target, seen) ?? target;
+}
+
+const nvm: VersionManager = {
+  name: 'nvm',
+  findRoot: () => firstDirectory([process.env.NVM_DIR, path.join(os.homedir(), '.nvm')]),
+  listInstallations: (root) => scanVersionDirs('nvm', path.join(root, 'versions', 'node'), 'bin'),
+  resolveAlias: (root, alias) => readNvmAlias(root, alias)
+};
+
+const fnm: VersionManager = {
+  name: 'fnm',
+  findRoot: () => firstDirectory([
+    process.env.FNM_DIR,
+    path.join(process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share'), 'fnm'),
+    path.join(os.homedir(), 'Library', 'Application Support', 'fnm'),
+    path.join(os.homedir(), '.fnm')
+  ]),
+  listInstallations: (root) => scanVersionDirs('fnm', path.join(root, 'node-versions'), path.join('installation', 'bin')),
+  // fnm aliases are symlinks to the installation directory
+  async resolveAlias(root, alias) {
+    try {
+      return parseVersion(await fs.promises.realpath(path.join(root, 'aliases', alias)));
+    } catch (error) {
+      return null;
+    }
+  }
+};
+
+const volta: VersionManager = {
+  name: 'volta',
+  findRoot: () => firstDirectory([process.env.VOLTA_HOME, path.join(os.homedir(), '.volta')]),
+  listInstallations: (root) => scanVersionDirs('volta', path.join(root, 'tools', 'image', 'node'), 'bin')
+};
+
+const asdf: VersionManager = {
+  name: 'asdf',
+  findRoot: () => firstDirectory([process.env.ASDF_DATA_DIR, path.join(os.homedir(), '.asdf')]),
+  listInstallations: (root) => scanVersionDirs('asdf', path.join(root, 'installs', 'nodejs'), 'bin')
+};
+
+// Official tarballs extracted under /opt/node, either directly or one directory per version
+const tarball: VersionManager = {
+  name: 'tarball',
+  findRoot: () => firstDirectory([process.env.MCP_NODE_TARBALL_DIR, '/opt/node']),
+  async listInstallations(root) {
+    const binDir = path.join(root, 'bin');
+    const node = path.join(binDir, 'node');
+    if (await isExecutable(node)) {
+      const version = await queryVersion(node);
+      return version ? [{ version, manager: 'tarball', binDir, node }] : [];
+    }
+    return scanVersionDirs('tarball', root, 'bin');
+  }
+};
+
+// The node binary found on the PATH mcp-node was started with
+const system: VersionManager = {
+  name: 'system',
+  async findRoot() {
+    for (const dir of (process.env.PATH || '').split(path.delimiter)) {
+      if (dir && await isExecutable(path.join(dir, 'node'))) {
+        return dir;
+      }
+    }
+    return null;
+  },
+  async listInstallations(root) {
+    const node = path.join(root, 'node');
+    const version = await queryVersion(node);
+    return version ? [{ version, manager: 'system', binDir: root, node }] : [];
+  }
+};
+
+// Supported managers, in the order their installations are preferred when several provide the same version
+const versionManagers: VersionManager[] = [nvm, fnm, volta, asdf, tarball, system];
+
+/**
+ * Detect the version managers installed on this machine. Setting
+ * MCP_NODE_VERSION_MANAGER to a manager's name restricts detection to it.
+ */
+export async function detectVersionManagers(): Promise<DetectedVersionManager[]> {
+  const only = process.env.MCP_NODE_VERSION_MANAGER;
+  const detected: DetectedVersionManager[] = [];
+  for (const manager of versionManagers) {
+    if (only && manager.name !== only && manager.name !== 'system') continue;
+    const root = await manager.findRoot();
+    if (root) {
+      detected.push({ name: manager.name, root });
+    }
+  }
+  return detected;
+}
+
+// Compare versions like v20.11.1 numerically
+function compareVersions(a: string, b: string): number {
+  return compareParts(a.slice(1).split('.').map(Number), b.slice(1).split('.').map(Number));
+}
+
+function compareParts(a: number[], b: number[]): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+async function scanNodeInstallations(): Promise<NodeInstallation[]> {
+  const installations: NodeInstallation[] = [];
+  for (const detected of await detectVersionManagers()) {
+    const manager = versionManagers.find(candidate => candidate.name === detected.name)!;
+    installations.push(...await manager.listInstallations(detected.root));
+  }
+  // Stable sort, so managers listed first win among equal versions
+  return installations.sort((a, b) => compareVersions(b.version, a.version));
+}
+
+// Result of the last scan (private); scanning reads every manager's directories and runs `node --version` for some
+let _installations: Promise<NodeInstallation[]> | null = null;
+
+// Runtimes by node binary (private), so the PATH of an installation is built once
+const _runtimes = new Map<string, Omit<NodeRuntime, 'reason'>>();
+
+// The selected version and the installation it resolved to (private), reused until the selection changes
+let _selectedInstallation: { version: string, installation: NodeInstallation } | null = null;
+
+/**
+ * All installations of the detected managers, newest version first. The
+ * result of the first scan is reused until `refresh` is set, which
+ * list-node-versions and select-node-version do to pick up new installs.
+ */
+export async function listNodeInstallations(refresh = false): Promise<NodeInstallation[]> {
+  if (refresh || !_installations) {
+    const scan = scanNodeInstallations();
+    _installations = scan;
+    _runtimes.clear();
+    _selectedInstallation = null;
+    // Do not keep a failed scan around
+    scan.catch(() => {
+      if (_installations === scan) _installations = null;
+    });
+  }
+  return _installations;
+}
+
+// A bound of a version range: the operator and the version it compares with
+interface Comparator {
+  operator: '<' | '<=' | '>' | '>=';
+  version: number[];
+}
+
+// Comparators of one term of a range, like >=18, ^20.11.0, ~20.11 or 20.x
+function parseComparators(term: string): Comparator[] | null {
+  const match = term.match(/^(<=|>=|<|>|=|\^|~>?)?v?([\dxX*]+(?:\.[\dxX*]+){0,2})(?:[-+][\w.-]*)?$/);
+  if (!match) return null;
+  const operator = match[1] ?? '';
+  const parts = match[2].split('.');
+  // Number of leading parts that are given, as opposed to x, * or missing
+  let given = 0;
+  while (given < 3 && /^\d+$/.test(parts[given] ?? '')) given++;
+  const numbers = [0, 1, 2].map(i => i < given ? Number(parts[i]) : 0);
+  const [major, minor, patch] = numbers;
+  // First version above everything matching the given parts
+  const next = given === 1 ? [major + 1, 0, 0] : [major, minor + 1, 0];
+
+  switch (operator) {
+    case '':
+    case '=':
+      if (given === 0) return [];
+      if (given === 3) return [{ operator: '>=', version: numbers }, { operator: '<=', version: numbers }];
+      return [{ operator: '>=', version: numbers }, { operator: '<', version: next }];
+    case '>=':
+      return given === 0 ? [] : [{ operator: '>=', version: numbers }];
+    case '>':
+      if (given === 0) return [{ operator: '<', version: [0, 0, 0] }];
+      return given === 3 ? [{ operator: '>', version: numbers }] : [{ operator: '>=', version: next }];
+    case '<':
+      return [{ operator: '<', version: numbers }];
+    case '<=':
+      if (given === 0) return [];
+      return given === 3 ? [{ operator: '<=', version: numbers }] : [{ operator: '<', version: next }];
+    case '^': {
+      if (given === 0) return [];
+      let upper: number[];
+      if (major > 0 || given === 1) upper = [major + 1, 0, 0];
+      else if (minor > 0 || given === 2) upper = [0, minor + 1, 0];
+      else upper = [0, 0, patch + 1];
+      return [{ operator: '>=', version: numbers }, { operator: '<', version: upper }];
+    }
+    default:
+      // ~ and ~>
+      if (given === 0) return [];
+      return [{ operator: '>=', version: numbers }, { operator: '<', version: given === 1 ? [major + 1, 0, 0] : [major, minor + 1, 0] }];
+  }
+}
+
+/**
+ * Whether a version like v20.11.1 satisfies an npm-style range, as found in
+ * package.json#engines: `>=18 <21`, `^20.11.0`, `20.x`, `18 || 20`, `18 - 20`.
+ * Returns null when the range cannot be parsed.
+ */
+export function satisfiesRange(version: string, range: string): boolean | null {
+  const parts = version.replace(/^v/, '').split('.').map(Number);
+  let satisfied = false;
+  for (const alternative of range.split('||')) {
+    // Hyphen ranges and operators separated from their version by spaces
+    let normalized = alternative.trim().replace(/([<>=~^]+)\s+/g, '$1');
+    const hyphen = normalized.match(/^(\S+)\s+-\s+(\S+)$/);
+    if (hyphen) normalized = `>=${hyphen[1]} <=${hyphen[2]}`;
+    const comparators: Comparator[] = [];
+    for (const term of normalized.split(/\s+/).filter(Boolean)) {
+      const parsed = parseComparators(term);
+      if (!parsed) return null;
+      comparators.push(...parsed);
+    }
+    const matches = comparators.every(({ operator, version: bound }) => {
+      const comparison = compareParts(parts, bound);
+      switch (operator) {
+        case '<': return comparison < 0;
+        case '<=': return comparison <= 0;
+        case '>': return comparison > 0;
+        case '>=': return comparison >= 0;
+      }
+    });
+    satisfied = satisfied || matches;
+  }
+  return satisfied;
+}
+
+// Newest installation matching a full or partial version like 20, v20.11 or 20.11.1
+function matchVersion(installations: NodeInstallation[], spec: string): NodeInstallation | undefined {
+  const wanted = spec.replace(/^v/, '').split('.');
+  return installations.find(installation => {
+    const parts = installation.version.slice(1).split('.');
+    return wanted.every((part, i) => parts[i] === part);
+  });
+}
+
+/**
+ * Find the installation for a version spec: `system`, a full or partial
+ * version (`20`, `v20.11`, `20.11.1`), `node`/`latest` for the newest
+ * installed version, an alias of a manager that supports them (`default`,
+ * `lts/*`, ...) or a range like `>=18 <21`, which picks the newest installed
+ * version satisfying it. Throws when nothing installed matches.
+ */
+export async function resolveNodeInstallation(spec: string): Promise<NodeInstallation> {
+  const found = await findNodeInstallation(spec, await listNodeInstallations());
+  if (found) return found;
+
+  // The version may have been installed since the last scan
+  const installations = await listNodeInstallations(true);
+  const rescanned = await findNodeInstallation(spec, installations);
+  if (!rescanned) {
+    const available = installations.map(installation => `${installation.version} (${installation.manager})`).join(', ');
+    throw new Error(`Node.js version '${spec}' is not installed. ${available ? `Installed versions: ${available}` : 'No Node.js installations were found'}`);
+  }
+  return rescanned;
+}
+
+// Installation for a version spec among the given installations
+async function findNodeInstallation(spec: string, installations: NodeInstallation[]): Promise<NodeInstallation | undefined> {
+  const trimmed = spec.trim();
+  let found: NodeInstallation | undefined;
+
+  if (trimmed === 'system') {
+    found = installations.find(installation => installation.manager === 'system');
+  } else if (trimmed === 'node' || trimmed === 'latest' || trimmed === 'stable') {
+    found = installations.find(installation => installation.manager !== 'system');
+  } else if (/^v?\d+(\.\d+){0,2}$/.test(trimmed)) {
+    found = matchVersion(installations, trimmed);
+  } else {
+    for (const detected of await detectVersionManagers()) {
+      const manager = versionManagers.find(candidate => candidate.name === detected.name)!;
+      const target = await manager.resolveAlias?.(detected.root, trimmed);
+      const managed = installations.filter(installation => installation.manager === detected.name);
+      if (target === 'node' || target === 'stable') {
+        found = managed[0];
+      } else if (target && /^v?\d+(\.\d+){0,2}$/.test(target)) {
+        found = matchVersion(managed, target);
+      }
+      if (found) break;
+    }
+    if (!found && /^[\s\dxX*.v<>=^~|-]+$/.test(trimmed)) {
+      found = installations.find(installation => installation.manager !== 'system' && satisfiesRange(installation.version, trimmed))
+        ?? installations.find(installation => satisfiesRange(installation.version, trimmed));
+    }
+  }
+  return found;
+}
+
+// Binaries and environment for an installation, or for the `node` on the PATH when there is none
+export function createNodeRuntime(installation: NodeInstallation | null, reason: string): NodeRuntime {
+  if (!installation) {
+    return { installation: null, node: 'node', npm: 'npm', npx: 'npx', env: { ...process.env }, reason };
+  }
+  let runtime = _runtimes.get(installation.node);
+  if (!runtime) {
+    runtime = {
+      installation,
+      node: installation.node,
+      npm: path.join(installation.binDir, 'npm'),
+      npx: path.join(installation.binDir, 'npx'),
+      env: { ...process.env, PATH: [installation.binDir, process.env.PATH].filter(Boolean).join(path.delimiter) }
+    };
+    _runtimes.set(installation.node, runtime);
+  }
+  return { ...runtime, reason };
+}
+
+// Installation of the selected version, resolved once per selection
+async function resolveSelectedInstallation(selectedVersion: string): Promise<NodeInstallation> {
+  if (_selectedInstallation?.version !== selectedVersion) {
+    const installation = await resolveNodeInstallation(selectedVersion);
+    _selectedInstallation = { version: selectedVersion, installation };
+  }
+  return _selectedInstallation.installation;
+}
+
+/**
+ * Runtime to execute commands in `cwd` with: the version requested for this
+ * call if any, otherwise the version chosen with select-node-version,
+ * otherwise the version the project pins (see findProjectNodeVersion),
+ * otherwise the `node` on the PATH. Throws when the requested, chosen or
+ * pinned version is not installed.
+ */
+export async function getNodeRuntime(cwd?: string, requestedVersion?: string): Promise<NodeRuntime> {
+  const selectedVersion = getSelectedNodeVersion();
+  const pinned = cwd ? await findProjectNodeVersion(cwd) : null;
+  const pinnedText = pinned ? `${pinned.spec} from ${describeProjectVersion(pinned)}` : null;
+
+  if (requestedVersion) {
+    const overridden = selectedVersion ? `the selected ${selectedVersion}` : pinnedText;
+    return createNodeRuntime(
+      await resolveNodeInstallation(requestedVersion),
+      `requested with nodeVersion (${requestedVersion})${overridden ? `, overriding ${overridden}` : ''}`
+    );
+  }
+
+  if (selectedVersion) {
+    return createNodeRuntime(
+      await resolveSelectedInstallation(selectedVersion),
+      `selected with select-node-version (${selectedVersion})${pinnedText ? `, overriding ${pinnedText}` : ''}`
+    );
+  }
+
+  if (pinned) {
+    let installation: NodeInstallation;
+    try {
+      installation = await resolveNodeInstallation(pinned.spec);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`${describeProjectVersion(pinned)} pins Node.js ${pinned.spec}. ${errorMessage}. Install it, or override the version with select-node-version or the nodeVersion parameter.`);
+    }
+    return createNodeRuntime(installation, `pinned to ${pinned.spec} by ${describeProjectVersion(pinned)}`);
+  }
+
+  const installation = (await listNodeInstallations()).find(candidate => candidate.manager === 'system') ?? null;
+  return createNodeRuntime(installation, 'no version selected or pinned by the project, using the node on the PATH');
+}
+
+// One line for tool responses saying which Node.js version ran and why
+export function describeNodeRuntime(runtime: NodeRuntime): string {
+  const version = runtime.installation ? `${runtime.installation.version} (${runtime.installation.manager})` : '`node` on the PATH';
+  return `Node.js: ${version}, ${runtime.reason}`;
+}
@@ -0,0 +1,281 @@
+import * as fs from "fs";
+import * as path from "path";
+import { globToRegExp } from "./helpers.js";
+
+// A package of a workspace (monorepo)
+export interface WorkspacePackage {
+  name: string;
+  version: string | null;
+  // Absolute directory of the package
+  dir: string;
+  // Directory relative to the workspace root, e.g. packages/api
+  relativeDir: string;
+  scripts: Record<string, string>;
+  // Names of the other packages of the workspace it depends on, from all dependency fields
+  dependencies: string[];
+}
+
+// A workspace root and its packages
+export interface Workspace {
+  root: string;
+  // Where the package patterns come from, e.g. workspaces in /repo/package.json
+  source: string;
+  patterns: string[];
+  // Packages sorted by directory
+  packages: WorkspacePackage[];
+}
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'];
+
+// How deep `**` patterns look for packages
+const MAX_GLOB_DEPTH = 8;
+
+async function readFileIfExists(file: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(file, 'utf-8');
+  } catch (error) {
+    return null;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.promises.access(file);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Package patterns of a pnpm-workspace.yaml: the items of its top-level `packages` list
+function parsePnpmWorkspace(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of content.split('\n')) {
+    const text = line.replace(/\s+#.*$/, '').trimEnd();
+    if (!text.trim() || text.trim().startsWith('#')) continue;
+    if (!/^\s/.test(text)) {
+      inPackages = /^packages\s*:/.test(text);
+      continue;
+    }
+    const item = inPackages ? /^\s+-\s*(.+)$/.exec(text) : null;
+    if (item) {
+      patterns.push(item[1].trim().replace(/^(['"])(.*)\1$/, '$2'));
+    }
+  }
+  return patterns;
+}
+
+// Package patterns declared in a directory, by package.json#workspaces or pnpm-workspace.yaml
+async function readWorkspacePatterns(dir: string): Promise<{ patterns: string[], source: string } | null> {
+  const pnpmFile = path.join(dir, 'pnpm-workspace.yaml');
+  const pnpmContent = await readFileIfExists(pnpmFile);
+  if (pnpmContent !== null) {
+    return { patterns: parsePnpmWorkspace(pnpmContent), source: pnpmFile };
+  }
+
+  const packageFile = path.join(dir, 'package.json');
+  const content = await readFileIfExists(packageFile);
+  if (content === null) return null;
+  let workspaces: unknown;
+  try {
+    workspaces = JSON.parse(content).workspaces;
+  } catch (error) {
+    return null;
+  }
+  // Yarn also accepts { packages: [...], nohoist: [...] }
+  const list = Array.isArray(workspaces) ? workspaces : (workspaces as { packages?: unknown } | undefined)?.packages;
+  if (!Array.isArray(list)) return null;
+  return { patterns: list.filter((pattern): pattern is string => typeof pattern === 'string'), source: `workspaces in ${packageFile}` };
+}
+
+/**
+ * Find the workspace root of a directory: the directory itself or the nearest
+ * parent, up to the project root (the directory with .git), that declares
+ * workspaces in package.json or pnpm-workspace.yaml.
+ */
+export async function findWorkspaceRoot(dir: string): Promise<string | null> {
+  let current = path.resolve(dir);
+  while (true) {
+    if (await readWorkspacePatterns(current)) return current;
+    const parent = path.dirname(current);
+    if (parent === current || await exists(path.join(current, '.git'))) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+// Directories below root up to a depth, relative to it, skipping node_modules and hidden directories
+export async function listDirectories(root: string, depth: number, prefix = ''): Promise<string[]> {
+  if (depth === 0) return [];
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(path.join(root, prefix), { withFileTypes: true });
+  } catch (error) {
+    return [];
+  }
+  const dirs: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    dirs.push(relative, ...await listDirectories(root, depth - 1, relative));
+  }
+  return dirs;
+}
+
+// Normalize a workspace pattern like ./packages/* or packages/*/ to packages/*
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+// Read one package of the workspace, or null when the directory has no valid package.json
+async function readWorkspacePackage(root: string, relativeDir: string): Promise<Omit<WorkspacePackage, 'dependencies'> & { dependencyNames: string[] } | null> {
+  const dir = path.join(root, relativeDir);
+  const content = await readFileIfExists(path.join(dir, 'package.json'));
+  if (content === null) return null;
+  try {
+    const packageJson = JSON.parse(content);
+    const dependencyNames = DEPENDENCY_FIELDS.flatMap(field => Object.keys(packageJson[field] ?? {}));
+    return {
+      name: typeof packageJson.name === 'string' ? packageJson.name : relativeDir,
+      version: typeof packageJson.version === 'string' ? packageJson.version : null,
+      dir,
+      relativeDir,
+      scripts: packageJson.scripts ?? {},
+      dependencyNames
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Load the workspace whose root is `root`: expand its package patterns,
+ * honouring `!` exclusions, and link packages that depend on each other.
+ * Throws when the directory declares no workspaces.
+ */
+export async function loadWorkspace(root: string): Promise<Workspace> {
+  const absRoot = path.resolve(root);
+  const declared = await readWorkspacePatterns(absRoot);
+  if (!declared) {
+    throw new Error(`${absRoot} is not a workspace root (no workspaces in package.json and no pnpm-workspace.yaml)`);
+  }
+
+  const patterns = declared.patterns.map(normalizePattern);
+  const include = patterns.filter(pattern => !pattern.startsWith('!')).map(pattern => globToRegExp(pattern));
+  const exclude = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => globToRegExp(normalizePattern(pattern.slice(1))));
+  const depth = patterns.some(pattern => pattern.includes('**'))
+    ? MAX_GLOB_DEPTH
+    : Math.max(0, ...patterns.map(pattern => pattern.replace(/^!/, '').split('/').length));
+
+  const dirs = (await listDirectories(absRoot, depth))
+    .filter(dir => include.some(regexp => regexp.test(dir)) && !exclude.some(regexp => regexp.test(dir)))
+    .sort();
+  const found = (await Promise.all(dirs.map(dir => readWorkspacePackage(absRoot, dir))))
+    .filter(pkg => pkg !== null);
+
+  const names = new Set(found.map(pkg => pkg.name));
+  const packages = found.map(({ dependencyNames, ...pkg }) => ({
+    ...pkg,
+    dependencies: Array.from(new Set(dependencyNames.filter(name => names.has(name) && name !== pkg.name))).sort()
+  }));
+  return { root: absRoot, source: declared.source, patterns: declared.patterns, packages };
+}
+
+// Load the workspace a directory belongs to, or null when it is not part of one
+export async function findWorkspace(dir: string): Promise<Workspace | null> {
+  const root = await findWorkspaceRoot(dir);
+  return root ? loadWorkspace(root) : null;
+}
+
+/**
+ * Sort packages so that every package comes after the packages it depends
+ * on, considering only dependencies among the given packages. Throws on a
+ * dependency cycle, naming the packages in it.
+ */
+export function sortTopologically(packages: WorkspacePackage[]): WorkspacePackage[] {
+  const byName = new Map(packages.map(pkg => [pkg.name, pkg]));
+  const sorted: WorkspacePackage[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (pkg: WorkspacePackage, trail: string[]): void => {
+    const current = state.get(pkg.name);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      const cycle = [...trail.slice(trail.indexOf(pkg.name)), pkg.name];
+      throw new Error(`Dependency cycle between workspace packages: ${cycle.join(' -> ')}`);
+    }
+    state.set(pkg.name, 'visiting');
+    for (const name of pkg.dependencies) {
+      const dependency = byName.get(name);
+      if (dependency) visit(dependency, [...trail, pkg.name]);
+    }
+    state.set(pkg.name, 'done');
+    sorted.push(pkg);
+  };
+
+  for (const pkg of packages) {
+    visit(pkg, []);
+  }
+  return sorted;
+}
+
+/**
+ * The given packages and the workspace packages they depend on, directly or
+ * through other packages, so they can be sorted by the whole dependency graph.
+ */
+export function withDependencies(all: WorkspacePackage[], packages: WorkspacePackage[]): WorkspacePackage[] {
+  const byName = new Map(all.map(pkg => [pkg.name, pkg]));
+  const collected = new Map(packages.map(pkg => [pkg.name, pkg]));
+  const pending = [...packages];
+  while (pending.length > 0) {
+    for (const name of pending.pop()!.dependencies) {
+      const dependency = byName.get(name);
+      if (dependency && !collected.has(name)) {
+        collected.set(name, dependency);
+        pending.push(dependency);
+      }
+    }
+  }
+  return Array.from(collected.values());
+}
+
+/**
+ * Names of the `targets` that a package depends on, directly or through
+ * workspace packages that are not targets themselves. Dependencies of a target
+ * are not followed further, as the target covers them.
+ */
+export function dependenciesAmong(all: WorkspacePackage[], pkg: WorkspacePackage, targets: Set<string>): string[] {
+  const byName = new Map(all.map(candidate => [candidate.name, candidate]));
+  const found = new Set<string>();
+  const visited = new Set<string>([pkg.name]);
+  const pending = [...pkg.dependencies];
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    if (visited.has(name)) continue;
+    visited.add(name);
+    if (targets.has(name)) {
+      found.add(name);
+    } else {
+      pending.push(...byName.get(name)?.dependencies ?? []);
+    }
+  }
+  return Array.from(found).sort();
+}
+
+/**
+ * Select packages by name or directory patterns, e.g. @scope/* or apps/**.
+ * A leading ! excludes matching packages; with only exclusions, every other
+ * package is selected.
+ */
+export function filterWorkspacePackages(packages: WorkspacePackage[], filters: string[]): WorkspacePackage[] {
+  const matches = (pkg: WorkspacePackage, pattern: string) =>
+    globToRegExp(pattern, false).test(pkg.name) || globToRegExp(normalizePattern(pattern)).test(pkg.relativeDir);
+  const positive = filters.filter(filter => !filter.startsWith('!'));
+  const negative = filters.filter(filter => filter.startsWith('!')).map(filter => filter.slice(1));
+  return packages.filter(pkg =>
+    (positive.length === 0 || positive.some(pattern => matches(pkg, pattern))) &&
+    !negative.some(pattern => matches(pkg, pattern))
+  );
+}
@@ -0,0 +1,352 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { readDependencyGraph } from '../dist/utils/lockfiles.js'
+
+const ROOT_MANIFEST = { name: 'app', version: '1.0.0', dependencies: { debug: '^4.3.4' }, devDependencies: { typescript: '~5.4.0' } }
+
+// Read the dependency graph of a project made of the given files
+async function readGraph (t, files) {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-node-lockfile-'))
+  t.after(() => fs.rmSync(root, { recursive: true, force: true }))
+  // The project root, so lockfiles of parent directories are not picked up
+  fs.mkdirSync(path.join(root, '.git'))
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+    fs.writeFileSync(path.join(root, file), typeof content === 'string' ? content : JSON.stringify(content))
+  }
+  return readDependencyGraph(root)
+}
+
+// Dependencies of a package as `name range type -> id`
+function describeDependencies (graph, id) {
+  return graph.packages.get(id).dependencies.map(dependency => `${dependency.name} ${dependency.range} ${dependency.type} -> ${dependency.id}`)
+}
+
+test('npm v1 lockfiles are read from their nested dependencies', async (t) => {
+  const graph = await readGraph(t, {
+    'package.json': ROOT_MANIFEST,
+    'package-lock.json': {
+      name: 'app',
+      version: '1.0.0',
+      lockfileVersion: 1,
+      requires: true,
+      dependencies: {
+        debug: { version: '4.3.4', requires: { ms: '2.1.3' }, dependencies: { ms: { version: '2.1.3' } } },
+        ms: { version: '2.1.2' },
+        typescript: { version: '5.4.5', dev: true }
+      }
+    }
+  })
+
+  assert.equal(graph.format, 'package-lock.json')
+  assert.deepEqual(Array.from(graph.importers.keys()), [''])
+  assert.equal(graph.importers.get('').name, 'app')
+  assert.deepEqual(describeDependencies(graph, ''), [
+    'debug ^4.3.4 prod -> node_modules/debug',
+    'typescript ~5.4.0 dev -> node_modules/typescript'
+  ])
+  // The nested copy wins over the hoisted one
+  assert.deepEqual(describeDependencies(graph, 'node_modules/debug'), ['ms 2.1.3 prod -> node_modules/debug/node_modules/ms'])
+  assert.equal(graph.packages.get('node_modules/debug/node_modules/ms').version, '2.1.3')
+})
+
+test('npm v3 lockfiles follow links to workspace packages', async (t) => {
+  const graph = await readGraph(t, {
+    'package.json': { ...ROOT_MANIFEST, workspaces: ['packages/*'] },
+    'packages/lib/package.json': { name: 'lib', version: '0.1.0', dependencies: { ms: '^2.1.2' } },
+    'package-lock.json': {
+      name: 'app',
+      version: '1.0.0',
+      lockfileVersion: 3,
+      requires: true,
+      packages: {
+        '': { name: 'app', version: '1.0.0', workspaces: ['packages/*'], dependencies: { debug: '^4.3.4', lib: '*' }, devDependencies: { typescript: '~5.4.0' } },
+        'node_modules/debug': { version: '4.3.4', dependencies: { ms: '2.1.2' } },
+        'node_modules/lib': { resolved: 'packages/lib', link: true },
+        'node_modules/ms': { version: '2.1.2' },
+        'node_modules/typescript': { version: '5.4.5', dev: true },
+        'packages/lib': { name: 'lib', version: '0.1.0', dependencies: { ms: '^2.1.2' } }
+      }
+    }
+  })
+
+  assert.deepEqual(Array.from(graph.importers.keys()), ['', 'packages/lib'])
+  assert.deepEqual(describeDependencies(graph, ''), [
+    'debug ^4.3.4 prod -> node_modules/debug',
+    'lib * prod -> packages/lib',
+    'typescript ~5.4.0 dev -> node_modules/typescript'
+  ])
+  assert.deepEqual(describeDependencies(graph, 'packages/lib'), ['ms ^2.1.2 prod -> node_modules/ms'])
+  assert.equal(graph.packages.has('node_modules/lib'), false)
+})
+
+test('pnpm v5 lockfiles are read with their separate specifiers', async (t) => {
+  const graph = await readGraph(t, {
+    'package.json': ROOT_MANIFEST,
+    'pnpm-lock.yaml': [
+      'lockfileVersion: 5.4',
+      '',
+      'specifiers:',
+      '  debug: ^4.3.4',
+      '  typescript: ~5.4.0',
+      '',
+      'dependencies:',
+      '  debug: 4.3.4',
+      '',
+      'devDependencies:',
+      '  typescript: 5.4.5',
+      '',
+      'packages:',
+      '',
+      '  /debug/4.3.4:',
+      '    resolution: {integrity: sha512-debug}',
+      '    dependencies:',
+      '      ms: 2.1.2',
+      '    dev: false',
+      '',
+      '  /ms/2.1.2:',
+      '    resolution: {integrity: sha512-ms}',
+      '    dev: false',
+      '',
+      '  /typescript/5.4.5:',
+      '    resolution: {integrity: sha512-typescript}',
+      "    engines: {node: '>=14.17'}",
+      '    hasBin: true',
+      '    dev: true',
+      ''
+    ].join('\n')
+  })
+
+  assert.equal(graph.format, 'pnpm-lock.yaml')
+  assert.equal(graph.importers.get('').name, 'app')
+  assert.deepEqual(describeDependencies(graph, 'workspace:.'), [
+    'debug ^4.3.4 prod -> debug@4.3.4',
+    'typescript ~5.4.0 dev -> typescript@5.4.5'
+  ])
+  assert.deepEqual(describeDependencies(graph, 'debug@4.3.4'), ['ms null prod -> ms@2.1.2'])
+})
+
+test('pnpm v6 lockfiles are read with peer suffixes', async (t) => {
+  const graph = await readGraph(t, {
+    'package.json': ROOT_MANIFEST,
+    'pnpm-lock.yaml': [
+      "lockfileVersion: '6.0'",
+      '',
+      'dependencies:',
+      '  debug:',
+      '    specifier: ^4.3.4',
+      '    version: 4.3.4(supports-color@8.1.1)',
+      '',
+      'devDependencies:',
+      '  typescript:',
+      '    specifier: ~5.4.0',
+      '    version: 5.4.5',
+      '',
+      'packages:',
+      '',
+      '  /debug@4.3.4(supports-color@8.1.1):',
+      '    resolution: {integrity: sha512-debug}',
+      '    dependencies:',
+      '      ms: 2.1.2',
+      '      supports-color: 8.1.1',
+      '    dev: false',
+      '',
+      '  /ms@2.1.2:',
+      '    resolution: {integrity: sha512-ms}',
+      '    dev: false',
+      '',
+      '  /supports-color@8.1.1:',
+      '    resolution: {integrity: sha512-supports-color}',
+      '    dev: false',
+      '',
+      '  /typescript@5.4.5:',
+      '    resolution: {integrity: sha512-typescript}',
+      '    dev: true',
+      ''
+    ].join('\n')
+  })
+
+  assert.deepEqual(describeDependencies(graph, 'workspace:.'), [
+    'debug ^4.3.4 prod -> debug@4.3.4(supports-color@8.1.1)',
+    'typescript ~5.4.0 dev -> typescript@5.4.5'
+  ])
+  const debug = graph.packages.get('debug@4.3.4(supports-color@8.1.1)')
+  assert.equal(debug.version, '4.3.4')
+  assert.deepEqual(describeDependencies(graph, debug.id), [
+    'ms null prod -> ms@2.1.2',
+    'supports-color null prod -> supports-color@8.1.1'
+  ])
+})
+
+test('pnpm v9 lockfiles are read from importers and snapshots, with links and aliases', async (t) => {
+  const graph = await readGraph(t, {
+    'package.json': ROOT_MANIFEST,
+    'pnpm-workspace.yaml': 'packages:\n  - packages/*\n',
+    'packages/lib/package.json': { name: 'lib', version: '0.1.0' },
+    'pnpm-lock.yaml': [
+      "lockfileVersion: '9.0'",
+      '',
+      'settings:',
+      '  autoInstallPeers: true',
+      '  excludeLinksFromLockfile: false',
+      '',
+      'importers:',
+      '',
+      '  .:',
+      '    dependencies:',
+      '      debug:',
+      '        specifier: ^4.3.4',
+      '        version: 4.3.4',
+      '      lib:',
+      '        specifier: workspace:*',
+      '        version: link:packages/lib',
+      '    devDependencies:',
+      '      typescript:',
+      '        specifier: ~5.4.0',
+      '        version: 5.4.5',
+      '',
+      '  packages/lib:',
+      '    dependencies:',
+      '      string-width-cjs:',
+      '        specifier: npm:string-width@^4.2.0',
+      '        version: string-width@4.2.3',
+      '',
+      'packages:',
+      '',
+      '  debug@4.3.4:',
+      '    resolution: {integrity: sha512-debug}',
+      '',
+      '  ms@2.1.2:',
+      '    resolution: {integrity: sha512-ms}',
+      '',
+      '  string-width@4.2.3:',
+      '    resolution: {integrity: sha512-string-width}',
+      '',
+      '  typescript@5.4.5:',
+      '    resolution: {integrity: sha512-typescript}',
+      '    hasBin: true',
+      '',
+      'snapshots:',
+      '',
+      '  debug@4.3.4:',
+      '    dependencies:',
+      '      ms: 2.1.2',
+      '',
+      '  ms@2.1.2: {}',
+      '',
+      '  string-width@4.2.3: {}',
+      '',
+      '  typescript@5.4.5: {}',
+      ''
+    ].join('\n')
+  })
+
+  assert.deepEqual(Array.from(graph.importers.keys()), ['', 'packages/lib'])
+  assert.equal(graph.importers.get('packages/lib').name, 'lib')
+  assert.deepEqual(describeDependencies(graph, 'workspace:.'), [
+    'debug ^4.3.4 prod -> debug@4.3.4',
+    'lib workspace:* prod -> workspace:packages/lib',
+    'typescript ~5.4.0 dev -> typescript@5.4.5'
+  ])
+  assert.deepEqual(describeDependencies(graph, 'workspace:packages/lib'), ['string-width-cjs npm:string-width@^4.2.0 prod -> string-width@4.2.3'])
+  assert.deepEqual(describeDependencies(graph, 'debug@4.3.4'), ['ms null prod -> ms@2.1.2'])
+})
+
+test('yarn v1 lockfiles are read with the importers from package.json', async (t) => {
+  const graph = await readGraph(t, {
+    'package.json': ROOT_MANIFEST,
+    'yarn.lock': [
+      '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.',
+      '# yarn lockfile v1',
+      '',
+      '',
+      'debug@^4.3.4:',
+      '  version "4.3.4"',
+      '  resolved "https://registry.yarnpkg.com/debug/-/debug-4.3.4.tgz#abc"',
+      '  integrity sha512-debug',
+      '  dependencies:',
+      '    ms "2.1.2"',
+      '',
+      'ms@2.1.2:',
+      '  version "2.1.2"',
+      '',
+      '"typescript@~5.4.0", typescript@~5.4.2:',
+      '  version "5.4.5"',
+      ''
+    ].join('\n')
+  })
+
+  assert.equal(graph.format, 'yarn.lock')
+  assert.deepEqual(Array.from(graph.importers.keys()), [''])
+  assert.equal(graph.importers.get('').name, 'app')
+  assert.deepEqual(describeDependencies(graph, 'workspace:.'), [
+    'debug ^4.3.4 prod -> debug@4.3.4',
+    'typescript ~5.4.0 dev -> typescript@5.4.5'
+  ])
+  assert.deepEqual(describeDependencies(graph, 'debug@4.3.4'), ['ms 2.1.2 prod -> ms@2.1.2'])
+})
+
+test('yarn berry lockfiles are read with their workspaces', async (t) => {
+  const graph = await readGraph(t, {
+    'package.json': { ...ROOT_MANIFEST, workspaces: ['packages/*'] },
+    'packages/lib/package.json': { name: 'lib', version: '0.1.0' },
+    'yarn.lock': [
+      '# This file is generated by running "yarn install" inside your project.',
+      '# Manual changes might be lost - proceed with caution!',
+      '',
+      '__metadata:',
+      '  version: 8',
+      '  cacheKey: 10c0',
+      '',
+      '"app@workspace:.":',
+      '  version: 0.0.0-use.local',
+      '  resolution: "app@workspace:."',
+      '  dependencies:',
+      '    debug: "npm:^4.3.4"',
+      '    lib: "workspace:^"',
+      '    typescript: "npm:~5.4.0"',
+      '  languageName: unknown',
+      '  linkType: soft',
+      '',
+      '"debug@npm:^4.3.4":',
+      '  version: 4.3.4',
+      '  resolution: "debug@npm:4.3.4"',
+      '  dependencies:',
+      '    ms: "npm:2.1.2"',
+      '  checksum: 10c0/debug',
+      '  languageName: node',
+      '  linkType: hard',
+      '',
+      '"lib@workspace:^, lib@workspace:packages/lib":',
+      '  version: 0.0.0-use.local',
+      '  resolution: "lib@workspace:packages/lib"',
+      '  languageName: unknown',
+      '  linkType: soft',
+      '',
+      '"ms@npm:2.1.2":',
+      '  version: 2.1.2',
+      '  resolution: "ms@npm:2.1.2"',
+      '  languageName: node',
+      '  linkType: hard',
+      '',
+      '"typescript@npm:~5.4.0":',
+      '  version: 5.4.5',
+      '  resolution: "typescript@npm:5.4.5"',
+      '  languageName: node',
+      '  linkType: hard',
+      ''
+    ].join('\n')
+  })
+
+  assert.deepEqual(Array.from(graph.importers.keys()).sort(), ['', 'packages/lib'])
+  assert.equal(graph.importers.get('packages/lib').name, 'lib')
+  assert.deepEqual(describeDependencies(graph, 'workspace:.'), [
+    'debug npm:^4.3.4 prod -> debug@4.3.4',
+    'lib workspace:^ prod -> workspace:packages/lib',
+    'typescript npm:~5.4.0 prod -> typescript@5.4.5'
+  ])
+  assert.deepEqual(describeDependencies(graph, 'debug@4.3.4'), ['ms npm:2.1.2 prod -> ms@2.1.2'])
+})
@@ -0,0 +1,38 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { appendLogLine, closeLogFile, loadLogState, openLogFile, readLogHistory } from '../dist/utils/logs.js'
+
+// The fields of a managed server that the log functions use
+function createServerInfo (logFile) {
+  return { logs: [], lineCount: 0, logFile, logFd: null, logSize: 0, partialLines: { stdout: '', stderr: '' } }
+}
+
+test('log lines with carriage returns and line separators round-trip through the log file', async (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-node-logs-'))
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+  const serverInfo = createServerInfo(path.join(dir, 'server.log'))
+  openLogFile(serverInfo)
+  const texts = ['progress 10%\rprogress 100%', 'first\u2028second\u2029third', 'next\u0085line', '"quoted" \\ text', '']
+  for (const text of texts) {
+    appendLogLine(serverInfo, 'stdout', text)
+  }
+  appendLogLine(serverInfo, 'stderr', 'done')
+
+  const history = []
+  for await (const line of readLogHistory(serverInfo)) {
+    history.push(line)
+  }
+  closeLogFile(serverInfo)
+
+  assert.deepEqual(history.map(line => line.text), [...texts, 'done'])
+  assert.deepEqual(history.map(line => line.seq), [0, 1, 2, 3, 4, 5])
+  assert.equal(history[5].stream, 'stderr')
+
+  const { logs, lineCount } = loadLogState(serverInfo.logFile)
+  assert.deepEqual(logs.map(line => line.text), [...texts, 'done'])
+  assert.equal(lineCount, 6)
+})
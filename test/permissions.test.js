@@ -0,0 +1,65 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { checkPermission, loadPermissionPolicy, packageNameFromSpec } from '../dist/utils/permissions.js'
+
+// Load a policy from a temporary file for the duration of a test
+function usePolicy (t, policy) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-node-policy-'))
+  const file = path.join(dir, 'policy.json')
+  fs.writeFileSync(file, JSON.stringify(policy))
+  loadPermissionPolicy(file)
+  t.after(() => {
+    loadPermissionPolicy('')
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+}
+
+test('the first matching rule wins and the default applies without a match', async (t) => {
+  usePolicy(t, {
+    default: 'deny',
+    rules: [
+      { name: 'no-eval', action: 'deny', tool: 'run-node-eval' },
+      { name: 'known-packages', action: 'allow', tool: 'run-npm-install', packageName: ['fastify', '@fastify/*'] },
+      { action: 'allow', tool: 'run-*' }
+    ]
+  })
+
+  assert.deepEqual(await checkPermission({ tool: 'run-node-eval', message: 'eval' }),
+    { allowed: false, action: 'deny', source: 'rule "no-eval"', prompted: false })
+  assert.deepEqual(await checkPermission({ tool: 'run-npm-install', message: 'install', packageName: '@fastify/cors' }),
+    { allowed: true, action: 'allow', source: 'rule "known-packages"', prompted: false })
+  // Unnamed rules are reported by their index
+  assert.deepEqual(await checkPermission({ tool: 'run-npm-install', message: 'install', packageName: 'left-pad' }),
+    { allowed: true, action: 'allow', source: 'rule "rules[2]"', prompted: false })
+  assert.deepEqual(await checkPermission({ tool: 'fetch-npm-docs', message: 'docs', packageName: 'fastify' }),
+    { allowed: false, action: 'deny', source: 'default policy', prompted: false })
+})
+
+test('negated patterns exclude values and match requests outside the pattern', async (t) => {
+  const home = os.homedir()
+  usePolicy(t, {
+    default: 'allow',
+    rules: [
+      { name: 'outside-workspace', action: 'deny', cwd: '!~/workspace/**' },
+      { name: 'no-secrets', action: 'deny', scriptPath: ['**/*.js', '!**/public/**'] }
+    ]
+  })
+
+  const check = async (request) => (await checkPermission({ tool: 'run-node-script', message: 'run', ...request })).source
+
+  assert.equal(await check({ cwd: '/tmp' }), 'rule "outside-workspace"')
+  // A rule on a field the request does not have does not match
+  assert.equal(await check({ cwd: path.join(home, 'workspace') }), 'default policy')
+  assert.equal(await check({ cwd: path.join(home, 'workspace/app'), scriptPath: path.join(home, 'workspace/app/server.js') }), 'rule "no-secrets"')
+  assert.equal(await check({ cwd: path.join(home, 'workspace/app'), scriptPath: path.join(home, 'workspace/app/public/app.js') }), 'default policy')
+})
+
+test('package names are taken from install specs', () => {
+  assert.equal(packageNameFromSpec('fastify'), 'fastify')
+  assert.equal(packageNameFromSpec('fastify@5'), 'fastify')
+  assert.equal(packageNameFromSpec('@types/node@22'), '@types/node')
+  assert.equal(packageNameFromSpec('@fastify/cors'), '@fastify/cors')
+})
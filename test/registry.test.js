@@ -0,0 +1,60 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { spawn } from 'node:child_process'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { getRegistryPath, readServerRegistry } from '../dist/utils/registry.js'
+import { restoreServers } from '../dist/utils/servers.js'
+
+// A PID no process has: Linux and macOS PIDs stay far below it
+const DEAD_PID = 2 ** 31 - 2
+
+// A registry entry for a server started by the given mcp-node process
+function createEntry (serverId, ownerPid, pid, args) {
+  return {
+    serverId,
+    ownerPid,
+    pid,
+    name: serverId,
+    command: `node ${args.join(' ')}`,
+    cwd: os.tmpdir(),
+    startTime: new Date().toISOString(),
+    logFile: path.join(os.tmpdir(), `${serverId}.log`),
+    launch: { file: process.execPath, args },
+    restartPolicy: 'never',
+    maxRestarts: 0,
+    restartDelay: 1000,
+    watchPatterns: []
+  }
+}
+
+test('restoring servers drops entries whose owner and server have exited', async (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-node-state-'))
+  process.env.MCP_NODE_STATE_DIR = dir
+  const args = ['-e', 'setTimeout(() => {}, 30000)']
+  const orphan = spawn(process.execPath, args, { stdio: 'ignore' })
+  t.after(() => {
+    orphan.kill('SIGKILL')
+    delete process.env.MCP_NODE_STATE_DIR
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+  await new Promise(resolve => orphan.once('spawn', resolve))
+
+  fs.writeFileSync(getRegistryPath(), JSON.stringify({
+    servers: [
+      createEntry('stale', DEAD_PID, DEAD_PID, args),
+      createEntry('orphan', DEAD_PID, orphan.pid, args),
+      // The parent process stands in for another mcp-node session that is still running
+      createEntry('other-session', process.ppid, DEAD_PID, args)
+    ]
+  }))
+
+  const { adopted, orphaned } = restoreServers('report')
+  assert.deepEqual(adopted, [])
+  assert.deepEqual(orphaned, ['orphan'])
+
+  const entries = readServerRegistry()
+  assert.deepEqual(entries.map(entry => entry.serverId).sort(), ['orphan', 'other-session'])
+  assert.equal(entries.find(entry => entry.serverId === 'orphan').ownerPid, process.pid)
+})
@@ -0,0 +1,76 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { resolveNodeInstallation, satisfiesRange } from '../dist/utils/version-managers.js'
+
+test('versions are checked against npm-style ranges', () => {
+  const cases = [
+    ['v20.11.1', '>=18 <21', true],
+    ['v21.0.0', '>=18 <21', false],
+    ['v18.0.0', '>= 18', true],
+    ['v20.12.0', '^20.11.0', true],
+    ['v20.10.0', '^20.11.0', false],
+    ['v21.0.0', '^20.11.0', false],
+    ['v0.2.5', '^0.2.3', true],
+    ['v0.3.0', '^0.2.3', false],
+    ['v20.11.9', '~20.11', true],
+    ['v20.12.0', '~20.11', false],
+    ['v20.0.0', '20.x', true],
+    ['v21.0.0', '20.x', false],
+    ['v20.5.0', '>20', false],
+    ['v21.0.0', '>20', true],
+    ['v20.11.5', '<=20.11', true],
+    ['v20.12.0', '<=20.11', false],
+    ['v18.1.0', '18 || 20', true],
+    ['v19.0.0', '18 || 20', false],
+    ['v20.99.0', '18 - 20', true],
+    ['v21.0.0', '18 - 20', false],
+    ['v22.1.0', '*', true]
+  ]
+  for (const [version, range, expected] of cases) {
+    assert.equal(satisfiesRange(version, range), expected, `${version} ${range}`)
+  }
+})
+
+test('unparsable ranges are reported as null', () => {
+  assert.equal(satisfiesRange('v20.11.1', 'latest'), null)
+  assert.equal(satisfiesRange('v20.11.1', '>=18 <abc'), null)
+})
+
+test('nvm aliases and ranges resolve to installed versions', async (t) => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-node-nvm-'))
+  const env = { NVM_DIR: process.env.NVM_DIR, MCP_NODE_VERSION_MANAGER: process.env.MCP_NODE_VERSION_MANAGER }
+  t.after(() => {
+    for (const [key, value] of Object.entries(env)) {
+      if (value === undefined) delete process.env[key]
+      else process.env[key] = value
+    }
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  // Installations are recognized by an executable node binary in a directory named after the version
+  for (const version of ['v18.19.0', 'v20.11.1', 'v20.12.2', 'v22.1.0']) {
+    const binDir = path.join(root, 'versions', 'node', version, 'bin')
+    fs.mkdirSync(binDir, { recursive: true })
+    fs.writeFileSync(path.join(binDir, 'node'), '#!/bin/sh\n', { mode: 0o755 })
+  }
+  const aliases = { default: 'lts/iron', 'lts/iron': 'v20.11.1', loop: 'loop-back', 'loop-back': 'loop' }
+  for (const [alias, target] of Object.entries(aliases)) {
+    fs.mkdirSync(path.dirname(path.join(root, 'alias', alias)), { recursive: true })
+    fs.writeFileSync(path.join(root, 'alias', alias), `${target}\n`)
+  }
+  process.env.NVM_DIR = root
+  process.env.MCP_NODE_VERSION_MANAGER = 'nvm'
+
+  const resolve = async (spec) => (await resolveNodeInstallation(spec)).version
+  assert.equal(await resolve('lts/iron'), 'v20.11.1')
+  // default -> lts/iron -> v20.11.1
+  assert.equal(await resolve('default'), 'v20.11.1')
+  assert.equal(await resolve('22'), 'v22.1.0')
+  assert.equal(await resolve('>=18 <21'), 'v20.12.2')
+  assert.equal(await resolve('~20.11'), 'v20.11.1')
+  assert.equal((await resolveNodeInstallation('^18')).manager, 'nvm')
+  await assert.rejects(resolveNodeInstallation('loop'), /is not installed/)
+})
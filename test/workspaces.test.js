@@ -0,0 +1,70 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { dependenciesAmong, loadWorkspace, sortTopologically, withDependencies } from '../dist/utils/workspaces.js'
+
+// A workspace package with only the fields the graph functions use
+function createPackage (name, dependencies = []) {
+  return { name, version: null, dir: `/repo/${name}`, relativeDir: name, scripts: {}, dependencies }
+}
+
+test('pnpm-workspace.yaml package patterns are read, honouring exclusions', async (t) => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-node-workspace-'))
+  t.after(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  fs.writeFileSync(path.join(root, 'pnpm-workspace.yaml'), [
+    '# Packages of the workspace',
+    'packages:',
+    "  - 'packages/*'",
+    '  - "apps/**"  # nested apps too',
+    '',
+    "  - '!packages/legacy'",
+    'onlyBuiltDependencies:',
+    '  - esbuild'
+  ].join('\n'))
+  const packages = {
+    'packages/a': { name: 'a' },
+    'packages/b': { name: 'b', devDependencies: { a: 'workspace:*' } },
+    'packages/legacy': { name: 'legacy' },
+    'apps/web': { name: 'web', dependencies: { b: 'workspace:^', react: '^18.0.0' } }
+  }
+  for (const [dir, packageJson] of Object.entries(packages)) {
+    fs.mkdirSync(path.join(root, dir), { recursive: true })
+    fs.writeFileSync(path.join(root, dir, 'package.json'), JSON.stringify(packageJson))
+  }
+
+  const workspace = await loadWorkspace(root)
+  assert.deepEqual(workspace.patterns, ['packages/*', 'apps/**', '!packages/legacy'])
+  assert.equal(workspace.source, path.join(root, 'pnpm-workspace.yaml'))
+  assert.deepEqual(workspace.packages.map(pkg => [pkg.relativeDir, pkg.name, pkg.dependencies]), [
+    ['apps/web', 'web', ['b']],
+    ['packages/a', 'a', []],
+    ['packages/b', 'b', ['a']]
+  ])
+})
+
+test('packages are sorted after their dependencies', () => {
+  const packages = [createPackage('app', ['lib', 'utils']), createPackage('lib', ['utils']), createPackage('utils')]
+  assert.deepEqual(sortTopologically(packages).map(pkg => pkg.name), ['utils', 'lib', 'app'])
+  // Dependencies outside the given packages are ignored
+  assert.deepEqual(sortTopologically(packages.slice(0, 2)).map(pkg => pkg.name), ['lib', 'app'])
+})
+
+test('dependency cycles are reported with the packages in them', () => {
+  const packages = [createPackage('app', ['a']), createPackage('a', ['b']), createPackage('b', ['c']), createPackage('c', ['a'])]
+  assert.throws(() => sortTopologically(packages), /Dependency cycle between workspace packages: a -> b -> c -> a/)
+})
+
+test('dependencies are followed through packages that do not run', () => {
+  // app -> lib -> utils, where lib has no script to run
+  const packages = [createPackage('app', ['lib']), createPackage('lib', ['utils']), createPackage('utils'), createPackage('docs')]
+  const [app, lib] = packages
+
+  assert.deepEqual(withDependencies(packages, [app]).map(pkg => pkg.name), ['app', 'lib', 'utils'])
+  assert.deepEqual(dependenciesAmong(packages, app, new Set(['app', 'utils'])), ['utils'])
+  // A dependency that runs covers the ones behind it
+  assert.deepEqual(dependenciesAmong(packages, app, new Set(['app', 'lib', 'utils'])), ['lib'])
+  assert.deepEqual(dependenciesAmong(packages, lib, new Set(['app'])), [])
+})